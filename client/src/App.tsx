@@ -14,6 +14,9 @@ import Settings from "./pages/Settings";
 import Players from "./pages/Players";
 import Leaderboard from "./pages/Leaderboard";
 import Trading from "./pages/Trading";
+import TradeAds from "./pages/TradeAds";
+import Marketplace from "./pages/Marketplace";
+import Verify from "./pages/Verify";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { AdminPanel } from "@/components/AdminPanel";
@@ -21,7 +24,7 @@ import { BanOverlay } from "@/components/BanOverlay";
 import { InactiveTabOverlay } from "@/components/InactiveTabOverlay";
 import { PendingSaveIndicator } from "@/components/PendingSaveIndicator";
 import { UpdateNotification } from "@/components/UpdateNotification";
-import { Dices, Package, Database, Shield, LogOut, Sparkles, Settings as SettingsIcon, Users, Trophy, ArrowLeftRight } from "lucide-react";
+import { Dices, Package, Database, Shield, LogOut, Sparkles, Settings as SettingsIcon, Users, Trophy, ArrowLeftRight, Megaphone, Store } from "lucide-react";
 import { signOut } from "firebase/auth";
 import { auth } from "./lib/firebase";
 import type { Item } from "@shared/schema";
@@ -63,6 +66,11 @@ function AppContent() {
     setAdminPanelOpen(true);
   };
 
+  // Roll verification is public and must not depend on auth state
+  if (location === "/verify") {
+    return <Verify />;
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-primary/10">
@@ -95,7 +103,7 @@ function AppContent() {
             <div>
               <h1 className="text-xl font-bold tracking-tight">Limited Empire</h1>
               <p className="text-xs text-muted-foreground" data-testid="text-username">
-                {user.username} {user.isAdmin && "• Admin"}
+                {user.username} {user.isAdmin ? "• Admin" : user.isModerator && "• Moderator"}
               </p>
             </div>
           </div>
@@ -105,7 +113,7 @@ function AppContent() {
                 R${(user.cash ?? 1000).toLocaleString()}
               </span>
             </div>
-            {user.isAdmin && (
+            {(user.isAdmin || user.isModerator) && (
               <Button
                 variant="outline"
                 size="sm"
@@ -113,7 +121,7 @@ function AppContent() {
                 data-testid="button-open-admin"
               >
                 <Shield className="w-4 h-4 mr-2" />
-                Admin
+                {user.isAdmin ? "Admin" : "Moderation"}
               </Button>
             )}
             <Button
@@ -131,7 +139,7 @@ function AppContent() {
 
       <div className="flex-1 container mx-auto px-4 py-4 pb-8">
         <Tabs value={currentTab} onValueChange={(value) => setLocation(value === "roll" ? "/" : `/${value}`)}>
-          <TabsList className="grid w-full max-w-6xl mx-auto grid-cols-7 mb-6">
+          <TabsList className="grid w-full max-w-6xl mx-auto grid-cols-9 mb-6">
             <TabsTrigger value="roll" data-testid="tab-roll" className="flex items-center gap-1 md:gap-2">
               <Dices className="w-4 h-4" />
               <span className="hidden sm:inline">Roll</span>
@@ -144,6 +152,14 @@ function AppContent() {
               <ArrowLeftRight className="w-4 h-4" />
               <span className="hidden sm:inline">Trading</span>
             </TabsTrigger>
+            <TabsTrigger value="trade-ads" data-testid="tab-trade-ads" className="flex items-center gap-1 md:gap-2">
+              <Megaphone className="w-4 h-4" />
+              <span className="hidden sm:inline">Trade Ads</span>
+            </TabsTrigger>
+            <TabsTrigger value="marketplace" data-testid="tab-marketplace" className="flex items-center gap-1 md:gap-2">
+              <Store className="w-4 h-4" />
+              <span className="hidden sm:inline">Market</span>
+            </TabsTrigger>
             <TabsTrigger value="players" data-testid="tab-players" className="flex items-center gap-1 md:gap-2">
               <Users className="w-4 h-4" />
               <span className="hidden sm:inline">Players</span>
@@ -171,6 +187,8 @@ function AppContent() {
           <Switch>
             <Route path="/inventory" component={Inventory} />
             <Route path="/trading" component={Trading} />
+            <Route path="/trade-ads" component={TradeAds} />
+            <Route path="/marketplace" component={Marketplace} />
             <Route path="/players" component={Players} />
             <Route path="/leaderboard" component={Leaderboard} />
             <Route path="/index">
@@ -200,7 +218,7 @@ function AppContent() {
       <BanOverlay />
       <InactiveTabOverlay />
 
-      {user.isAdmin && (
+      {(user.isAdmin || user.isModerator) && (
         <AdminPanel
           open={adminPanelOpen}
           onOpenChange={(open) => {
@@ -0,0 +1,220 @@
+import { useState, useEffect } from "react";
+import { collection, query, where, orderBy, limit, getDocs, type QueryConstraint } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { canModerate, getStaffRole, type Appeal, type AppealStatus, type ReviewAppealRequest } from "@shared/schema";
+import { AlertCircle, Check, Clock, RefreshCw, X } from "lucide-react";
+
+const STATUS_FILTERS: Record<string, { label: string; statuses: AppealStatus[] | null }> = {
+  pending: { label: "Pending", statuses: ["pending"] },
+  approved: { label: "Approved", statuses: ["approved"] },
+  denied: { label: "Denied", statuses: ["denied"] },
+  all: { label: "All Appeals", statuses: null },
+};
+
+const STATUS_LABELS: Record<AppealStatus, { label: string; variant: "default" | "destructive" | "secondary" | "outline" }> = {
+  pending: { label: "Pending", variant: "destructive" },
+  approved: { label: "Approved", variant: "secondary" },
+  denied: { label: "Denied", variant: "outline" },
+};
+
+export function AdminAppealsTab() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const role = currentUser ? getStaffRole(currentUser) : null;
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("pending");
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [reviewingAppealId, setReviewingAppealId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAppeals();
+  }, [statusFilter]);
+
+  const loadAppeals = async () => {
+    setLoading(true);
+    try {
+      const { statuses } = STATUS_FILTERS[statusFilter];
+      const constraints: QueryConstraint[] = [orderBy("createdAt", "desc"), limit(100)];
+      if (statuses) {
+        constraints.unshift(where("status", "in", statuses));
+      }
+
+      const snapshot = await getDocs(query(collection(db, "appeals"), ...constraints));
+      setAppeals(snapshot.docs.map((appealDoc) => ({ id: appealDoc.id, ...appealDoc.data() }) as Appeal));
+    } catch (error: any) {
+      console.error("Error loading appeals:", error);
+      toast({
+        title: "Failed to load appeals",
+        description: error.message || "An error occurred while loading appeals",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reviewAppeal = async (appeal: Appeal, decision: ReviewAppealRequest["decision"]) => {
+    setReviewingAppealId(appeal.id);
+    try {
+      const updated = await apiRequest<Appeal>({
+        url: `/api/admin/appeals/${appeal.id}`,
+        method: "POST",
+        data: { decision, reply: replies[appeal.id] || "" },
+      });
+
+      const { statuses } = STATUS_FILTERS[statusFilter];
+      setAppeals((current) => current
+        .map((existing) => (existing.id === updated.id ? updated : existing))
+        .filter((existing) => !statuses || statuses.includes(existing.status)));
+
+      toast({
+        title: decision === "approved" ? "Appeal approved" : "Appeal denied",
+        description: decision === "approved"
+          ? `${appeal.username} has been unbanned`
+          : `${appeal.username} has been notified`,
+      });
+    } catch (error: any) {
+      console.error("Error reviewing appeal:", error);
+      toast({
+        title: "Review failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setReviewingAppealId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Ban Appeals</h3>
+          <p className="text-sm text-muted-foreground">
+            Approve to lift the ban, or deny with a reply to the player
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[150px]" data-testid="select-appeal-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STATUS_FILTERS).map(([value, filter]) => (
+                <SelectItem key={value} value={value}>
+                  {filter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={loadAppeals} disabled={loading} data-testid="button-refresh-appeals">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Loading appeals...
+        </div>
+      ) : appeals.length === 0 ? (
+        <div className="text-center py-16 text-muted-foreground">
+          <AlertCircle className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p>No appeals found</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {appeals.map((appeal) => {
+            const statusInfo = STATUS_LABELS[appeal.status];
+            const busy = reviewingAppealId === appeal.id;
+            const allowed = canModerate(role, appeal.isPermanentBan ? "lift_permanent_ban" : "lift_temp_ban");
+
+            return (
+              <div key={appeal.id} className="p-4 bg-card rounded-lg border space-y-3" data-testid={`appeal-${appeal.id}`}>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant={statusInfo.variant} data-testid={`badge-appeal-status-${appeal.id}`}>
+                      {statusInfo.label}
+                    </Badge>
+                    <Badge variant="outline">
+                      {appeal.isPermanentBan
+                        ? "Permanent Ban"
+                        : appeal.banExpiresAt
+                          ? `Temporary, until ${format(new Date(appeal.banExpiresAt), "MMM dd, yyyy")}`
+                          : "Temporary Ban"}
+                    </Badge>
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="w-3 h-3" />
+                      {format(new Date(appeal.createdAt), "MMM dd, yyyy 'at' h:mm a")}
+                    </span>
+                  </div>
+                  <p className="text-sm">
+                    <span className="font-medium">{appeal.username}</span>
+                    <span className="text-muted-foreground"> was banned for: </span>
+                    {appeal.banReason || "No reason provided"}
+                  </p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{appeal.statement}</p>
+                </div>
+
+                {appeal.status === "pending" ? (
+                  <div className="space-y-2 border-t pt-3">
+                    <Textarea
+                      maxLength={1000}
+                      value={replies[appeal.id] || ""}
+                      onChange={(e) => setReplies((current) => ({ ...current, [appeal.id]: e.target.value }))}
+                      placeholder="Reply to the player (optional)..."
+                      className="min-h-[60px]"
+                      disabled={busy || !allowed}
+                      data-testid={`input-appeal-reply-${appeal.id}`}
+                    />
+                    <div className="flex items-center justify-end gap-2">
+                      {!allowed && (
+                        <span className="text-xs text-muted-foreground mr-auto">Only admins can review permanent ban appeals</span>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reviewAppeal(appeal, "denied")}
+                        disabled={busy || !allowed}
+                        data-testid={`button-deny-appeal-${appeal.id}`}
+                      >
+                        <X className="w-4 h-4 mr-2" />
+                        Deny
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => reviewAppeal(appeal, "approved")}
+                        disabled={busy || !allowed}
+                        data-testid={`button-approve-appeal-${appeal.id}`}
+                      >
+                        <Check className="w-4 h-4 mr-2" />
+                        Approve & Unban
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="border-t pt-3 text-sm space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      Reviewed by {appeal.reviewerUsername || "unknown"}
+                      {appeal.reviewedAt && ` on ${format(new Date(appeal.reviewedAt), "MMM dd, yyyy 'at' h:mm a")}`}
+                    </p>
+                    {appeal.reply && <p className="whitespace-pre-wrap break-words">{appeal.reply}</p>}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
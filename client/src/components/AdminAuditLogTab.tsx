@@ -1,70 +1,160 @@
 import { useState, useEffect } from "react";
-import { collection, query, orderBy, limit, getDocs } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import type { AuditLog } from "@shared/schema";
+import { REVERTIBLE_AUDIT_ACTIONS, auditLogSchema, type AuditLog, type AuditLogExportFormat, type AuditLogFilters } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadAuditLogs, getAuditLogs } from "@/lib/auditLogService";
 import { format } from "date-fns";
-import { Clock, User, FileText, AlertCircle } from "lucide-react";
+import { Clock, User, FileText, AlertCircle, Undo2, Download } from "lucide-react";
 
 const ACTION_LABELS: Record<string, { label: string; variant: "default" | "destructive" | "secondary" | "outline" }> = {
   user_ban: { label: "User Banned", variant: "destructive" },
   user_unban: { label: "User Unbanned", variant: "secondary" },
+  user_warn: { label: "User Warned", variant: "outline" },
   user_wipe_inventory: { label: "Inventory Wiped", variant: "destructive" },
   user_give_items: { label: "Items Given", variant: "default" },
   item_create: { label: "Item Created", variant: "default" },
   item_edit: { label: "Item Edited", variant: "outline" },
   item_delete: { label: "Item Deleted", variant: "destructive" },
   game_reset_economy: { label: "Economy Reset", variant: "destructive" },
+  game_config_update: { label: "Game Config Updated", variant: "outline" },
+  report_update: { label: "Report Updated", variant: "outline" },
+  appeal_review: { label: "Appeal Reviewed", variant: "outline" },
+  audit_revert: { label: "Action Reverted", variant: "secondary" },
+  luck_event_create: { label: "Luck Event Created", variant: "default" },
+  luck_event_cancel: { label: "Luck Event Cancelled", variant: "outline" },
 };
 
+interface FilterForm {
+  actionType: string; // "all" or an action type
+  adminUsername: string;
+  targetUsername: string;
+  from: string; // yyyy-mm-dd from the date input
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterForm = { actionType: "all", adminUsername: "", targetUsername: "", from: "", to: "" };
+
+// Dates are taken as whole local days, so "to" includes everything up to its midnight
+function toAuditLogFilters(form: FilterForm): AuditLogFilters {
+  return {
+    ...(form.actionType !== "all" && { actionType: form.actionType as AuditLog["actionType"] }),
+    ...(form.adminUsername.trim() && { adminUsername: form.adminUsername.trim() }),
+    ...(form.targetUsername.trim() && { targetUsername: form.targetUsername.trim() }),
+    ...(form.from && { from: new Date(`${form.from}T00:00:00`).getTime() }),
+    ...(form.to && { to: new Date(`${form.to}T23:59:59.999`).getTime() }),
+  };
+}
+
+// Entries logged before snapshots were recorded can't be reverted
+function canRevert(log: AuditLog): boolean {
+  return (REVERTIBLE_AUDIT_ACTIONS as readonly string[]).includes(log.actionType) && !!log.snapshot && !log.revertedAt;
+}
+
 export function AdminAuditLogTab() {
   const { toast } = useToast();
   const [logs, setLogs] = useState<AuditLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [exporting, setExporting] = useState(false);
+  const [revertTarget, setRevertTarget] = useState<AuditLog | null>(null);
+  const [reverting, setReverting] = useState(false);
 
   useEffect(() => {
     loadAuditLogs();
-  }, []);
+  }, [filters]);
 
   const loadAuditLogs = async () => {
     setLoading(true);
     try {
-      const logsRef = collection(db, "auditLogs");
-      const q = query(logsRef, orderBy("timestamp", "desc"), limit(100));
-      const snapshot = await getDocs(q);
-      
-      const auditLogs: AuditLog[] = [];
-      snapshot.forEach((doc) => {
-        auditLogs.push({ id: doc.id, ...doc.data() } as AuditLog);
-      });
-
-      setLogs(auditLogs);
-      console.log(`Loaded ${auditLogs.length} audit logs successfully`);
+      const page = await getAuditLogs(filters);
+      setLogs(page.logs);
+      setNextCursor(page.nextCursor);
     } catch (error: any) {
       console.error("Error loading audit logs:", error);
-      
-      // Check if it's an index error
-      if (error.code === 'failed-precondition' && error.message.includes('index')) {
-        console.error("INDEX ERROR: You need to create a Firestore index. Check the console for the index creation link.");
-        toast({
-          title: "Index Required",
-          description: "Check the browser console for a link to create the required Firestore index",
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: "Failed to load audit logs",
-          description: error.message || "An error occurred while loading the audit logs",
-          variant: "destructive",
-        });
-      }
+      toast({
+        title: "Failed to load audit logs",
+        description: error.message || "An error occurred while loading the audit logs",
+        variant: "destructive",
+      });
     } finally {
       setLoading(false);
     }
   };
 
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await getAuditLogs(filters, nextCursor);
+      setLogs((current) => [...current, ...page.logs]);
+      setNextCursor(page.nextCursor);
+    } catch (error: any) {
+      console.error("Error loading more audit logs:", error);
+      toast({
+        title: "Failed to load audit logs",
+        description: error.message || "An error occurred while loading the audit logs",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleExport = async (exportFormat: AuditLogExportFormat) => {
+    setExporting(true);
+    try {
+      await downloadAuditLogs(filters, exportFormat);
+    } catch (error: any) {
+      console.error("Error exporting audit logs:", error);
+      toast({
+        title: "Export failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleRevert = async () => {
+    if (!revertTarget) return;
+
+    setReverting(true);
+    try {
+      const { details } = await apiRequest<{ details: string[] }>({
+        url: `/api/admin/audit-logs/${revertTarget.id}/revert`,
+        method: "POST",
+      });
+
+      toast({
+        title: "Action reverted",
+        description: details.join(". "),
+      });
+      setRevertTarget(null);
+      loadAuditLogs();
+    } catch (error: any) {
+      console.error("Error reverting action:", error);
+      toast({
+        title: "Revert failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setReverting(false);
+    }
+  };
+
   const formatDetails = (log: AuditLog) => {
     const details: string[] = [];
 
@@ -102,6 +192,10 @@ export function AdminAuditLogTab() {
       }
     }
 
+    if (log.actionType.startsWith("luck_event_") && log.details?.description) {
+      details.push(`${log.details.name}: ${log.details.description}`);
+    }
+
     return details;
   };
 
@@ -114,15 +208,119 @@ export function AdminAuditLogTab() {
             Track all administrative actions performed in the system
           </p>
         </div>
-        <button
-          onClick={loadAuditLogs}
-          className="text-sm text-muted-foreground hover:text-foreground"
-          data-testid="button-refresh-audit-log"
-        >
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleExport("csv")}
+            disabled={exporting}
+            data-testid="button-export-audit-csv"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleExport("ndjson")}
+            disabled={exporting}
+            data-testid="button-export-audit-ndjson"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            NDJSON
+          </Button>
+          <button
+            onClick={loadAuditLogs}
+            className="text-sm text-muted-foreground hover:text-foreground"
+            data-testid="button-refresh-audit-log"
+          >
+            Refresh
+          </button>
+        </div>
       </div>
 
+      <form
+        className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setFilters(toAuditLogFilters(form));
+        }}
+      >
+        <div className="space-y-1">
+          <Label>Action</Label>
+          <Select value={form.actionType} onValueChange={(actionType) => setForm({ ...form, actionType })}>
+            <SelectTrigger data-testid="select-audit-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {auditLogSchema.shape.actionType.options.map((actionType) => (
+                <SelectItem key={actionType} value={actionType}>
+                  {ACTION_LABELS[actionType]?.label || actionType}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-admin">Admin</Label>
+          <Input
+            id="audit-admin"
+            placeholder="Username"
+            value={form.adminUsername}
+            onChange={(e) => setForm({ ...form, adminUsername: e.target.value })}
+            data-testid="input-audit-admin"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-target">Target</Label>
+          <Input
+            id="audit-target"
+            placeholder="Username"
+            value={form.targetUsername}
+            onChange={(e) => setForm({ ...form, targetUsername: e.target.value })}
+            data-testid="input-audit-target"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-from">From</Label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={form.from}
+            onChange={(e) => setForm({ ...form, from: e.target.value })}
+            data-testid="input-audit-from"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-to">To</Label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={form.to}
+            onChange={(e) => setForm({ ...form, to: e.target.value })}
+            data-testid="input-audit-to"
+          />
+        </div>
+        <div className="col-span-2 md:col-span-5 flex gap-2 justify-end">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setForm(EMPTY_FILTERS);
+              setFilters({});
+            }}
+            data-testid="button-clear-audit-filters"
+          >
+            Clear
+          </Button>
+          <Button type="submit" size="sm" data-testid="button-apply-audit-filters">
+            Apply Filters
+          </Button>
+        </div>
+      </form>
+
       {loading ? (
         <div className="text-center py-8 text-muted-foreground">
           Loading audit logs...
@@ -151,6 +349,11 @@ export function AdminAuditLogTab() {
                         <Badge variant={actionInfo.variant} data-testid={`badge-action-${log.actionType}`}>
                           {actionInfo.label}
                         </Badge>
+                        {log.revertedAt && (
+                          <Badge variant="outline" data-testid={`badge-reverted-${log.id}`}>
+                            Reverted by {log.revertedByUsername || "admin"}
+                          </Badge>
+                        )}
                         <div className="flex items-center gap-1 text-sm text-muted-foreground">
                           <Clock className="w-3 h-3" />
                           <span data-testid={`text-timestamp-${log.id}`}>
@@ -185,13 +388,52 @@ export function AdminAuditLogTab() {
                         </div>
                       )}
                     </div>
+                    {canRevert(log) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRevertTarget(log)}
+                        data-testid={`button-revert-${log.id}`}
+                      >
+                        <Undo2 className="w-4 h-4 mr-2" />
+                        Revert
+                      </Button>
+                    )}
                   </div>
                 </div>
               );
             })}
+            {nextCursor && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={loadMore}
+                disabled={loadingMore}
+                data-testid="button-audit-load-more"
+              >
+                {loadingMore ? "Loading..." : "Load More"}
+              </Button>
+            )}
           </div>
         </ScrollArea>
       )}
+
+      <AlertDialog open={!!revertTarget} onOpenChange={(open) => !open && setRevertTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revert this action?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {revertTarget && `${ACTION_LABELS[revertTarget.actionType]?.label || revertTarget.actionType} by ${revertTarget.adminUsername}${revertTarget.targetUsername ? ` on ${revertTarget.targetUsername}` : ""} will be undone from the state saved when it ran. Items that have since left the inventory they were moved to can't be returned.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={reverting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevert} disabled={reverting} data-testid="button-confirm-revert">
+              {reverting ? "Reverting..." : "Revert"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatValue } from "@/lib/rarity";
+import type { EconomySnapshot } from "@shared/schema";
+import { Camera, LineChart as LineChartIcon } from "lucide-react";
+
+const ECONOMY_QUERY_KEY = ["/api/admin/economy?days=30"];
+
+const chartConfig = {
+  totalCash: { label: "Cash in circulation", color: "hsl(var(--primary))" },
+  periodCashCreated: { label: "Created by sells", color: "hsl(var(--chart-2))" },
+  periodFees: { label: "Removed by fees", color: "hsl(var(--destructive))" },
+  periodRollSpend: { label: "Spent on rolls", color: "hsl(var(--chart-5))" },
+  rollsPerHour: { label: "Rolls / hour", color: "hsl(var(--chart-2))" },
+  players: { label: "Players", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+export function AdminEconomyTab() {
+  const { toast } = useToast();
+  const [takingSnapshot, setTakingSnapshot] = useState(false);
+
+  const { data: snapshots = [], isLoading } = useQuery<EconomySnapshot[]>({
+    queryKey: ECONOMY_QUERY_KEY,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const latest = snapshots[snapshots.length - 1];
+
+  const handleTakeSnapshot = async () => {
+    setTakingSnapshot(true);
+    try {
+      await apiRequest<EconomySnapshot>({ url: "/api/admin/economy/snapshot", method: "POST" });
+      await queryClient.invalidateQueries({ queryKey: ECONOMY_QUERY_KEY });
+
+      toast({
+        title: "Snapshot taken",
+        description: "Today's economy snapshot has been updated",
+      });
+    } catch (error: any) {
+      console.error("Error taking economy snapshot:", error);
+      toast({
+        title: "Snapshot failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setTakingSnapshot(false);
+    }
+  };
+
+  const header = (
+    <div className="flex items-start justify-between gap-4">
+      <div className="flex items-start gap-4">
+        <LineChartIcon className="w-6 h-6 text-muted-foreground mt-1" />
+        <div>
+          <h3 className="text-lg font-semibold">Economy</h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Daily snapshots of cash, rolls, stock and inventory value{latest && ` • last taken ${new Date(latest.takenAt).toLocaleString()}`}
+          </p>
+        </div>
+      </div>
+      <Button variant="outline" onClick={handleTakeSnapshot} disabled={takingSnapshot} data-testid="button-take-economy-snapshot">
+        <Camera className="w-4 h-4 mr-2" />
+        {takingSnapshot ? "Taking..." : "Snapshot Now"}
+      </Button>
+    </div>
+  );
+
+  if (isLoading) {
+    return <div className="space-y-6">{header}<p className="text-center text-muted-foreground py-8">Loading economy data...</p></div>;
+  }
+
+  if (!latest) {
+    return <div className="space-y-6">{header}<p className="text-center text-muted-foreground py-8">No snapshots yet</p></div>;
+  }
+
+  // Snapshots taken before roll prices existed have no roll spend
+  const days = snapshots.map((snapshot) => ({ ...snapshot, periodRollSpend: snapshot.periodRollSpend ?? 0, day: formatDay(snapshot.date) }));
+  const valueBuckets = latest.inventoryValue.buckets.map((bucket, index, buckets) => ({
+    range: index === buckets.length - 1 ? `${formatValue(bucket.min)}+` : `${formatValue(bucket.min)}–${formatValue(buckets[index + 1].min)}`,
+    players: bucket.players,
+  }));
+  const limitedItems = [...latest.limitedItems].sort((a, b) => (b.depletedPerDay ?? -1) - (a.depletedPerDay ?? -1));
+
+  const summary = [
+    { label: "Cash in Circulation", value: `R$${latest.totalCash.toLocaleString()}` },
+    { label: "Created by Sells", value: `R$${latest.periodCashCreated.toLocaleString()}` },
+    { label: "Removed by Fees", value: `R$${latest.periodFees.toLocaleString()}` },
+    { label: "Spent on Rolls", value: `R$${(latest.periodRollSpend ?? 0).toLocaleString()}` },
+    { label: "Rolls / Hour", value: latest.rollsPerHour !== null ? latest.rollsPerHour.toLocaleString() : "—" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {header}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {summary.map((stat) => (
+          <Card key={stat.label} className="rounded-xl">
+            <CardContent className="p-4">
+              <h4 className="text-xs font-medium text-muted-foreground mb-1">{stat.label}</h4>
+              <p className="text-lg font-bold tabular-nums">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Sell, fee and roll figures cover the time since the previous snapshot. {latest.userCount.toLocaleString()} players, {latest.highValueRolls.toLocaleString()} high-value rolls in the last 24 hours.
+      </p>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="border rounded-lg p-4 space-y-2">
+          <h4 className="text-sm font-medium">Cash in Circulation</h4>
+          <ChartContainer config={chartConfig} className="h-[200px] w-full aspect-auto">
+            <LineChart data={days}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} />
+              <YAxis tickFormatter={(value) => formatValue(value)} tickLine={false} axisLine={false} width={60} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="totalCash" stroke="var(--color-totalCash)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+
+        <div className="border rounded-lg p-4 space-y-2">
+          <h4 className="text-sm font-medium">Cash Created vs Removed</h4>
+          <ChartContainer config={chartConfig} className="h-[200px] w-full aspect-auto">
+            <BarChart data={days}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} />
+              <YAxis tickFormatter={(value) => formatValue(value)} tickLine={false} axisLine={false} width={60} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="periodCashCreated" fill="var(--color-periodCashCreated)" radius={2} />
+              <Bar dataKey="periodFees" fill="var(--color-periodFees)" radius={2} />
+              <Bar dataKey="periodRollSpend" fill="var(--color-periodRollSpend)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+
+        <div className="border rounded-lg p-4 space-y-2">
+          <h4 className="text-sm font-medium">Rolls per Hour</h4>
+          <ChartContainer config={chartConfig} className="h-[200px] w-full aspect-auto">
+            <LineChart data={days}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={60} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="rollsPerHour" stroke="var(--color-rollsPerHour)" strokeWidth={2} dot={false} connectNulls />
+            </LineChart>
+          </ChartContainer>
+        </div>
+
+        <div className="border rounded-lg p-4 space-y-2">
+          <h4 className="text-sm font-medium">Inventory Value Spread</h4>
+          <ChartContainer config={chartConfig} className="h-[200px] w-full aspect-auto">
+            <BarChart data={valueBuckets}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="range" tickLine={false} axisLine={false} interval={0} fontSize={9} />
+              <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="players" fill="var(--color-players)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground">
+            Median {formatValue(latest.inventoryValue.median)} • Mean {formatValue(latest.inventoryValue.mean)} • Top 10% hold {Math.round(latest.inventoryValue.top10Share * 100)}% of {formatValue(latest.inventoryValue.total)}
+          </p>
+        </div>
+      </div>
+
+      <div className="border rounded-lg p-4 space-y-2">
+        <h4 className="text-sm font-medium">Limited Stock Depletion</h4>
+        {limitedItems.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No limited items</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Remaining</TableHead>
+                <TableHead className="text-right">Per Day</TableHead>
+                <TableHead className="text-right">Sells Out In</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {limitedItems.map((item) => (
+                <TableRow key={item.itemId} data-testid={`row-stock-${item.itemId}`}>
+                  <TableCell className="font-medium">{item.itemName}</TableCell>
+                  <TableCell className="min-w-[140px]">
+                    <div className="space-y-1">
+                      <span className="text-xs tabular-nums">{item.remainingStock.toLocaleString()} / {item.totalStock.toLocaleString()}</span>
+                      <Progress value={item.totalStock > 0 ? (item.remainingStock / item.totalStock) * 100 : 0} className="h-1.5" />
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{item.depletedPerDay !== null ? item.depletedPerDay.toLocaleString() : "—"}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {item.remainingStock === 0
+                      ? "Sold out"
+                      : item.depletedPerDay && item.depletedPerDay > 0
+                        ? `${Math.ceil(item.remainingStock / item.depletedPerDay).toLocaleString()} days`
+                        : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { collection, getDocs, writeBatch, updateDoc, doc } from "firebase/firestore";
+import { collection, collectionGroup, getDocs, writeBatch, updateDoc, doc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { AlertTriangle, RefreshCw } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { GAME_CONFIG_QUERY_KEY, useGameConfig } from "@/hooks/use-game-config";
+import { AdminLuckEvents } from "@/components/AdminLuckEvents";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PITY_RARITIES, RARITY_TIERS, calculateBundlePrice, type GameConfig } from "@shared/schema";
+import { AlertTriangle, Dices, Plus, RefreshCw, Save, Settings2, ShieldAlert, Sparkles, X } from "lucide-react";
+
+type PityRarity = GameConfig["pityThresholds"][number]["rarity"];
 
 export function AdminGameTab() {
   const { toast } = useToast();
@@ -13,6 +21,269 @@ export function AdminGameTab() {
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [password, setPassword] = useState("");
   const [resetting, setResetting] = useState(false);
+  const gameConfig = useGameConfig();
+  const [sellFeePercent, setSellFeePercent] = useState("");
+  const [tradeExpiryHours, setTradeExpiryHours] = useState("");
+  const [lowballPercent, setLowballPercent] = useState("");
+  const [marketFeePercent, setMarketFeePercent] = useState("");
+  const [savingConfig, setSavingConfig] = useState(false);
+  const [escalations, setEscalations] = useState<{ points: string; banDays: string }[]>([]);
+  const [savingEscalations, setSavingEscalations] = useState(false);
+  const [rollPrice, setRollPrice] = useState("");
+  const [bundles, setBundles] = useState<{ rolls: string; discountPercent: string }[]>([]);
+  const [savingRollPricing, setSavingRollPricing] = useState(false);
+  const [pitySteps, setPitySteps] = useState<{ rarity: PityRarity; rolls: string; multiplier: string }[]>([]);
+  const [savingPity, setSavingPity] = useState(false);
+
+  useEffect(() => {
+    setSellFeePercent(String(Math.round(gameConfig.sellFeeRate * 10000) / 100));
+  }, [gameConfig.sellFeeRate]);
+
+  useEffect(() => {
+    setTradeExpiryHours(String(gameConfig.tradeExpiryHours));
+  }, [gameConfig.tradeExpiryHours]);
+
+  useEffect(() => {
+    setLowballPercent(String(Math.round(gameConfig.lowballThreshold * 10000) / 100));
+  }, [gameConfig.lowballThreshold]);
+
+  useEffect(() => {
+    setMarketFeePercent(String(Math.round(gameConfig.marketFeeRate * 10000) / 100));
+  }, [gameConfig.marketFeeRate]);
+
+  useEffect(() => {
+    setEscalations(gameConfig.warningEscalations.map((step) => ({ points: String(step.points), banDays: String(step.banDays) })));
+  }, [gameConfig.warningEscalations]);
+
+  useEffect(() => {
+    setRollPrice(String(gameConfig.rollPrice));
+  }, [gameConfig.rollPrice]);
+
+  useEffect(() => {
+    setBundles(gameConfig.rollBundles.map((bundle) => ({ rolls: String(bundle.rolls), discountPercent: String(Math.round(bundle.discountRate * 10000) / 100) })));
+  }, [gameConfig.rollBundles]);
+
+  const handleSaveRollPricing = async () => {
+    const price = parseInt(rollPrice, 10);
+    if (isNaN(price) || price < 0 || price > 1000000000) {
+      toast({
+        title: "Invalid roll price",
+        description: "Roll price must be between 0 and 1,000,000,000",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const steps = bundles.map((bundle) => ({ rolls: parseInt(bundle.rolls, 10), discountRate: parseFloat(bundle.discountPercent) / 100 }));
+    const invalid = steps.some((step) => isNaN(step.rolls) || step.rolls < 2 || step.rolls > 100 || isNaN(step.discountRate) || step.discountRate < 0 || step.discountRate > 0.9);
+    if (invalid) {
+      toast({
+        title: "Invalid bundle",
+        description: "Bundles must have 2 to 100 rolls and a discount between 0 and 90%",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (new Set(steps.map((step) => step.rolls)).size !== steps.length) {
+      toast({
+        title: "Invalid bundle",
+        description: "Each bundle needs a different number of rolls",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingRollPricing(true);
+    try {
+      const updated = await apiRequest<GameConfig>({
+        url: "/api/admin/game-config",
+        method: "PATCH",
+        data: { rollPrice: price, rollBundles: steps.sort((a, b) => a.rolls - b.rolls) },
+      });
+      queryClient.setQueryData(GAME_CONFIG_QUERY_KEY, updated);
+
+      toast({
+        title: "Roll pricing saved",
+        description: price > 0 ? `R$${price.toLocaleString()} per roll` : "Rolling is free",
+      });
+    } catch (error: any) {
+      console.error("Error saving roll pricing:", error);
+      toast({
+        title: "Save failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRollPricing(false);
+    }
+  };
+
+  useEffect(() => {
+    setPitySteps(gameConfig.pityThresholds.map((step) => ({ rarity: step.rarity, rolls: String(step.rolls), multiplier: String(step.multiplier) })));
+  }, [gameConfig.pityThresholds]);
+
+  const handleSavePity = async () => {
+    const steps = pitySteps.map((step) => ({ rarity: step.rarity, rolls: parseInt(step.rolls, 10), multiplier: parseFloat(step.multiplier) }));
+    const invalid = steps.some((step) => isNaN(step.rolls) || step.rolls < 10 || step.rolls > 1000000 || isNaN(step.multiplier) || step.multiplier < 1.1 || step.multiplier > 100);
+    if (invalid) {
+      toast({
+        title: "Invalid pity threshold",
+        description: "Rolls must be between 10 and 1,000,000 and the multiplier between 1.1 and 100",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (new Set(steps.map((step) => step.rarity)).size !== steps.length) {
+      toast({
+        title: "Invalid pity threshold",
+        description: "Each threshold needs a different rarity",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingPity(true);
+    try {
+      const updated = await apiRequest<GameConfig>({
+        url: "/api/admin/game-config",
+        method: "PATCH",
+        data: { pityThresholds: steps },
+      });
+      queryClient.setQueryData(GAME_CONFIG_QUERY_KEY, updated);
+
+      toast({
+        title: "Pity thresholds saved",
+        description: steps.length > 0
+          ? steps.map((step) => `${RARITY_TIERS[step.rarity].name} ${step.rolls} → ${step.multiplier}x`).join(", ")
+          : "Pity is turned off",
+      });
+    } catch (error: any) {
+      console.error("Error saving pity thresholds:", error);
+      toast({
+        title: "Save failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingPity(false);
+    }
+  };
+
+  const handleSaveEscalations = async () => {
+    const steps = escalations.map((step) => ({ points: parseInt(step.points, 10), banDays: parseInt(step.banDays, 10) }));
+    const invalid = steps.some((step) => isNaN(step.points) || step.points < 1 || step.points > 100 || isNaN(step.banDays) || step.banDays < 1 || step.banDays > 3650);
+    if (invalid) {
+      toast({
+        title: "Invalid escalation",
+        description: "Points must be between 1 and 100 and ban length between 1 and 3650 days",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (new Set(steps.map((step) => step.points)).size !== steps.length) {
+      toast({
+        title: "Invalid escalation",
+        description: "Each step needs a different point threshold",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingEscalations(true);
+    try {
+      const updated = await apiRequest<GameConfig>({
+        url: "/api/admin/game-config",
+        method: "PATCH",
+        data: { warningEscalations: steps.sort((a, b) => a.points - b.points) },
+      });
+      queryClient.setQueryData(GAME_CONFIG_QUERY_KEY, updated);
+
+      toast({
+        title: "Escalation policy saved",
+        description: steps.length > 0
+          ? steps.map((step) => `${step.points} pts → ${step.banDays}d`).join(", ")
+          : "Warnings no longer trigger automatic bans",
+      });
+    } catch (error: any) {
+      console.error("Error saving escalation policy:", error);
+      toast({
+        title: "Save failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingEscalations(false);
+    }
+  };
+
+  const handleSaveConfig = async () => {
+    const percent = parseFloat(sellFeePercent);
+    if (isNaN(percent) || percent < 0 || percent > 100) {
+      toast({
+        title: "Invalid sell fee",
+        description: "Sell fee must be between 0 and 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const expiryHours = parseInt(tradeExpiryHours, 10);
+    if (isNaN(expiryHours) || expiryHours < 1 || expiryHours > 720) {
+      toast({
+        title: "Invalid trade expiry",
+        description: "Trade expiry must be between 1 and 720 hours",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const lowball = parseFloat(lowballPercent);
+    if (isNaN(lowball) || lowball < 5 || lowball > 95) {
+      toast({
+        title: "Invalid lowball threshold",
+        description: "Lowball threshold must be between 5 and 95%",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const marketFee = parseFloat(marketFeePercent);
+    if (isNaN(marketFee) || marketFee < 0 || marketFee > 100) {
+      toast({
+        title: "Invalid marketplace fee",
+        description: "Marketplace fee must be between 0 and 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingConfig(true);
+    try {
+      const updated = await apiRequest<GameConfig>({
+        url: "/api/admin/game-config",
+        method: "PATCH",
+        data: { sellFeeRate: percent / 100, tradeExpiryHours: expiryHours, lowballThreshold: lowball / 100, marketFeeRate: marketFee / 100 },
+      });
+      queryClient.setQueryData(GAME_CONFIG_QUERY_KEY, updated);
+
+      toast({
+        title: "Game config saved",
+        description: `Sell fee ${percent}%, trade expiry ${expiryHours}h, lowball threshold ${lowball}%, marketplace fee ${marketFee}%`,
+      });
+    } catch (error: any) {
+      console.error("Error saving game config:", error);
+      toast({
+        title: "Save failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingConfig(false);
+    }
+  };
 
   const handleResetEconomyClick = () => {
     setShowPasswordDialog(true);
@@ -39,7 +310,8 @@ export function AdminGameTab() {
     setResetting(true);
     try {
       const itemsSnapshot = await getDocs(collection(db, "items"));
-      const inventorySnapshot = await getDocs(collection(db, "inventory"));
+      // Covers every users/{id}/inventory subcollection as well as the old top-level collection
+      const inventorySnapshot = await getDocs(collectionGroup(db, "inventory"));
       const globalRollsSnapshot = await getDocs(collection(db, "globalRolls"));
 
       let ownershipMarkerCount = 0;
@@ -108,6 +380,346 @@ export function AdminGameTab() {
 
   return (
     <div className="space-y-6">
+      <div className="border rounded-lg p-6 space-y-4">
+        <div className="flex items-start gap-4">
+          <Settings2 className="w-6 h-6 text-muted-foreground mt-1" />
+          <div>
+            <h3 className="text-lg font-semibold">Economy Settings</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Sell and marketplace fees, trade expiry and the lowball warning in the trade window
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-2 flex-1 max-w-xs">
+            <Label htmlFor="sell-fee-percent">Sell Fee (%)</Label>
+            <Input
+              id="sell-fee-percent"
+              type="number"
+              min={0}
+              max={100}
+              step={0.5}
+              value={sellFeePercent}
+              onChange={(e) => setSellFeePercent(e.target.value)}
+              data-testid="input-sell-fee-percent"
+            />
+          </div>
+          <div className="space-y-2 flex-1 max-w-xs">
+            <Label htmlFor="trade-expiry-hours">Trade Expiry (hours)</Label>
+            <Input
+              id="trade-expiry-hours"
+              type="number"
+              min={1}
+              max={720}
+              step={1}
+              value={tradeExpiryHours}
+              onChange={(e) => setTradeExpiryHours(e.target.value)}
+              data-testid="input-trade-expiry-hours"
+            />
+          </div>
+          <div className="space-y-2 flex-1 max-w-xs">
+            <Label htmlFor="lowball-percent">Lowball Threshold (%)</Label>
+            <Input
+              id="lowball-percent"
+              type="number"
+              min={5}
+              max={95}
+              step={5}
+              value={lowballPercent}
+              onChange={(e) => setLowballPercent(e.target.value)}
+              data-testid="input-lowball-percent"
+            />
+          </div>
+          <div className="space-y-2 flex-1 max-w-xs">
+            <Label htmlFor="market-fee-percent">Marketplace Fee (%)</Label>
+            <Input
+              id="market-fee-percent"
+              type="number"
+              min={0}
+              max={100}
+              step={0.5}
+              value={marketFeePercent}
+              onChange={(e) => setMarketFeePercent(e.target.value)}
+              data-testid="input-market-fee-percent"
+            />
+          </div>
+          <Button
+            onClick={handleSaveConfig}
+            disabled={savingConfig}
+            data-testid="button-save-game-config"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {savingConfig ? "Saving..." : "Save"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Players receive {Math.max(0, 100 - (parseFloat(sellFeePercent) || 0))}% of an item's value; the fee goes to the admin account. Pending trades go inactive once they sit unanswered for the expiry time. Trades where one side loses more than the lowball threshold are flagged in the trade window. The marketplace fee is taken from every listing sale and also goes to the admin account.
+        </p>
+      </div>
+
+      <div className="border rounded-lg p-6 space-y-4">
+        <div className="flex items-start gap-4">
+          <ShieldAlert className="w-6 h-6 text-muted-foreground mt-1" />
+          <div>
+            <h3 className="text-lg font-semibold">Warning Escalation</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Automatic temporary bans when a player's active warning points reach a threshold
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {escalations.map((step, index) => (
+            <div key={index} className="flex items-center gap-2" data-testid={`row-escalation-${index}`}>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                step={1}
+                value={step.points}
+                onChange={(e) => setEscalations((current) => current.map((existing, i) => (i === index ? { ...existing, points: e.target.value } : existing)))}
+                className="w-24"
+                aria-label="Points"
+                data-testid={`input-escalation-points-${index}`}
+              />
+              <span className="text-sm text-muted-foreground">points →</span>
+              <Input
+                type="number"
+                min={1}
+                max={3650}
+                step={1}
+                value={step.banDays}
+                onChange={(e) => setEscalations((current) => current.map((existing, i) => (i === index ? { ...existing, banDays: e.target.value } : existing)))}
+                className="w-24"
+                aria-label="Ban days"
+                data-testid={`input-escalation-days-${index}`}
+              />
+              <span className="text-sm text-muted-foreground">day ban</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setEscalations((current) => current.filter((_, i) => i !== index))}
+                data-testid={`button-remove-escalation-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setEscalations((current) => [...current, { points: "", banDays: "" }])}
+            disabled={escalations.length >= 10}
+            data-testid="button-add-escalation"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Step
+          </Button>
+          <Button
+            onClick={handleSaveEscalations}
+            disabled={savingEscalations}
+            data-testid="button-save-escalations"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {savingEscalations ? "Saving..." : "Save"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          When a warning takes a player past a threshold they are banned for that step's length, unless a longer ban is already running. Points count until each warning expires.
+        </p>
+      </div>
+
+      <div className="border rounded-lg p-6 space-y-4">
+        <div className="flex items-start gap-4">
+          <Dices className="w-6 h-6 text-muted-foreground mt-1" />
+          <div>
+            <h3 className="text-lg font-semibold">Roll Pricing</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              What each roll costs and the discounted bundles offered on the roll page
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="roll-price">Roll Price (R$)</Label>
+          <Input
+            id="roll-price"
+            type="number"
+            min={0}
+            step={1}
+            value={rollPrice}
+            onChange={(e) => setRollPrice(e.target.value)}
+            data-testid="input-roll-price"
+          />
+        </div>
+
+        <div className="space-y-2">
+          {bundles.map((bundle, index) => {
+            const rolls = parseInt(bundle.rolls, 10);
+            const discountRate = parseFloat(bundle.discountPercent) / 100;
+            const preview = !isNaN(rolls) && !isNaN(discountRate)
+              ? calculateBundlePrice(parseInt(rollPrice, 10) || 0, { rolls, discountRate })
+              : null;
+
+            return (
+              <div key={index} className="flex items-center gap-2" data-testid={`row-bundle-${index}`}>
+                <Input
+                  type="number"
+                  min={2}
+                  max={100}
+                  step={1}
+                  value={bundle.rolls}
+                  onChange={(e) => setBundles((current) => current.map((existing, i) => (i === index ? { ...existing, rolls: e.target.value } : existing)))}
+                  className="w-24"
+                  aria-label="Rolls"
+                  data-testid={`input-bundle-rolls-${index}`}
+                />
+                <span className="text-sm text-muted-foreground">rolls at</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={90}
+                  step={1}
+                  value={bundle.discountPercent}
+                  onChange={(e) => setBundles((current) => current.map((existing, i) => (i === index ? { ...existing, discountPercent: e.target.value } : existing)))}
+                  className="w-24"
+                  aria-label="Discount percent"
+                  data-testid={`input-bundle-discount-${index}`}
+                />
+                <span className="text-sm text-muted-foreground">% off</span>
+                {preview !== null && (
+                  <span className="text-sm text-muted-foreground">= R${preview.toLocaleString()}</span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setBundles((current) => current.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-bundle-${index}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setBundles((current) => [...current, { rolls: "", discountPercent: "0" }])}
+            disabled={bundles.length >= 5}
+            data-testid="button-add-bundle"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Bundle
+          </Button>
+          <Button
+            onClick={handleSaveRollPricing}
+            disabled={savingRollPricing}
+            data-testid="button-save-roll-pricing"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {savingRollPricing ? "Saving..." : "Save"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The roll price is taken from the player's cash in the roll itself and leaves the economy. A price of 0 keeps rolling free; bundles still roll several times at once. Bundle rolls that fail part way are not charged.
+        </p>
+      </div>
+
+      <div className="border rounded-lg p-6 space-y-4">
+        <div className="flex items-start gap-4">
+          <Sparkles className="w-6 h-6 text-muted-foreground mt-1" />
+          <div>
+            <h3 className="text-lg font-semibold">Pity</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Boost a rarity and everything above it for players who have gone too many rolls without hitting it
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {pitySteps.map((step, index) => (
+            <div key={index} className="flex items-center gap-2" data-testid={`row-pity-${index}`}>
+              <Select
+                value={step.rarity}
+                onValueChange={(value) => setPitySteps((current) => current.map((existing, i) => (i === index ? { ...existing, rarity: value as PityRarity } : existing)))}
+              >
+                <SelectTrigger className="w-36" data-testid={`select-pity-rarity-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PITY_RARITIES.map((rarity) => (
+                    <SelectItem key={rarity} value={rarity}>{RARITY_TIERS[rarity].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">after</span>
+              <Input
+                type="number"
+                min={10}
+                max={1000000}
+                step={10}
+                value={step.rolls}
+                onChange={(e) => setPitySteps((current) => current.map((existing, i) => (i === index ? { ...existing, rolls: e.target.value } : existing)))}
+                className="w-28"
+                aria-label="Dry rolls"
+                data-testid={`input-pity-rolls-${index}`}
+              />
+              <span className="text-sm text-muted-foreground">dry rolls →</span>
+              <Input
+                type="number"
+                min={1.1}
+                max={100}
+                step={0.1}
+                value={step.multiplier}
+                onChange={(e) => setPitySteps((current) => current.map((existing, i) => (i === index ? { ...existing, multiplier: e.target.value } : existing)))}
+                className="w-24"
+                aria-label="Multiplier"
+                data-testid={`input-pity-multiplier-${index}`}
+              />
+              <span className="text-sm text-muted-foreground">x</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setPitySteps((current) => current.filter((_, i) => i !== index))}
+                data-testid={`button-remove-pity-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setPitySteps((current) => [...current, { rarity: PITY_RARITIES.find((rarity) => !current.some((step) => step.rarity === rarity)) ?? "ULTRA_RARE", rolls: "", multiplier: "2" }])}
+            disabled={pitySteps.length >= PITY_RARITIES.length}
+            data-testid="button-add-pity"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Threshold
+          </Button>
+          <Button
+            onClick={handleSavePity}
+            disabled={savingPity}
+            data-testid="button-save-pity"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {savingPity ? "Saving..." : "Save"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Every roll counts toward each rarity the player didn't hit and resets the ones they did. Thresholds stack with each other, luck events and the player's own luck multiplier.
+        </p>
+      </div>
+
+      <AdminLuckEvents />
+
       <div className="bg-destructive/10 border border-destructive rounded-lg p-6">
         <div className="flex items-start gap-4">
           <AlertTriangle className="w-6 h-6 text-destructive mt-1" />
@@ -6,8 +6,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
-import { collection, query, where, doc } from "firebase/firestore";
-import { db, getDocs, runTransaction } from "@/lib/firebase";
+import { collection } from "firebase/firestore";
+import { db, getDocs } from "@/lib/firebase";
+import { loadItemEntries } from "@/lib/inventory";
+import { giveItem } from "@/lib/moderationService";
 import type { Item, User } from "@shared/schema";
 import { Gift } from "lucide-react";
 
@@ -23,6 +25,7 @@ interface OwnerInfo {
   userId: number;
   serialNumber: number;
   userDocId: string;
+  inventoryId: string;
 }
 
 export function AdminGiveItemsDialog({ open, onOpenChange, targetUser, onSuccess }: AdminGiveItemsDialogProps) {
@@ -84,19 +87,21 @@ export function AdminGiveItemsDialog({ open, onOpenChange, targetUser, onSuccess
     setLoadingOwners(true);
     try {
       const usersSnapshot = await getDocs(collection(db, "users"));
+      const users = usersSnapshot.docs.map((userDoc) => ({ id: userDoc.id, ...userDoc.data() }) as User);
+      const entriesByUser = await loadItemEntries(item.id, users);
       const ownersList: OwnerInfo[] = [];
 
-      for (const userDoc of usersSnapshot.docs) {
-        const userData = userDoc.data();
-        const inventory = userData.inventory || [];
+      for (const userData of users) {
+        const entries = entriesByUser.get(userData.id) || [];
         
-        for (const invItem of inventory) {
-          if (invItem.itemId === item.id && invItem.serialNumber !== null && invItem.serialNumber !== 0) {
+        for (const invItem of entries) {
+          if (invItem.serialNumber !== null && invItem.serialNumber !== 0) {
             ownersList.push({
               username: userData.username || "Unknown",
               userId: userData.userId || 0,
               serialNumber: invItem.serialNumber,
-              userDocId: userDoc.id,
+              userDocId: userData.id,
+              inventoryId: invItem.id,
             });
           }
         }
@@ -126,16 +131,27 @@ export function AdminGiveItemsDialog({ open, onOpenChange, targetUser, onSuccess
     setLoading(true);
     try {
       if (selectedItem.stockType === "infinite") {
-        await giveInfiniteItem(targetUser, selectedItem, quantity);
+        await giveItem(targetUser.id, { itemId: selectedItem.id, quantity });
+      } else if (giveMode === "create") {
+        await giveItem(targetUser.id, { itemId: selectedItem.id });
       } else {
-        if (giveMode === "create") {
-          await createAndGiveSerial(targetUser, selectedItem);
-        } else {
-          if (!selectedSerial) {
-            throw new Error("Please select a serial number");
-          }
-          await transferSerial(targetUser, selectedItem, parseInt(selectedSerial));
+        const serial = parseInt(selectedSerial);
+        if (!selectedSerial) {
+          throw new Error("Please select a serial number");
+        }
+        if (serial === 0) {
+          throw new Error("Serial #0 is reserved for Admin and cannot be transferred");
+        }
+
+        const owner = owners.find(o => o.serialNumber === serial);
+        if (!owner) {
+          throw new Error("Serial number owner not found");
         }
+
+        await giveItem(targetUser.id, {
+          itemId: selectedItem.id,
+          transfer: { fromUserId: owner.userDocId, entryId: owner.inventoryId },
+        });
       }
 
       toast({
@@ -157,154 +173,6 @@ export function AdminGiveItemsDialog({ open, onOpenChange, targetUser, onSuccess
     }
   };
 
-  const giveInfiniteItem = async (user: User, item: Item, qty: number) => {
-    await runTransaction(db, async (transaction) => {
-      const userRef = doc(db, "users", user.id);
-      const userDoc = await transaction.get(userRef);
-      
-      if (!userDoc.exists()) {
-        throw new Error("User not found");
-      }
-
-      const currentInventory = userDoc.data().inventory || [];
-      const existingIndex = currentInventory.findIndex(
-        (invItem: any) => invItem.itemId === item.id && invItem.serialNumber === null
-      );
-
-      let updatedInventory;
-      if (existingIndex !== -1) {
-        updatedInventory = [...currentInventory];
-        updatedInventory[existingIndex] = {
-          ...updatedInventory[existingIndex],
-          amount: (updatedInventory[existingIndex].amount || 1) + qty,
-        };
-      } else {
-        const inventoryItemId = `${user.firebaseUid}_${Date.now()}_admin_gift`;
-        updatedInventory = [
-          ...currentInventory,
-          {
-            id: inventoryItemId,
-            itemId: item.id,
-            serialNumber: null,
-            rolledAt: Date.now(),
-            amount: qty,
-          },
-        ];
-      }
-
-      transaction.update(userRef, { inventory: updatedInventory });
-    });
-  };
-
-  const createAndGiveSerial = async (user: User, item: Item) => {
-    await runTransaction(db, async (transaction) => {
-      const itemRef = doc(db, "items", item.id);
-      const userRef = doc(db, "users", user.id);
-      const ownershipMarkerRef = doc(db, "items", item.id, "owners", user.firebaseUid);
-
-      const itemDoc = await transaction.get(itemRef);
-      const userDoc = await transaction.get(userRef);
-      const ownershipDoc = await transaction.get(ownershipMarkerRef);
-
-      if (!itemDoc.exists() || !userDoc.exists()) {
-        throw new Error("Item or user not found");
-      }
-
-      const itemData = itemDoc.data() as Item;
-      const currentInventory = userDoc.data().inventory || [];
-
-      const newTotalStock = (itemData.totalStock || 0) + 1;
-      const newSerial = newTotalStock;
-
-      const inventoryItemId = `${user.firebaseUid}_${Date.now()}_admin_gift_${newSerial}`;
-      const updatedInventory = [
-        ...currentInventory,
-        {
-          id: inventoryItemId,
-          itemId: item.id,
-          serialNumber: newSerial,
-          rolledAt: Date.now(),
-          amount: 1,
-        },
-      ];
-
-      transaction.update(itemRef, {
-        totalStock: newTotalStock,
-      });
-
-      transaction.update(userRef, { inventory: updatedInventory });
-
-      if (!ownershipDoc.exists()) {
-        transaction.set(ownershipMarkerRef, {
-          userId: user.firebaseUid,
-          username: user.username,
-          ownedAt: Date.now(),
-        });
-
-        transaction.update(itemRef, {
-          totalOwners: (itemData.totalOwners || 0) + 1,
-        });
-      }
-    });
-  };
-
-  const transferSerial = async (targetUser: User, item: Item, serial: number) => {
-    if (serial === 0) {
-      throw new Error("Serial #0 is reserved for Admin and cannot be transferred");
-    }
-
-    const owner = owners.find(o => o.serialNumber === serial);
-    if (!owner) {
-      throw new Error("Serial number owner not found");
-    }
-
-    await runTransaction(db, async (transaction) => {
-      const sourceUserRef = doc(db, "users", owner.userDocId);
-      const targetUserRef = doc(db, "users", targetUser.id);
-      const itemRef = doc(db, "items", item.id);
-      const targetOwnershipMarkerRef = doc(db, "items", item.id, "owners", targetUser.firebaseUid);
-
-      const sourceUserDoc = await transaction.get(sourceUserRef);
-      const targetUserDoc = await transaction.get(targetUserRef);
-      const itemDoc = await transaction.get(itemRef);
-      const targetOwnershipDoc = await transaction.get(targetOwnershipMarkerRef);
-
-      if (!sourceUserDoc.exists() || !targetUserDoc.exists()) {
-        throw new Error("Source or target user not found");
-      }
-
-      const sourceInventory = sourceUserDoc.data().inventory || [];
-      const targetInventory = targetUserDoc.data().inventory || [];
-
-      const sourceItemIndex = sourceInventory.findIndex(
-        (invItem: any) => invItem.itemId === item.id && invItem.serialNumber === serial
-      );
-
-      if (sourceItemIndex === -1) {
-        throw new Error("Serial number not found in source user's inventory");
-      }
-
-      const transferredItem = sourceInventory[sourceItemIndex];
-      const updatedSourceInventory = sourceInventory.filter((_: any, idx: number) => idx !== sourceItemIndex);
-      const updatedTargetInventory = [...targetInventory, transferredItem];
-
-      transaction.update(sourceUserRef, { inventory: updatedSourceInventory });
-      transaction.update(targetUserRef, { inventory: updatedTargetInventory });
-
-      if (!targetOwnershipDoc.exists()) {
-        transaction.set(targetOwnershipMarkerRef, {
-          userId: targetUser.firebaseUid,
-          username: targetUser.username,
-          ownedAt: Date.now(),
-        });
-
-        transaction.update(itemRef, {
-          totalOwners: (itemDoc.data()?.totalOwners || 0) + 1,
-        });
-      }
-    });
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-md" data-testid="dialog-give-items">
@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { collection } from "firebase/firestore";
+import { db, getDocs } from "@/lib/firebase";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LUCK_EVENTS_QUERY_KEY, useLuckEvents } from "@/hooks/use-luck-events";
+import { format } from "date-fns";
+import { RARITY_TIERS, describeLuckEvent, isLuckEventLive, isUnreleased, type Item, type LuckEvent, type RarityTier } from "@shared/schema";
+import { Clover, Plus } from "lucide-react";
+
+// Create and cancel global luck events. Live events boost every player's rolls on
+// top of their own luck multiplier, and are announced on Discord when they start and end.
+export function AdminLuckEvents() {
+  const { toast } = useToast();
+  const events = useLuckEvents();
+  const [items, setItems] = useState<Item[]>([]);
+  const [name, setName] = useState("");
+  const [multiplier, setMultiplier] = useState("2");
+  const [target, setTarget] = useState<"rarity" | "item">("rarity");
+  const [minRarity, setMinRarity] = useState<RarityTier>("MYTHIC");
+  const [itemId, setItemId] = useState("");
+  const [startTime, setStartTime] = useState(""); // datetime-local value; empty starts now
+  const [durationMinutes, setDurationMinutes] = useState("60");
+  const [creating, setCreating] = useState(false);
+  const [cancelTarget, setCancelTarget] = useState<LuckEvent | null>(null);
+
+  useEffect(() => {
+    const loadItems = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, "items"));
+        setItems(
+          snapshot.docs
+            .map((itemDoc) => ({ id: itemDoc.id, ...itemDoc.data() }) as Item)
+            .filter((item) => !item.offSale && !isUnreleased(item))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      } catch (error) {
+        console.error("Error loading items for luck events:", error);
+      }
+    };
+
+    loadItems();
+  }, []);
+
+  const handleCreate = async () => {
+    const parsedMultiplier = parseFloat(multiplier);
+    const parsedDuration = parseInt(durationMinutes, 10);
+    const startsAt = startTime ? new Date(startTime).getTime() : undefined;
+
+    if (!name.trim()) {
+      toast({ title: "Invalid event", description: "Give the event a name", variant: "destructive" });
+      return;
+    }
+    if (isNaN(parsedMultiplier) || parsedMultiplier < 1.1 || parsedMultiplier > 10) {
+      toast({ title: "Invalid event", description: "Multiplier must be between 1.1 and 10", variant: "destructive" });
+      return;
+    }
+    if (isNaN(parsedDuration) || parsedDuration < 5 || parsedDuration > 7 * 24 * 60) {
+      toast({ title: "Invalid event", description: "Duration must be between 5 minutes and 7 days", variant: "destructive" });
+      return;
+    }
+    if (target === "item" && !itemId) {
+      toast({ title: "Invalid event", description: "Choose the item to boost", variant: "destructive" });
+      return;
+    }
+    if (startsAt !== undefined && !(startsAt > Date.now())) {
+      toast({ title: "Invalid event", description: "Start time must be in the future", variant: "destructive" });
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const event = await apiRequest<LuckEvent>({
+        url: "/api/admin/luck-events",
+        method: "POST",
+        data: {
+          name: name.trim(),
+          multiplier: parsedMultiplier,
+          ...(target === "rarity" ? { minRarity } : { itemId }),
+          ...(startsAt !== undefined && { startsAt }),
+          durationMinutes: parsedDuration,
+        },
+      });
+      queryClient.invalidateQueries({ queryKey: LUCK_EVENTS_QUERY_KEY });
+
+      toast({
+        title: startsAt ? "Luck event scheduled" : "Luck event started",
+        description: `${event.name}: ${describeLuckEvent(event)}`,
+      });
+      setName("");
+      setStartTime("");
+    } catch (error: any) {
+      console.error("Error creating luck event:", error);
+      toast({
+        title: "Create failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancelTarget) return;
+
+    try {
+      await apiRequest({ url: `/api/admin/luck-events/${cancelTarget.id}/cancel`, method: "POST" });
+      queryClient.invalidateQueries({ queryKey: LUCK_EVENTS_QUERY_KEY });
+      toast({ title: "Luck event cancelled", description: cancelTarget.name });
+    } catch (error: any) {
+      console.error("Error cancelling luck event:", error);
+      toast({
+        title: "Cancel failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setCancelTarget(null);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-6 space-y-4">
+      <div className="flex items-start gap-4">
+        <Clover className="w-6 h-6 text-muted-foreground mt-1" />
+        <div>
+          <h3 className="text-lg font-semibold">Luck Events</h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            Timed global boosts to roll odds, stacked on top of each player's own luck
+          </p>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="luck-event-name">Name</Label>
+          <Input
+            id="luck-event-name"
+            value={name}
+            maxLength={60}
+            placeholder="Mythic Hour"
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-luck-event-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="luck-event-multiplier">Multiplier</Label>
+          <Input
+            id="luck-event-multiplier"
+            type="number"
+            min={1.1}
+            max={10}
+            step={0.1}
+            value={multiplier}
+            onChange={(e) => setMultiplier(e.target.value)}
+            data-testid="input-luck-event-multiplier"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Boosts</Label>
+          <Select value={target} onValueChange={(value) => setTarget(value as "rarity" | "item")}>
+            <SelectTrigger data-testid="select-luck-event-target">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="rarity">A rarity and above</SelectItem>
+              <SelectItem value="item">A single item</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          {target === "rarity" ? (
+            <>
+              <Label>Minimum Rarity</Label>
+              <Select value={minRarity} onValueChange={(value) => setMinRarity(value as RarityTier)}>
+                <SelectTrigger data-testid="select-luck-event-rarity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RARITY_TIERS) as RarityTier[]).map((rarity) => (
+                    <SelectItem key={rarity} value={rarity}>{RARITY_TIERS[rarity].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          ) : (
+            <>
+              <Label>Item</Label>
+              <Select value={itemId} onValueChange={setItemId}>
+                <SelectTrigger data-testid="select-luck-event-item">
+                  <SelectValue placeholder="Choose an item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {items.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="luck-event-start">Start (leave empty for now)</Label>
+          <Input
+            id="luck-event-start"
+            type="datetime-local"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            data-testid="input-luck-event-start"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="luck-event-duration">Duration (minutes)</Label>
+          <Input
+            id="luck-event-duration"
+            type="number"
+            min={5}
+            max={7 * 24 * 60}
+            step={5}
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(e.target.value)}
+            data-testid="input-luck-event-duration"
+          />
+        </div>
+      </div>
+
+      <Button onClick={handleCreate} disabled={creating} data-testid="button-create-luck-event">
+        <Plus className="w-4 h-4 mr-2" />
+        {creating ? "Creating..." : "Create Event"}
+      </Button>
+
+      <div className="space-y-2">
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-luck-events">No live or upcoming luck events</p>
+        ) : (
+          events.map((event) => (
+            <div key={event.id} className="flex items-center gap-3 p-3 rounded-lg border" data-testid={`luck-event-${event.id}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-semibold truncate">{event.name}</p>
+                  {isLuckEventLive(event) ? <Badge>Live</Badge> : <Badge variant="outline">Scheduled</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {describeLuckEvent(event)} • {format(new Date(event.startsAt), "MMM dd, h:mm a")} – {format(new Date(event.endsAt), "MMM dd, h:mm a")} • by {event.createdByUsername}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCancelTarget(event)}
+                data-testid={`button-cancel-luck-event-${event.id}`}
+              >
+                Cancel
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <AlertDialog open={!!cancelTarget} onOpenChange={(open) => !open && setCancelTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel {cancelTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {cancelTarget && isLuckEventLive(cancelTarget)
+                ? "The boost stops immediately and players are told the event has ended."
+                : "The event will not start."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Event</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} data-testid="button-confirm-cancel-luck-event">
+              Cancel Event
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -6,6 +6,11 @@ import { ItemEditForm } from "@/components/ItemEditForm";
 import { AdminUsersTab } from "@/components/AdminUsersTab";
 import { AdminGameTab } from "@/components/AdminGameTab";
 import { AdminReportsTab } from "@/components/AdminReportsTab";
+import { AdminAppealsTab } from "@/components/AdminAppealsTab";
+import { AdminEconomyTab } from "@/components/AdminEconomyTab";
+import { AdminAuditLogTab } from "@/components/AdminAuditLogTab";
+import { AdminReleasesTab } from "@/components/AdminReleasesTab";
+import { useAuth } from "@/contexts/AuthContext";
 import type { Item } from "@shared/schema";
 
 interface AdminPanelProps {
@@ -16,37 +21,60 @@ interface AdminPanelProps {
 }
 
 export function AdminPanel({ open, onOpenChange, editingItem, onItemSaved }: AdminPanelProps) {
-  const [activeTab, setActiveTab] = useState(editingItem ? "edit" : "create");
+  const { user } = useAuth();
+  // Moderators only get the moderation tabs; their actions are permission-checked by the server
+  const isAdmin = !!user?.isAdmin;
+  const [activeTab, setActiveTab] = useState(!isAdmin ? "users" : editingItem ? "edit" : "create");
 
   useEffect(() => {
-    if (open && editingItem) {
+    if (open && editingItem && isAdmin) {
       setActiveTab("edit");
     }
-  }, [open, editingItem]);
+  }, [open, editingItem, isAdmin]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="modal-admin-panel">
         <DialogHeader>
-          <DialogTitle className="text-2xl">Admin Panel</DialogTitle>
+          <DialogTitle className="text-2xl">{isAdmin ? "Admin Panel" : "Moderation Panel"}</DialogTitle>
         </DialogHeader>
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-5">
-            <TabsTrigger value="create" data-testid="tab-create-item">
-              Create Item
-            </TabsTrigger>
-            <TabsTrigger value="edit" data-testid="tab-edit-item">
-              Edit Item
-            </TabsTrigger>
+          <TabsList className={`grid w-full ${isAdmin ? "grid-cols-9" : "grid-cols-3"}`}>
+            {isAdmin && (
+              <>
+                <TabsTrigger value="create" data-testid="tab-create-item">
+                  Create Item
+                </TabsTrigger>
+                <TabsTrigger value="edit" data-testid="tab-edit-item">
+                  Edit Item
+                </TabsTrigger>
+                <TabsTrigger value="releases" data-testid="tab-releases">
+                  Releases
+                </TabsTrigger>
+              </>
+            )}
             <TabsTrigger value="users" data-testid="tab-users">
               Users
             </TabsTrigger>
             <TabsTrigger value="reports" data-testid="tab-reports">
               Reports
             </TabsTrigger>
-            <TabsTrigger value="game" data-testid="tab-game">
-              Game
+            <TabsTrigger value="appeals" data-testid="tab-appeals">
+              Appeals
             </TabsTrigger>
+            {isAdmin && (
+              <>
+                <TabsTrigger value="economy" data-testid="tab-economy">
+                  Economy
+                </TabsTrigger>
+                <TabsTrigger value="audit" data-testid="tab-audit-log">
+                  Audit Log
+                </TabsTrigger>
+                <TabsTrigger value="game" data-testid="tab-game">
+                  Game
+                </TabsTrigger>
+              </>
+            )}
           </TabsList>
           <TabsContent value="create" className="space-y-4 mt-6">
             <ItemCreateForm onSuccess={onItemSaved} />
@@ -60,12 +88,24 @@ export function AdminPanel({ open, onOpenChange, editingItem, onItemSaved }: Adm
               </p>
             )}
           </TabsContent>
+          <TabsContent value="releases" className="space-y-4 mt-6">
+            <AdminReleasesTab />
+          </TabsContent>
           <TabsContent value="users" className="space-y-4 mt-6">
             <AdminUsersTab />
           </TabsContent>
           <TabsContent value="reports" className="space-y-4 mt-6">
             <AdminReportsTab />
           </TabsContent>
+          <TabsContent value="appeals" className="space-y-4 mt-6">
+            <AdminAppealsTab />
+          </TabsContent>
+          <TabsContent value="economy" className="space-y-4 mt-6">
+            <AdminEconomyTab />
+          </TabsContent>
+          <TabsContent value="audit" className="space-y-4 mt-6">
+            <AdminAuditLogTab />
+          </TabsContent>
           <TabsContent value="game" className="space-y-4 mt-6">
             <AdminGameTab />
           </TabsContent>
@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { collection, query, where, orderBy } from "firebase/firestore";
+import { db, getDocs } from "@/lib/firebase";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { useToast } from "@/hooks/use-toast";
+import { formatValue } from "@/lib/rarity";
+import { format, formatDistanceToNow, isSameDay } from "date-fns";
+import { RARITY_TIERS, type Item } from "@shared/schema";
+import { CalendarClock } from "lucide-react";
+
+// Upcoming scheduled drops. The server puts each one live at its releaseAt.
+export function AdminReleasesTab() {
+  const { toast } = useToast();
+  const [items, setItems] = useState<Item[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(undefined);
+
+  useEffect(() => {
+    loadReleases();
+  }, []);
+
+  const loadReleases = async () => {
+    setLoading(true);
+    try {
+      const snapshot = await getDocs(query(collection(db, "items"), where("releaseAt", ">", 0), orderBy("releaseAt", "asc")));
+      setItems(snapshot.docs.map((itemDoc) => ({ id: itemDoc.id, ...itemDoc.data() }) as Item));
+    } catch (error: any) {
+      console.error("Error loading scheduled releases:", error);
+      toast({
+        title: "Failed to load releases",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const releaseDays = items.map((item) => new Date(item.releaseAt!));
+  const shown = selectedDay ? items.filter((item) => isSameDay(new Date(item.releaseAt!), selectedDay)) : items;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Releases</h3>
+          <p className="text-sm text-muted-foreground">
+            Scheduled item drops. Schedule one from the Create Item tab.
+          </p>
+        </div>
+        <button
+          onClick={loadReleases}
+          className="text-sm text-muted-foreground hover:text-foreground"
+          data-testid="button-refresh-releases"
+        >
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-[auto,1fr] gap-6">
+        <Calendar
+          mode="single"
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          modifiers={{ release: releaseDays }}
+          modifiersClassNames={{ release: "font-bold text-primary underline" }}
+          className="rounded-lg border self-start"
+        />
+
+        <div className="space-y-2">
+          {selectedDay && (
+            <p className="text-sm text-muted-foreground">
+              Drops on {format(selectedDay, "MMM dd, yyyy")} •{" "}
+              <button className="underline" onClick={() => setSelectedDay(undefined)}>
+                show all
+              </button>
+            </p>
+          )}
+
+          {loading ? (
+            <p className="text-center py-8 text-muted-foreground">Loading releases...</p>
+          ) : shown.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-releases">
+              <CalendarClock className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>{selectedDay ? "No drops on this day" : "No upcoming drops"}</p>
+            </div>
+          ) : (
+            shown.map((item) => (
+              <div key={item.id} className="flex items-center gap-4 p-3 bg-card rounded-lg border" data-testid={`release-${item.id}`}>
+                <img src={item.imageUrl} alt={item.name} className="w-12 h-12 rounded object-cover" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-semibold truncate">{item.name}</p>
+                    <Badge variant="outline">{RARITY_TIERS[item.rarity].name}</Badge>
+                    {item.offSale && <Badge variant="secondary">Off-Sale</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {formatValue(item.value)} •{" "}
+                    {item.stockType === "limited" ? `${item.totalStock?.toLocaleString()} stock` : item.stockType === "timer" ? "Timer" : "Infinite"}
+                  </p>
+                </div>
+                <div className="text-right text-sm">
+                  <p className="font-medium">{format(new Date(item.releaseAt!), "MMM dd, h:mm a")}</p>
+                  <p className="text-muted-foreground">
+                    {item.releaseAt! > Date.now() ? `in ${formatDistanceToNow(new Date(item.releaseAt!))}` : "Releasing..."}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,333 @@
+import { useState, useEffect } from "react";
+import { collection, query, where, orderBy, limit, getDocs, getDoc, doc, type QueryConstraint } from "firebase/firestore";
+import { db } from "@/lib/firebase";
 import { Badge } from "@/components/ui/badge";
-import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import { formatValue } from "@/lib/rarity";
+import { format } from "date-fns";
+import { AdminUserActionDialog, type AdminUserAction } from "@/components/AdminUserActionDialog";
+import { REPORT_CATEGORIES, type Report, type ReportStatus, type UpdateReportRequest, type User } from "@shared/schema";
+import { AlertCircle, Ban, ChevronDown, ChevronUp, Clock, DollarSign, RefreshCw, UserCheck } from "lucide-react";
+
+const STATUS_FILTERS: Record<string, { label: string; statuses: ReportStatus[] | null }> = {
+  queue: { label: "Open Queue", statuses: ["open", "investigating"] },
+  resolved: { label: "Resolved", statuses: ["resolved"] },
+  dismissed: { label: "Dismissed", statuses: ["dismissed"] },
+  all: { label: "All Reports", statuses: null },
+};
+
+const STATUS_LABELS: Record<ReportStatus, { label: string; variant: "default" | "destructive" | "secondary" | "outline" }> = {
+  open: { label: "Open", variant: "destructive" },
+  investigating: { label: "Investigating", variant: "default" },
+  resolved: { label: "Resolved", variant: "secondary" },
+  dismissed: { label: "Dismissed", variant: "outline" },
+};
+
+function ReportEvidence({ report }: { report: Report }) {
+  if (report.evidence.type === "profile") {
+    const { profile } = report.evidence;
+
+    return (
+      <div className="space-y-1 text-sm">
+        <p className="text-muted-foreground">
+          Profile of {report.targetUsername} (ID {profile.userId}) when reported • {formatValue(profile.inventoryValue)} inventory • R${profile.cash.toLocaleString()} • {profile.rollCount.toLocaleString()} rolls
+        </p>
+        {profile.customStatus && <p><span className="font-medium">Status:</span> {profile.customStatus}</p>}
+        {profile.description && <p className="whitespace-pre-wrap"><span className="font-medium">About:</span> {profile.description}</p>}
+        {profile.showcaseMetadata.length > 0 && (
+          <p>
+            <span className="font-medium">Showcase:</span>{" "}
+            {profile.showcaseMetadata.map((item) => `${item.itemName}${item.serialNumber !== null ? ` #${item.serialNumber}` : ""}`).join(", ")}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const { trade, tradeId } = report.evidence;
+  const sides = [
+    { username: trade.senderUsername, gives: trade.senderOffer },
+    { username: trade.receiverUsername, gives: trade.receiverRequest },
+  ];
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-muted-foreground">
+        Trade {tradeId} • {trade.status} • sent {format(new Date(trade.createdAt), "MMM dd, yyyy 'at' h:mm a")}
+        {trade.revisions && trade.revisions.length > 0 && ` • ${trade.revisions.length} counter-offer(s)`}
+      </p>
+      <div className="grid md:grid-cols-2 gap-2">
+        {sides.map((side) => (
+          <div key={side.username} className="border rounded-lg p-2 space-y-1">
+            <p className="font-medium">{side.username} gives</p>
+            {side.gives.items.map((item, idx) => (
+              <p key={idx} className="text-xs flex justify-between gap-2">
+                <span className="truncate">
+                  {item.itemName}
+                  {item.serialNumber !== null && ` #${item.serialNumber}`}
+                  {(item.amount || 1) > 1 && ` x${item.amount}`}
+                </span>
+                <span className="text-muted-foreground">{formatValue(item.itemValue * (item.amount || 1))}</span>
+              </p>
+            ))}
+            {side.gives.cash > 0 && (
+              <p className="text-xs flex items-center gap-1">
+                <DollarSign className="w-3 h-3 text-green-600" />
+                R${side.gives.cash.toLocaleString()}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
 
 export function AdminReportsTab() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [reports, setReports] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("queue");
+  const [expandedReportId, setExpandedReportId] = useState<string | null>(null);
+  const [updatingReportId, setUpdatingReportId] = useState<string | null>(null);
+  const [actionDialog, setActionDialog] = useState<{
+    type: AdminUserAction | null;
+    user: User | null;
+    report: Report | null;
+  }>({ type: null, user: null, report: null });
+
+  useEffect(() => {
+    loadReports();
+  }, [statusFilter]);
+
+  const loadReports = async () => {
+    setLoading(true);
+    try {
+      const { statuses } = STATUS_FILTERS[statusFilter];
+      const constraints: QueryConstraint[] = [orderBy("createdAt", "desc"), limit(100)];
+      if (statuses) {
+        constraints.unshift(where("status", "in", statuses));
+      }
+
+      const snapshot = await getDocs(query(collection(db, "reports"), ...constraints));
+      setReports(snapshot.docs.map((reportDoc) => ({ id: reportDoc.id, ...reportDoc.data() }) as Report));
+    } catch (error: any) {
+      console.error("Error loading reports:", error);
+      toast({
+        title: "Failed to load reports",
+        description: error.message || "An error occurred while loading reports",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateReport = async (report: Report, update: UpdateReportRequest) => {
+    setUpdatingReportId(report.id);
+    try {
+      const updated = await apiRequest<Report>({
+        url: `/api/admin/reports/${report.id}`,
+        method: "POST",
+        data: update,
+      });
+
+      const { statuses } = STATUS_FILTERS[statusFilter];
+      setReports((current) => current
+        .map((existing) => (existing.id === updated.id ? updated : existing))
+        .filter((existing) => !statuses || statuses.includes(existing.status)));
+    } catch (error: any) {
+      console.error("Error updating report:", error);
+      toast({
+        title: "Update failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingReportId(null);
+    }
+  };
+
+  const openUserAction = async (report: Report, type: AdminUserAction) => {
+    setUpdatingReportId(report.id);
+    try {
+      const targetDoc = await getDoc(doc(db, "users", report.targetUserId));
+      if (!targetDoc.exists()) {
+        throw new Error("The reported player no longer exists");
+      }
+
+      setActionDialog({ type, user: { ...targetDoc.data(), id: targetDoc.id } as User, report });
+    } catch (error: any) {
+      console.error("Error loading reported player:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load the reported player",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingReportId(null);
+    }
+  };
+
   return (
     <div className="space-y-4">
-      <div>
-        <h3 className="text-lg font-semibold">User Reports</h3>
-        <p className="text-sm text-muted-foreground">
-          View and manage user-submitted reports
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">User Reports</h3>
+          <p className="text-sm text-muted-foreground">
+            View and manage user-submitted reports
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[150px]" data-testid="select-report-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(STATUS_FILTERS).map(([value, filter]) => (
+                <SelectItem key={value} value={value}>
+                  {filter.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={loadReports} disabled={loading} data-testid="button-refresh-reports">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
 
-      <div className="text-center py-16 text-muted-foreground">
-        <AlertCircle className="w-16 h-16 mx-auto mb-4 opacity-50" />
-        <p className="text-lg font-medium mb-2">Reports System Coming Soon</p>
-        <p className="text-sm">
-          This feature will allow users to report issues and admins to review and take action on them.
-        </p>
-      </div>
+      {loading ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Loading reports...
+        </div>
+      ) : reports.length === 0 ? (
+        <div className="text-center py-16 text-muted-foreground">
+          <AlertCircle className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p>No reports found</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {reports.map((report) => {
+            const statusInfo = STATUS_LABELS[report.status];
+            const expanded = expandedReportId === report.id;
+            const busy = updatingReportId === report.id;
+            const assignedToMe = !!currentUser && report.assigneeId === currentUser.id;
+
+            return (
+              <div key={report.id} className="p-4 bg-card rounded-lg border space-y-3" data-testid={`report-${report.id}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant={statusInfo.variant} data-testid={`badge-report-status-${report.id}`}>
+                        {statusInfo.label}
+                      </Badge>
+                      <Badge variant="outline">{REPORT_CATEGORIES[report.category]}</Badge>
+                      <Badge variant="outline">{report.evidence.type === "trade" ? "Trade" : "Profile"}</Badge>
+                      {report.actionTaken && (
+                        <Badge variant="secondary">{report.actionTaken === "ban" ? "Banned" : "Warned"}</Badge>
+                      )}
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Clock className="w-3 h-3" />
+                        {format(new Date(report.createdAt), "MMM dd, yyyy 'at' h:mm a")}
+                      </span>
+                    </div>
+                    <p className="text-sm">
+                      <span className="font-medium">{report.reporterUsername}</span>
+                      <span className="text-muted-foreground"> reported </span>
+                      <span className="font-medium">{report.targetUsername}</span>
+                    </p>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{report.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {report.assigneeUsername ? `Assigned to ${report.assigneeUsername}` : "Unassigned"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpandedReportId(expanded ? null : report.id)}
+                    data-testid={`button-toggle-evidence-${report.id}`}
+                  >
+                    Evidence
+                    {expanded ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+                  </Button>
+                </div>
+
+                {expanded && (
+                  <div className="border-t pt-3">
+                    <ReportEvidence report={report} />
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+                  <Select
+                    value={report.status}
+                    onValueChange={(status) => updateReport(report, { status: status as ReportStatus })}
+                    disabled={busy}
+                  >
+                    <SelectTrigger className="w-[150px] h-8" data-testid={`select-report-status-${report.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STATUS_LABELS).map(([value, info]) => (
+                        <SelectItem key={value} value={value}>
+                          {info.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateReport(report, { assigneeId: assignedToMe ? null : currentUser?.id })}
+                    disabled={busy || !currentUser}
+                    data-testid={`button-assign-report-${report.id}`}
+                  >
+                    <UserCheck className="w-4 h-4 mr-2" />
+                    {assignedToMe ? "Unassign" : "Assign to Me"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openUserAction(report, "warn")}
+                    disabled={busy}
+                    data-testid={`button-warn-from-report-${report.id}`}
+                  >
+                    Warn
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openUserAction(report, "ban")}
+                    disabled={busy}
+                    data-testid={`button-ban-from-report-${report.id}`}
+                  >
+                    <Ban className="w-4 h-4 mr-2" />
+                    Ban
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AdminUserActionDialog
+        action={actionDialog.type}
+        user={actionDialog.user}
+        reportId={actionDialog.report?.id}
+        onClose={() => setActionDialog({ type: null, user: null, report: null })}
+        onComplete={(action) => {
+          if (actionDialog.report && (action === "ban" || action === "warn")) {
+            updateReport(actionDialog.report, { status: "resolved", actionTaken: action });
+          }
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,480 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { banUser, unbanUser, warnUser, wipeUserInventory } from "@/lib/moderationService";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Input as InputComponent } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { MODERATOR_MAX_BAN_DAYS, WARNING_SEVERITIES, canModerate, getStaffRole, type User, type WarningSeverity } from "@shared/schema";
+
+export type AdminUserAction = "ban" | "unban" | "wipe" | "warn";
+
+type BanPreset = {
+  name: string;
+  reason: string;
+  days: number;
+  isPermanent: boolean;
+  wipeInventory: boolean;
+};
+
+const BAN_PRESETS: BanPreset[] = [
+  {
+    name: "Alt Farming",
+    reason: "Alt Farming",
+    days: 7,
+    isPermanent: false,
+    wipeInventory: true,
+  },
+  {
+    name: "Toxicity",
+    reason: "Toxicity",
+    days: 3,
+    isPermanent: false,
+    wipeInventory: false,
+  },
+  {
+    name: "Scamming",
+    reason: "Scamming",
+    days: 0,
+    isPermanent: true,
+    wipeInventory: true,
+  },
+  {
+    name: "Glitch Abuse",
+    reason: "Glitch Abuse",
+    days: 30,
+    isPermanent: false,
+    wipeInventory: false,
+  },
+  {
+    name: "Inappropriate Content",
+    reason: "Inappropriate Content",
+    days: 0,
+    isPermanent: true,
+    wipeInventory: false,
+  },
+];
+
+const WARN_PRESETS = [
+  "Trolling",
+  "Harassment",
+  "Spam",
+  "Inappropriate Language",
+  "Minor Rule Violation",
+];
+
+interface AdminUserActionDialogProps {
+  action: AdminUserAction | null;
+  user: User | null;
+  onClose: () => void;
+  onComplete: (action: AdminUserAction) => void;
+  reportId?: string; // Set when acting from a report, recorded on the ban/warn audit log
+}
+
+// Confirmation dialog for the ban, unban, warn and wipe actions, shared by the
+// Users and Reports tabs and the player card's admin menu
+export function AdminUserActionDialog({ action, user, onClose, onComplete, reportId }: AdminUserActionDialogProps) {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [warnReason, setWarnReason] = useState("");
+  const [warnMessage, setWarnMessage] = useState("");
+  const [warnSeverity, setWarnSeverity] = useState<WarningSeverity>("minor");
+  const [banReason, setBanReason] = useState("");
+  const [isPermanentBan, setIsPermanentBan] = useState(false);
+  const [banDays, setBanDays] = useState(7);
+  const [wipeInventoryOnBan, setWipeInventoryOnBan] = useState(false);
+  const [selectedPreset, setSelectedPreset] = useState<string>("custom");
+  const [banNotes, setBanNotes] = useState("");
+  const [processing, setProcessing] = useState(false);
+
+  // Moderators only see the ban options the server will accept from them
+  const role = currentUser ? getStaffRole(currentUser) : null;
+  const canBanPermanently = canModerate(role, "permanent_ban");
+  const canWipe = canModerate(role, "wipe");
+  const maxBanDays = canBanPermanently ? 3650 : MODERATOR_MAX_BAN_DAYS;
+  const banPresets = BAN_PRESETS.filter((preset) => canBanPermanently || (!preset.isPermanent && preset.days <= maxBanDays));
+
+  useEffect(() => {
+    if (action) return;
+
+    setWarnReason("");
+    setWarnMessage("");
+    setWarnSeverity("minor");
+    setBanReason("");
+    setBanNotes("");
+    setIsPermanentBan(false);
+    setBanDays(7);
+    setWipeInventoryOnBan(false);
+    setSelectedPreset("custom");
+  }, [action]);
+
+  const applyBanPreset = (presetName: string) => {
+    setSelectedPreset(presetName);
+    
+    if (presetName === "custom") {
+      setBanReason("");
+      setBanNotes("");
+      setIsPermanentBan(false);
+      setBanDays(7);
+      setWipeInventoryOnBan(false);
+      return;
+    }
+
+    const preset = BAN_PRESETS.find(p => p.name === presetName);
+    if (preset) {
+      setBanReason(preset.reason);
+      setIsPermanentBan(preset.isPermanent);
+      setBanDays(preset.days);
+      setWipeInventoryOnBan(preset.wipeInventory && canWipe);
+    }
+  };
+
+  const handleBan = async () => {
+    if (!user) return;
+
+    setProcessing(true);
+    try {
+      await banUser(user.id, {
+        reason: banReason,
+        notes: banNotes.trim() || undefined,
+        isPermanent: isPermanentBan,
+        days: banDays,
+        wipeInventory: wipeInventoryOnBan,
+        reportId,
+      });
+
+      toast({
+        title: isPermanentBan ? "User permanently banned" : "User banned",
+        description: wipeInventoryOnBan
+          ? `${user.username} has been banned and their inventory wiped`
+          : isPermanentBan
+            ? `${user.username} has been permanently banned`
+            : `${user.username} has been banned for ${banDays} days`,
+      });
+
+      onComplete("ban");
+      onClose();
+    } catch (error: any) {
+      console.error("Error banning user:", error);
+      toast({
+        title: "Ban failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleUnban = async () => {
+    if (!user) return;
+
+    setProcessing(true);
+    try {
+      await unbanUser(user.id);
+
+      toast({
+        title: "User unbanned",
+        description: `${user.username} has been unbanned`,
+      });
+
+      onComplete("unban");
+      onClose();
+    } catch (error: any) {
+      console.error("Error unbanning user:", error);
+      toast({
+        title: "Unban failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleWarn = async () => {
+    if (!user) return;
+
+    setProcessing(true);
+    try {
+      const { points, banDays } = await warnUser(user.id, {
+        reason: warnReason,
+        message: warnMessage.trim() || undefined,
+        severity: warnSeverity,
+        reportId,
+      });
+
+      toast({
+        title: banDays ? "Warning sent, user banned" : "Warning sent",
+        description: banDays
+          ? `${user.username} reached ${points} warning points and was banned for ${banDays} day(s)`
+          : `${user.username} has been warned for: ${warnReason} (${points} active points)`,
+      });
+
+      onComplete("warn");
+      onClose();
+    } catch (error: any) {
+      console.error("Error warning user:", error);
+      toast({
+        title: "Warning failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleWipeInventory = async () => {
+    if (!user) return;
+
+    setProcessing(true);
+    try {
+      const { itemsWiped } = await wipeUserInventory(user.id);
+
+      toast({
+        title: "Inventory wiped",
+        description: `${itemsWiped} items from ${user.username}'s inventory have been transferred to Admin`,
+      });
+
+      onComplete("wipe");
+      onClose();
+    } catch (error: any) {
+      console.error("Error wiping inventory:", error);
+      toast({
+        title: "Wipe failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!action} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {action === "warn" && `Warn ${user?.username}?`}
+            {action === "ban" && `Ban ${user?.username}?`}
+            {action === "unban" && `Unban ${user?.username}?`}
+            {action === "wipe" && `Wipe ${user?.username}'s Inventory?`}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {action === "warn" && (
+              <div className="space-y-4">
+                <p>Send a warning to this user. Warnings add points until they expire; enough active points trigger an automatic temporary ban.</p>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="warn-preset">Quick Select</Label>
+                  <Select value={warnReason} onValueChange={setWarnReason}>
+                    <SelectTrigger data-testid="select-warn-preset">
+                      <SelectValue placeholder="Choose a warning..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="custom">Custom Warning</SelectItem>
+                      {WARN_PRESETS.map((preset) => (
+                        <SelectItem key={preset} value={preset}>
+                          {preset}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="warn-severity">Severity</Label>
+                  <Select value={warnSeverity} onValueChange={(value) => setWarnSeverity(value as WarningSeverity)}>
+                    <SelectTrigger id="warn-severity" data-testid="select-warn-severity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(WARNING_SEVERITIES).map(([value, severity]) => (
+                        <SelectItem key={value} value={value}>
+                          {severity.label} ({severity.points} pt{severity.points === 1 ? "" : "s"}, expires in {severity.expiryDays} days)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="warn-message">Custom Message (Optional)</Label>
+                  <InputComponent
+                    id="warn-message"
+                    placeholder="Additional message for the user..."
+                    value={warnMessage}
+                    onChange={(e) => setWarnMessage(e.target.value)}
+                    data-testid="input-warn-message"
+                  />
+                </div>
+              </div>
+            )}
+            {action === "ban" && (
+              <div className="space-y-4">
+                <p>This will prevent the user from accessing the game.</p>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ban-preset">Quick Select</Label>
+                  <Select value={selectedPreset} onValueChange={applyBanPreset}>
+                    <SelectTrigger data-testid="select-ban-preset">
+                      <SelectValue placeholder="Choose a preset..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="custom">Custom Ban</SelectItem>
+                      {banPresets.map((preset) => (
+                        <SelectItem key={preset.name} value={preset.name}>
+                          {preset.name} ({preset.isPermanent ? "Permanent" : `${preset.days} days`}
+                          {preset.wipeInventory && canWipe && ", Wipe"})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="space-y-3">
+                  <Label>Ban Type</Label>
+                  <RadioGroup 
+                    value={isPermanentBan ? "permanent" : "temporary"} 
+                    onValueChange={(value) => {
+                      setIsPermanentBan(value === "permanent");
+                      if (selectedPreset !== "custom") setSelectedPreset("custom");
+                    }}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="temporary" id="ban-temporary" data-testid="radio-temporary-ban" />
+                      <Label htmlFor="ban-temporary" className="font-normal cursor-pointer">
+                        Temporary Ban
+                      </Label>
+                    </div>
+                    {canBanPermanently && (
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="permanent" id="ban-permanent" data-testid="radio-permanent-ban" />
+                        <Label htmlFor="ban-permanent" className="font-normal cursor-pointer">
+                          Permanent Ban (Auto-wipes inventory)
+                        </Label>
+                      </div>
+                    )}
+                  </RadioGroup>
+                </div>
+
+                {!isPermanentBan && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="ban-days">Ban Duration (days)</Label>
+                      <InputComponent
+                        id="ban-days"
+                        type="number"
+                        min="1"
+                        max={maxBanDays}
+                        value={banDays}
+                        onChange={(e) => {
+                          setBanDays(Math.min(maxBanDays, Math.max(1, parseInt(e.target.value) || 1)));
+                          if (selectedPreset !== "custom") setSelectedPreset("custom");
+                        }}
+                        data-testid="input-ban-days"
+                      />
+                    </div>
+
+                    {canWipe && (
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="wipe-inventory"
+                          checked={wipeInventoryOnBan}
+                          onCheckedChange={(checked) => {
+                            setWipeInventoryOnBan(!!checked);
+                            if (selectedPreset !== "custom") setSelectedPreset("custom");
+                          }}
+                          data-testid="checkbox-wipe-inventory"
+                        />
+                        <Label htmlFor="wipe-inventory" className="font-normal cursor-pointer">
+                          Wipe inventory (transfer all items to Admin)
+                        </Label>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="ban-reason">Ban Reason</Label>
+                  <InputComponent
+                    id="ban-reason"
+                    placeholder="Enter reason for ban..."
+                    value={banReason}
+                    onChange={(e) => {
+                      setBanReason(e.target.value);
+                      if (selectedPreset !== "custom") setSelectedPreset("custom");
+                    }}
+                    data-testid="input-ban-reason"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="ban-notes">Moderator Notes (visible to user)</Label>
+                  <InputComponent
+                    id="ban-notes"
+                    placeholder="Optional notes that the user can see..."
+                    value={banNotes}
+                    onChange={(e) => {
+                      setBanNotes(e.target.value);
+                      if (selectedPreset !== "custom") setSelectedPreset("custom");
+                    }}
+                    data-testid="input-ban-notes"
+                  />
+                </div>
+
+                {isPermanentBan && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="wipe-inventory-perm"
+                      checked={wipeInventoryOnBan}
+                      onCheckedChange={(checked) => {
+                        setWipeInventoryOnBan(!!checked);
+                        if (selectedPreset !== "custom") setSelectedPreset("custom");
+                      }}
+                      data-testid="checkbox-wipe-inventory-perm"
+                    />
+                    <Label htmlFor="wipe-inventory-perm" className="font-normal cursor-pointer">
+                      Wipe inventory (transfer all items to Admin)
+                    </Label>
+                  </div>
+                )}
+
+                {(wipeInventoryOnBan) && (
+                  <p className="text-sm text-destructive font-semibold">
+                    ⚠️ This ban will transfer all of this user's items to the Admin account.
+                  </p>
+                )}
+              </div>
+            )}
+            {action === "unban" && "This will allow the user to access the game again."}
+            {action === "wipe" && (
+              <span className="text-destructive font-semibold">
+                This will transfer all items from this user's inventory to the Admin account. This action cannot be undone.
+              </span>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={processing}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => {
+              if (action === "warn") handleWarn();
+              if (action === "ban") handleBan();
+              if (action === "unban") handleUnban();
+              if (action === "wipe") handleWipeInventory();
+            }}
+            disabled={processing}
+            data-testid="button-confirm-action"
+          >
+            {processing ? "Processing..." : "Confirm"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
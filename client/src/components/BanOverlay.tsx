@@ -1,16 +1,26 @@
 import { useEffect, useState } from "react";
+import { collection, query, where, orderBy, limit } from "firebase/firestore";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Ban, Clock, LogOut } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Ban, CheckCircle, Clock, LogOut, MessageSquare } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { signOut } from "firebase/auth";
-import { auth } from "@/lib/firebase";
+import { auth, db, getDocs } from "@/lib/firebase";
+import { acknowledgeAppeal, createAppeal } from "@/lib/appealService";
+import { APPEAL_DENIAL_COOLDOWN, type Appeal } from "@shared/schema";
 
 export function BanOverlay() {
   const { user } = useAuth();
+  const { toast } = useToast();
   const [show, setShow] = useState(false);
+  const [appeal, setAppeal] = useState<Appeal | null>(null);
+  const [appealFormOpen, setAppealFormOpen] = useState(false);
+  const [statement, setStatement] = useState("");
+  const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     if (!user) {
@@ -32,10 +42,121 @@ export function BanOverlay() {
     }
   }, [user]);
 
+  // The latest appeal drives the appeal section while banned, and the approval
+  // notice shown once after the ban is lifted
+  useEffect(() => {
+    if (!user) {
+      setAppeal(null);
+      return;
+    }
+
+    const loadAppeal = async () => {
+      try {
+        const snapshot = await getDocs(query(
+          collection(db, "appeals"),
+          where("userId", "==", user.id),
+          orderBy("createdAt", "desc"),
+          limit(1),
+        ));
+        const latest = snapshot.docs[0];
+        setAppeal(latest ? ({ id: latest.id, ...latest.data() } as Appeal) : null);
+      } catch (error) {
+        console.error("Error loading appeal:", error);
+      }
+    };
+
+    loadAppeal();
+  }, [user?.id, user?.isBanned]);
+
+  const handleSubmitAppeal = async () => {
+    if (!user) return;
+
+    setSubmitting(true);
+    try {
+      const trimmed = statement.trim();
+      const appealId = await createAppeal({ statement: trimmed });
+      setAppeal({
+        id: appealId,
+        userId: user.id,
+        username: user.username,
+        statement: trimmed,
+        banReason: user.banReason || "",
+        isPermanentBan: user.isPermanentBan,
+        status: "pending",
+        createdAt: Date.now(),
+      });
+      setAppealFormOpen(false);
+      setStatement("");
+      toast({
+        title: "Appeal submitted",
+        description: "A moderator will review your appeal",
+      });
+    } catch (error) {
+      console.error("Error submitting appeal:", error);
+      toast({
+        title: "Appeal failed",
+        description: error instanceof Error ? error.message : "Failed to submit appeal",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDismissApproval = async () => {
+    if (!appeal) return;
+
+    try {
+      await acknowledgeAppeal(appeal.id);
+    } catch (error) {
+      console.error("Error dismissing appeal:", error);
+    }
+    setAppeal(null);
+  };
+
+  if (user && !user.isBanned && appeal?.status === "approved" && !appeal.acknowledged) {
+    return (
+      <div
+        className="fixed inset-0 z-[9999] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4"
+        data-testid="overlay-appeal-approved"
+      >
+        <Card className="max-w-lg w-full">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <div className="p-4 bg-green-500/10 rounded-full">
+                <CheckCircle className="w-16 h-16 text-green-500" />
+              </div>
+            </div>
+            <CardTitle className="text-3xl">Appeal Approved</CardTitle>
+            <CardDescription className="text-lg">
+              Your ban has been lifted. Welcome back!
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {appeal.reply && (
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-sm font-medium text-muted-foreground mb-2">
+                  Reply from {appeal.reviewerUsername || "staff"}
+                </p>
+                <p className="whitespace-pre-wrap" data-testid="text-appeal-reply">{appeal.reply}</p>
+              </div>
+            )}
+            <Button className="w-full" onClick={handleDismissApproval} data-testid="button-dismiss-appeal">
+              Continue
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (!show || !user?.isBanned) {
     return null;
   }
 
+  const appealAgainAt = appeal?.status === "denied" ? (appeal.reviewedAt || 0) + APPEAL_DENIAL_COOLDOWN : 0;
+  const canAppeal = appeal?.status !== "pending" && appealAgainAt <= Date.now();
+
   const banExpiryText = user.banExpiresAt && !user.isPermanentBan
     ? formatDistanceToNow(new Date(user.banExpiresAt), { addSuffix: true })
     : null;
@@ -105,8 +226,60 @@ export function BanOverlay() {
             )}
           </div>
 
-          <div className="text-center text-sm text-muted-foreground pt-4 border-t">
-            <p>If you believe this ban was issued in error, please contact an administrator.</p>
+          <div className="space-y-3 pt-4 border-t">
+            {appeal?.status === "pending" && (
+              <div className="flex items-center gap-3 p-4 bg-muted rounded-lg" data-testid="status-appeal-pending">
+                <Clock className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                <p className="text-sm">
+                  Your appeal was submitted {formatDistanceToNow(new Date(appeal.createdAt), { addSuffix: true })} and is waiting for review.
+                </p>
+              </div>
+            )}
+
+            {appeal?.status === "denied" && (
+              <div className="p-4 bg-muted rounded-lg space-y-2" data-testid="status-appeal-denied">
+                <p className="text-sm font-medium">Your last appeal was denied</p>
+                {appeal.reply && <p className="text-sm whitespace-pre-wrap">{appeal.reply}</p>}
+                {!canAppeal && (
+                  <p className="text-xs text-muted-foreground">
+                    You can appeal again {formatDistanceToNow(new Date(appealAgainAt), { addSuffix: true })}.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {canAppeal && (appealFormOpen ? (
+              <div className="space-y-2">
+                <Textarea
+                  maxLength={2000}
+                  value={statement}
+                  onChange={(e) => setStatement(e.target.value)}
+                  placeholder="Explain why your ban should be lifted..."
+                  className="min-h-[120px]"
+                  data-testid="input-appeal-statement"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" onClick={() => setAppealFormOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleSubmitAppeal}
+                    disabled={submitting || statement.trim().length < 20}
+                    data-testid="button-submit-appeal"
+                  >
+                    {submitting ? "Submitting..." : "Submit Appeal"}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="text-center text-sm text-muted-foreground space-y-3">
+                <p>If you believe this ban was issued in error, you can appeal it.</p>
+                <Button variant="secondary" className="w-full" onClick={() => setAppealFormOpen(true)} data-testid="button-appeal">
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  Appeal
+                </Button>
+              </div>
+            ))}
           </div>
 
           <Button
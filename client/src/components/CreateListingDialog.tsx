@@ -0,0 +1,192 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useGameConfig } from "@/hooks/use-game-config";
+import { itemsCache } from "@/lib/itemsCache";
+import { loadInventoryEntries } from "@/lib/inventory";
+import { createListing } from "@/lib/marketService";
+import { formatValue } from "@/lib/rarity";
+import { calculateSellSplit, type InventoryEntry, type Item } from "@shared/schema";
+import { Search, Hash, Store } from "lucide-react";
+
+interface CreateListingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void;
+}
+
+export function CreateListingDialog({ open, onOpenChange, onCreated }: CreateListingDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { marketFeeRate } = useGameConfig();
+
+  const [entries, setEntries] = useState<Array<InventoryEntry & { item: Item }>>([]);
+  const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
+  const [price, setPrice] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open && user) {
+      loadEntries();
+    } else {
+      setSelectedEntryId(null);
+      setPrice("");
+      setSearchTerm("");
+    }
+  }, [open, user]);
+
+  const loadEntries = async () => {
+    if (!user) return;
+    setLoading(true);
+
+    try {
+      const [inventory, itemsMap] = await Promise.all([
+        loadInventoryEntries(user),
+        itemsCache.getItems(),
+      ]);
+
+      // Only individual serials can be listed, and never NFT-locked ones
+      const listable = inventory
+        .filter(entry => !entry.nftLocked && entry.serialNumber !== null && itemsMap.has(entry.itemId))
+        .map(entry => ({ ...entry, item: itemsMap.get(entry.itemId)! }))
+        .sort((a, b) => b.item.value - a.item.value);
+
+      setEntries(listable);
+    } catch (error) {
+      console.error("Error loading inventory for listing:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load your inventory",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedEntry = entries.find(entry => entry.id === selectedEntryId);
+  const priceValue = parseInt(price, 10);
+  const validPrice = !isNaN(priceValue) && priceValue > 0;
+  const { playerEarned, adminEarned } = calculateSellSplit(validPrice ? priceValue : 0, marketFeeRate);
+
+  const handleSubmit = async () => {
+    if (!selectedEntry || !validPrice) return;
+
+    setSubmitting(true);
+    try {
+      await createListing({ inventoryId: selectedEntry.id, price: priceValue });
+
+      toast({
+        title: "Item listed",
+        description: `${selectedEntry.item.name} #${selectedEntry.serialNumber} is on the marketplace for R$${priceValue.toLocaleString()}`,
+      });
+
+      onOpenChange(false);
+      onCreated?.();
+    } catch (error) {
+      console.error("Error listing item:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to list item",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const filteredEntries = entries.filter(entry =>
+    !searchTerm || entry.item.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Store className="w-5 h-5" />
+            List Item for Sale
+          </DialogTitle>
+          <DialogDescription>
+            Pick a serial and set a price. Any player can buy it instantly; the item stays in your inventory until then.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search your serials..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+              data-testid="input-search-listing-inventory"
+            />
+          </div>
+          <ScrollArea className="h-64 border rounded-lg p-2">
+            {loading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Loading inventory...</p>
+            ) : filteredEntries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No listable serials</p>
+            ) : (
+              <div className="space-y-1">
+                {filteredEntries.map(entry => (
+                  <div
+                    key={entry.id}
+                    className={`flex items-center gap-2 p-2 rounded cursor-pointer hover-elevate ${selectedEntryId === entry.id ? "bg-primary/10 border border-primary" : ""}`}
+                    onClick={() => setSelectedEntryId(entry.id)}
+                    data-testid={`listing-entry-${entry.id}`}
+                  >
+                    <img src={entry.item.imageUrl} alt={entry.item.name} className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-semibold truncate">{entry.item.name}</p>
+                      <p className="text-[10px] text-muted-foreground flex items-center gap-1">
+                        <span className="flex items-center"><Hash className="w-2.5 h-2.5" />{entry.serialNumber}</span>
+                        • Value {formatValue(entry.item.value)}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="listing-price">Price (R$)</Label>
+          <Input
+            id="listing-price"
+            type="number"
+            min={1}
+            step={1}
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder={selectedEntry ? String(selectedEntry.item.value) : "0"}
+            data-testid="input-listing-price"
+          />
+          {validPrice && (
+            <p className="text-xs text-muted-foreground">
+              You receive R${playerEarned.toLocaleString()} after the {Math.round(marketFeeRate * 10000) / 100}% marketplace fee (R${adminEarned.toLocaleString()})
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !selectedEntry || !validPrice} data-testid="button-create-listing">
+            {submitting ? "Listing..." : "List Item"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
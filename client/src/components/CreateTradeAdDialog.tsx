@@ -0,0 +1,280 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { itemsCache } from "@/lib/itemsCache";
+import { loadInventoryEntries } from "@/lib/inventory";
+import { createTradeAd } from "@/lib/tradeService";
+import { formatValue, getRarityClass } from "@/lib/rarity";
+import { isUnreleased, type InventoryEntry, type Item } from "@shared/schema";
+import { Search, Hash, X, Megaphone } from "lucide-react";
+
+const MAX_AD_ITEMS = 7;
+
+interface CreateTradeAdDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: () => void;
+}
+
+export function CreateTradeAdDialog({ open, onOpenChange, onCreated }: CreateTradeAdDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [entries, setEntries] = useState<Array<InventoryEntry & { item: Item }>>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [offering, setOffering] = useState<Map<string, number>>(new Map()); // inventoryId -> amount
+  const [lookingFor, setLookingFor] = useState<string[]>([]); // itemIds
+  const [inventorySearch, setInventorySearch] = useState("");
+  const [wantedSearch, setWantedSearch] = useState("");
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open && user) {
+      loadData();
+    } else {
+      setOffering(new Map());
+      setLookingFor([]);
+      setInventorySearch("");
+      setWantedSearch("");
+      setNote("");
+    }
+  }, [open, user]);
+
+  const loadData = async () => {
+    if (!user) return;
+    setLoading(true);
+
+    try {
+      const [inventory, itemsMap] = await Promise.all([
+        loadInventoryEntries(user),
+        itemsCache.getItems(),
+      ]);
+
+      const tradeable = inventory
+        .filter(entry => !entry.nftLocked && itemsMap.has(entry.itemId))
+        .map(entry => ({ ...entry, item: itemsMap.get(entry.itemId)! }))
+        .sort((a, b) => b.item.value - a.item.value);
+
+      setEntries(tradeable);
+      setItems(Array.from(itemsMap.values()).filter((item) => !isUnreleased(item)).sort((a, b) => b.value - a.value));
+    } catch (error) {
+      console.error("Error loading inventory for trade ad:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load your inventory",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleOffering = (entryId: string) => {
+    const next = new Map(offering);
+    if (next.has(entryId)) {
+      next.delete(entryId);
+    } else if (next.size < MAX_AD_ITEMS) {
+      next.set(entryId, 1);
+    }
+    setOffering(next);
+  };
+
+  const setOfferingAmount = (entry: InventoryEntry, amount: number) => {
+    const next = new Map(offering);
+    next.set(entry.id, Math.min(entry.amount || 1, Math.max(1, amount)));
+    setOffering(next);
+  };
+
+  const toggleLookingFor = (itemId: string) => {
+    if (lookingFor.includes(itemId)) {
+      setLookingFor(lookingFor.filter(id => id !== itemId));
+    } else if (lookingFor.length < MAX_AD_ITEMS) {
+      setLookingFor([...lookingFor, itemId]);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (offering.size === 0) {
+      toast({
+        title: "Nothing offered",
+        description: "Pick at least one item to offer",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await createTradeAd({
+        offering: Array.from(offering.entries()).map(([inventoryId, amount]) => ({ inventoryId, amount })),
+        lookingFor,
+        note: note.trim() || undefined,
+      });
+
+      toast({
+        title: "Trade ad posted",
+        description: "Other players can now send you offers from the Trade Ads board",
+      });
+
+      onOpenChange(false);
+      onCreated?.();
+    } catch (error) {
+      console.error("Error posting trade ad:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to post trade ad",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const filteredEntries = entries.filter(entry =>
+    !inventorySearch || entry.item.name.toLowerCase().includes(inventorySearch.toLowerCase())
+  );
+  const filteredItems = items
+    .filter(item => !wantedSearch || item.name.toLowerCase().includes(wantedSearch.toLowerCase()))
+    .slice(0, 50);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="w-5 h-5" />
+            Post Trade Ad
+          </DialogTitle>
+          <DialogDescription>
+            Offer up to {MAX_AD_ITEMS} items and list what you are looking for. The ad is removed automatically if the offered items leave your inventory.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Offering ({offering.size}/{MAX_AD_ITEMS})</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search your inventory..."
+                value={inventorySearch}
+                onChange={(e) => setInventorySearch(e.target.value)}
+                className="pl-10"
+                data-testid="input-search-ad-inventory"
+              />
+            </div>
+            <ScrollArea className="h-72 border rounded-lg p-2">
+              {loading ? (
+                <p className="text-sm text-muted-foreground text-center py-8">Loading inventory...</p>
+              ) : filteredEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No tradeable items</p>
+              ) : (
+                <div className="space-y-1">
+                  {filteredEntries.map(entry => {
+                    const selected = offering.has(entry.id);
+                    return (
+                      <div
+                        key={entry.id}
+                        className={`flex items-center gap-2 p-2 rounded cursor-pointer hover-elevate ${selected ? "bg-primary/10 border border-primary" : ""}`}
+                        onClick={() => toggleOffering(entry.id)}
+                        data-testid={`ad-offer-entry-${entry.id}`}
+                      >
+                        <img src={entry.item.imageUrl} alt={entry.item.name} className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs font-semibold truncate">{entry.item.name}</p>
+                          <p className="text-[10px] text-muted-foreground flex items-center gap-1">
+                            {formatValue(entry.item.value)}
+                            {entry.serialNumber !== null && (
+                              <span className="flex items-center"><Hash className="w-2.5 h-2.5" />{entry.serialNumber}</span>
+                            )}
+                            {(entry.amount || 1) > 1 && <span>• Owned: {entry.amount}</span>}
+                          </p>
+                        </div>
+                        {selected && (entry.amount || 1) > 1 && (
+                          <Input
+                            type="number"
+                            min={1}
+                            max={entry.amount}
+                            value={offering.get(entry.id)}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => setOfferingAmount(entry, parseInt(e.target.value) || 1)}
+                            className="h-7 w-16 text-xs"
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Looking For ({lookingFor.length}/{MAX_AD_ITEMS})</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search all items..."
+                value={wantedSearch}
+                onChange={(e) => setWantedSearch(e.target.value)}
+                className="pl-10"
+                data-testid="input-search-ad-wanted"
+              />
+            </div>
+            <ScrollArea className="h-72 border rounded-lg p-2">
+              <div className="space-y-1">
+                {filteredItems.map(item => {
+                  const selected = lookingFor.includes(item.id);
+                  return (
+                    <div
+                      key={item.id}
+                      className={`flex items-center gap-2 p-2 rounded cursor-pointer hover-elevate ${selected ? "bg-primary/10 border border-primary" : ""}`}
+                      onClick={() => toggleLookingFor(item.id)}
+                      data-testid={`ad-wanted-item-${item.id}`}
+                    >
+                      <img src={item.imageUrl} alt={item.name} className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-semibold truncate">{item.name}</p>
+                        <p className={`text-[10px] ${getRarityClass(item.rarity)}`}>{formatValue(item.value)}</p>
+                      </div>
+                      {selected && <X className="w-3 h-3 text-muted-foreground" />}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="trade-ad-note">Note (optional)</Label>
+          <Textarea
+            id="trade-ad-note"
+            maxLength={200}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g. Also open to cash adds"
+            data-testid="input-trade-ad-note"
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || offering.size === 0} data-testid="button-post-trade-ad">
+            {submitting ? "Posting..." : "Post Ad"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertItemSchema, getRarityFromValue, calculateRollChance, RARITY_TIERS } from "@shared/schema";
+import { insertItemSchema, getRarityFromValue, calculateRollChance, RARITY_TIERS, type Item } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -11,12 +11,11 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { collection, addDoc, query, where, getDocs, doc, runTransaction } from "firebase/firestore";
-import { db } from "@/lib/firebase";
 import { useAuth } from "@/contexts/AuthContext";
 import { getRarityClass, getRarityGlow, formatValue } from "@/lib/rarity";
-import { createAuditLog } from "@/lib/audit-log";
+import { apiRequest } from "@/lib/queryClient";
 import { sendWebhookRequest } from "@/lib/webhook-client";
+import { format } from "date-fns";
 import { z } from "zod";
 
 function formatTimerDuration(ms: number): string {
@@ -46,6 +45,8 @@ export function ItemCreateForm({ onSuccess }: { onSuccess?: () => void }) {
   const [imagePreview, setImagePreview] = useState("");
   const [timerValue, setTimerValue] = useState(1);
   const [timerUnit, setTimerUnit] = useState<"minutes" | "hours" | "days">("hours");
+  const [scheduleRelease, setScheduleRelease] = useState(false);
+  const [releaseTime, setReleaseTime] = useState(""); // datetime-local value, in local time
 
   const form = useForm<z.infer<typeof insertItemSchema>>({
     resolver: zodResolver(insertItemSchema),
@@ -81,103 +82,29 @@ export function ItemCreateForm({ onSuccess }: { onSuccess?: () => void }) {
     setLoading(true);
     try {
       const rarity = getRarityFromValue(values.value);
-      
-      const usersRef = collection(db, "users");
-      const adminQuery = query(usersRef, where("userId", "==", 1));
-      const adminSnapshot = await getDocs(adminQuery);
-      
-      if (adminSnapshot.empty) {
-        throw new Error("Admin user not found. Cannot create items without admin user.");
-      }
-
-      const adminDocId = adminSnapshot.docs[0].id;
-      const adminDoc = adminSnapshot.docs[0].data();
-
-      const newItemRef = doc(collection(db, "items"));
-      const itemId = newItemRef.id;
-
-      await runTransaction(db, async (transaction) => {
-        const adminRef = doc(db, "users", adminDocId);
-        const adminUserDoc = await transaction.get(adminRef);
-        
-        if (!adminUserDoc.exists()) {
-          throw new Error("Admin user document not found");
-        }
-
-        const adminData = adminUserDoc.data();
-        const adminInventory = adminData.inventory || [];
-
-        const initialOwners = adminData.userId === 1 ? 0 : 1;
-
-        const timerExpiresAt = values.stockType === "timer" && values.timerDuration 
-          ? Date.now() + values.timerDuration 
-          : null;
-
-        transaction.set(newItemRef, {
-          ...values,
-          rarity,
-          remainingStock: values.stockType === "limited" ? values.totalStock : null,
-          totalOwners: initialOwners,
-          timerExpiresAt,
-          timerDuration: values.timerDuration,
-          nextSerialNumber: values.stockType === "limited" || values.stockType === "timer" ? 1 : undefined,
-          createdAt: Date.now(),
-          createdBy: user.id,
-        });
-
-        const inventoryItemId = `${itemId}_${Date.now()}_admin_0`;
-        const serialNumber = values.stockType === "limited" || values.stockType === "timer" ? 0 : null;
-        
-        const newInventoryItem = {
-          id: inventoryItemId,
-          itemId: itemId,
-          serialNumber: serialNumber,
-          rolledAt: Date.now(),
-          amount: 1,
-        };
-
-        transaction.update(adminRef, {
-          inventory: [...adminInventory, newInventoryItem],
-        });
-
-        if (values.stockType === "limited" || values.stockType === "timer") {
-          const ownershipMarkerRef = doc(db, "items", itemId, "owners", adminDoc.firebaseUid);
-          transaction.set(ownershipMarkerRef, {
-            userId: adminDoc.firebaseUid,
-            username: adminDoc.username,
-            ownedAt: Date.now(),
-          });
-        }
-      });
-
-      console.log("=== ITEM CREATED SUCCESSFULLY ===");
-      console.log("Item ID:", itemId);
-      console.log("Now creating audit log and sending webhooks...");
 
-      // Create audit log
-      console.log("Creating audit log...");
-      await createAuditLog({
-        timestamp: Date.now(),
-        adminId: user.id,
-        adminUsername: user.username,
-        actionType: "item_create",
-        details: {
-          itemName: values.name,
+      // Scheduled items are put live by the server, which also sends the release webhook
+      const releaseAt = scheduleRelease ? new Date(releaseTime).getTime() : null;
+      if (releaseAt !== null && !(releaseAt > Date.now())) {
+        throw new Error("Release time must be in the future");
+      }
+      
+      // The server writes the item, the Admin account's copy #0 and the audit log together
+      await apiRequest<Item>({
+        url: "/api/admin/items",
+        method: "POST",
+        data: {
+          name: values.name,
+          description: values.description,
+          imageUrl: values.imageUrl,
           value: values.value,
-          rarity,
+          offSale: values.offSale,
           stockType: values.stockType,
-        },
-        metadata: {
-          itemData: {
-            itemId: itemId,
-            itemName: values.name,
-            value: values.value,
-            rarity,
-            stock: values.stockType === "limited" ? values.totalStock : null,
-          },
+          totalStock: values.totalStock,
+          timerDuration: values.timerDuration,
+          releaseAt,
         },
       });
-      console.log("Audit log created successfully");
 
       // Send item release webhook
       console.log("About to send item release webhook...");
@@ -187,14 +114,16 @@ export function ItemCreateForm({ onSuccess }: { onSuccess?: () => void }) {
         ? `Timer - ${formatTimerDurationDetailed(values.timerDuration || 0)}` 
         : null;
 
-      await sendWebhookRequest('/api/webhooks/item-release', {
-        name: values.name,
-        rarity,
-        value: values.value,
-        stock: stockDisplay,
-        imageUrl: values.imageUrl,
-      });
-      console.log("Item release webhook request completed");
+      if (!releaseAt) {
+        await sendWebhookRequest('/api/webhooks/item-release', {
+          name: values.name,
+          rarity,
+          value: values.value,
+          stock: stockDisplay,
+          imageUrl: values.imageUrl,
+        });
+        console.log("Item release webhook request completed");
+      }
 
       // Send admin log webhook
       console.log("About to send admin log webhook...");
@@ -205,13 +134,14 @@ export function ItemCreateForm({ onSuccess }: { onSuccess?: () => void }) {
         : "Infinite";
 
       await sendWebhookRequest('/api/webhooks/admin-log', {
-        action: "Item Released",
+        action: releaseAt ? "Item Scheduled" : "Item Released",
         adminUsername: user.username,
         details: [
           `**Item:** ${values.name}`,
           `**Rarity:** ${RARITY_TIERS[rarity].name}`,
           `**Value:** ${values.value.toLocaleString()}`,
           `**Stock:** ${stockLogDisplay}`,
+          ...(releaseAt ? [`**Release:** ${new Date(releaseAt).toUTCString()}`] : []),
         ],
         color: 0x5865F2,
       });
@@ -228,12 +158,16 @@ export function ItemCreateForm({ onSuccess }: { onSuccess?: () => void }) {
       const serialDisplay = values.stockType === "limited" || values.stockType === "timer" ? "0" : "∞";
       
       toast({
-        title: "Item created!",
-        description: `${values.name} has been added to the database and Admin received copy #${serialDisplay}.`,
+        title: releaseAt ? "Item scheduled!" : "Item created!",
+        description: releaseAt
+          ? `${values.name} drops ${format(new Date(releaseAt), "MMM dd, yyyy 'at' h:mm a")}. Admin received copy #${serialDisplay}.`
+          : `${values.name} has been added to the database and Admin received copy #${serialDisplay}.`,
       });
 
       form.reset();
       setImagePreview("");
+      setScheduleRelease(false);
+      setReleaseTime("");
       onSuccess?.();
     } catch (error: any) {
       console.error("Error creating item:", error);
@@ -455,8 +389,34 @@ export function ItemCreateForm({ onSuccess }: { onSuccess?: () => void }) {
             )}
           />
 
+          <div className="space-y-3 p-4 bg-muted rounded-lg">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="scheduleRelease" className="cursor-pointer">Schedule Release</Label>
+              <Switch
+                id="scheduleRelease"
+                checked={scheduleRelease}
+                onCheckedChange={setScheduleRelease}
+                data-testid="switch-schedule-release"
+              />
+            </div>
+            {scheduleRelease && (
+              <>
+                <Input
+                  type="datetime-local"
+                  value={releaseTime}
+                  onChange={(e) => setReleaseTime(e.target.value)}
+                  required
+                  data-testid="input-release-time"
+                />
+                <p className="text-sm text-muted-foreground">
+                  The item stays hidden and can't be rolled until this time. The server puts it live and posts the release webhook then; timer items start their timer at release.
+                </p>
+              </>
+            )}
+          </div>
+
           <Button type="submit" className="w-full" disabled={loading} data-testid="button-create-item">
-            {loading ? "Creating..." : "Create Item"}
+            {loading ? "Creating..." : scheduleRelease ? "Schedule Item" : "Create Item"}
           </Button>
         </form>
       </Form>
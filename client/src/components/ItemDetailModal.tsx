@@ -7,14 +7,17 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import type { Item } from "@shared/schema";
+import type { Item, User } from "@shared/schema";
 import { getRarityClass, getRarityGlow, formatValue, getRarityColor } from "@/lib/rarity";
-import { RARITY_TIERS, calculateRollChance } from "@shared/schema";
+import { RARITY_TIERS, calculateRollChance, calculateSellSplit } from "@shared/schema";
 import { useAuth } from "@/contexts/AuthContext";
 import { doc, collection } from "firebase/firestore";
 import { db, getDoc, getDocs, updateDoc } from "@/lib/firebase";
 import { sellItems } from "@/lib/sellService";
+import { loadItemEntries } from "@/lib/inventory";
 import { useToast } from "@/hooks/use-toast";
+import { useGameConfig } from "@/hooks/use-game-config";
+import { ItemValueChart } from "@/components/ItemValueChart";
 import { DollarSign, Star } from "lucide-react";
 
 interface ItemDetailModalProps {
@@ -31,12 +34,13 @@ interface ItemDetailModalProps {
 interface OwnerInfo {
   username: string;
   serialNumber: number;
-  userId: string;
+  userId: number;
 }
 
 export function ItemDetailModal({ item, serialNumber, open, onOpenChange, onEdit, inventoryIds = [], stackCount = 1, onSellComplete }: ItemDetailModalProps) {
   const { user, refetchUser } = useAuth();
   const { toast } = useToast();
+  const { sellFeeRate } = useGameConfig();
   const [creatorUsername, setCreatorUsername] = useState<string>("");
   const [showSellDialog, setShowSellDialog] = useState(false);
   const [sellQuantity, setSellQuantity] = useState(1);
@@ -85,15 +89,16 @@ export function ItemDetailModal({ item, serialNumber, open, onOpenChange, onEdit
       setLoadingOwners(true);
       try {
         const usersSnapshot = await getDocs(collection(db, "users"));
+        const users = usersSnapshot.docs.map((userDoc) => ({ id: userDoc.id, ...userDoc.data() }) as User);
+        const entriesByUser = await loadItemEntries(item.id, users);
         const ownersList: OwnerInfo[] = [];
 
-        for (const userDoc of usersSnapshot.docs) {
-          const userData = userDoc.data();
+        for (const userData of users) {
           if (userData.userId === 1) continue;
-          const inventory = userData.inventory || [];
+          const entries = entriesByUser.get(userData.id) || [];
           
-          for (const invItem of inventory) {
-            if (invItem.itemId === item.id && invItem.serialNumber !== null) {
+          for (const invItem of entries) {
+            if (invItem.serialNumber !== null) {
               ownersList.push({
                 username: userData.username || "Unknown",
                 serialNumber: invItem.serialNumber,
@@ -124,7 +129,8 @@ export function ItemDetailModal({ item, serialNumber, open, onOpenChange, onEdit
   const rollChance = calculateRollChance(item.value);
   const isInsane = item.rarity === "INSANE";
   const canSell = inventoryIds.length > 0;
-  const sellValue = Math.floor(item.value * 0.8);
+  const sellValue = calculateSellSplit(item.value, sellFeeRate).playerEarned;
+  const sellPercent = Math.round((1 - sellFeeRate) * 100);
 
   const handleSellClick = () => {
     setShowSellDialog(true);
@@ -135,7 +141,7 @@ export function ItemDetailModal({ item, serialNumber, open, onOpenChange, onEdit
 
     setSelling(true);
     try {
-      const result = await sellItems(user, inventoryIds, item.value, sellQuantity, item.id);
+      const result = await sellItems(inventoryIds, sellQuantity);
       
       toast({
         title: "Items sold!",
@@ -231,14 +237,23 @@ export function ItemDetailModal({ item, serialNumber, open, onOpenChange, onEdit
               </Card>
               <Card className="rounded-xl">
                 <CardContent className="p-4">
-                  <h3 className="text-sm font-medium text-muted-foreground mb-1">Roll Chance</h3>
-                  <p className="text-2xl tabular-nums font-bold" data-testid="text-roll-chance">
-                    {rollChance.toFixed(Math.max(2, Math.ceil(-Math.log10(rollChance))))}%
+                  <h3 className="text-sm font-medium text-muted-foreground mb-1">RAP</h3>
+                  <p className="font-bold text-2xl tabular-nums" data-testid="text-detail-rap">
+                    {item.rap !== undefined ? formatValue(item.rap) : "—"}
                   </p>
                 </CardContent>
               </Card>
             </div>
 
+            <Card className="rounded-xl">
+              <CardContent className="p-4">
+                <h3 className="text-sm font-medium text-muted-foreground mb-1">Roll Chance</h3>
+                <p className="text-2xl tabular-nums font-bold" data-testid="text-roll-chance">
+                  {rollChance.toFixed(Math.max(2, Math.ceil(-Math.log10(rollChance))))}%
+                </p>
+              </CardContent>
+            </Card>
+
             <Card className="rounded-xl">
               <CardContent className="p-4">
                 <h3 className="text-sm font-medium text-muted-foreground mb-1">
@@ -283,7 +298,7 @@ export function ItemDetailModal({ item, serialNumber, open, onOpenChange, onEdit
               <div className="space-y-2">
                 <Card className="rounded-xl bg-green-500/10 border-green-500/20">
                   <CardContent className="p-4">
-                    <h3 className="text-sm font-medium text-muted-foreground mb-1">Sell Value (80%)</h3>
+                    <h3 className="text-sm font-medium text-muted-foreground mb-1">Sell Value ({sellPercent}%)</h3>
                     <p className="text-2xl tabular-nums font-bold text-green-500" data-testid="text-sell-value">
                       {formatValue(sellValue)}
                       {stackCount > 1 && (
@@ -386,6 +401,13 @@ export function ItemDetailModal({ item, serialNumber, open, onOpenChange, onEdit
           </div>
         </div>
 
+        <div className="mt-6 border-t pt-4">
+          <h3 className="text-sm font-medium text-muted-foreground mb-3">
+            Value &amp; RAP History
+          </h3>
+          <ItemValueChart item={item} />
+        </div>
+
         {item.stockType === "limited" && owners.length > 0 && (
           <div className="mt-6 border-t pt-4">
             <h3 className="text-sm font-medium text-muted-foreground mb-3">
@@ -428,7 +450,7 @@ export function ItemDetailModal({ item, serialNumber, open, onOpenChange, onEdit
           <AlertDialogHeader>
             <AlertDialogTitle>Sell {item.name}</AlertDialogTitle>
             <AlertDialogDescription>
-              Choose how many to sell. You'll receive 80% of the item value ({formatValue(sellValue)} each).
+              Choose how many to sell. You'll receive {sellPercent}% of the item value ({formatValue(sellValue)} each).
             </AlertDialogDescription>
           </AlertDialogHeader>
           
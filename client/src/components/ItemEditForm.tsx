@@ -12,8 +12,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { doc, updateDoc, deleteDoc, collection, query, where, getDocs } from "firebase/firestore";
+import { doc, deleteDoc, collectionGroup, query, where, getDocs } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/contexts/AuthContext";
 import { getRarityClass, getRarityGlow, formatValue } from "@/lib/rarity";
 import { Trash2 } from "lucide-react";
@@ -63,7 +64,7 @@ export function ItemEditForm({ item, onSuccess }: ItemEditFormProps) {
   const checkInventoryCount = async () => {
     try {
       const inventoryQuery = query(
-        collection(db, "inventory"),
+        collectionGroup(db, "inventory"),
         where("itemId", "==", item.id)
       );
       const snapshot = await getDocs(inventoryQuery);
@@ -110,21 +111,19 @@ export function ItemEditForm({ item, onSuccess }: ItemEditFormProps) {
 
     setLoading(true);
     try {
-      const rarity = getRarityFromValue(values.value);
-      const itemRef = doc(db, "items", item.id);
-      
-      await updateDoc(itemRef, {
-        name: values.name,
-        description: values.description,
-        imageUrl: values.imageUrl,
-        value: values.value,
-        rarity,
-        offSale: values.offSale,
-        stockType: values.stockType,
-        totalStock: values.stockType === "limited" ? values.totalStock : null,
-        remainingStock: values.stockType === "limited" 
-          ? (values.totalStock !== item.totalStock ? values.totalStock : item.remainingStock)
-          : null,
+      // The server records the previous state on the audit log so the edit can be reverted
+      await apiRequest<Item>({
+        url: `/api/admin/items/${item.id}`,
+        method: "PATCH",
+        data: {
+          name: values.name,
+          description: values.description,
+          imageUrl: values.imageUrl,
+          value: values.value,
+          offSale: values.offSale,
+          stockType: values.stockType,
+          totalStock: values.totalStock,
+        },
       });
 
       toast({
@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { collection, query, orderBy, limit } from "firebase/firestore";
+import { db, getDocs } from "@/lib/firebase";
+import { formatValue } from "@/lib/rarity";
+import type { Item, ItemSale, ItemValueChange } from "@shared/schema";
+
+const POINTS_TO_LOAD = 100;
+
+const chartConfig = {
+  value: {
+    label: "Value",
+    color: "hsl(var(--primary))",
+  },
+  rap: {
+    label: "RAP",
+    color: "hsl(var(--chart-2))",
+  },
+} satisfies ChartConfig;
+
+interface ChartPoint {
+  time: number;
+  value?: number;
+  rap?: number;
+}
+
+// Merges admin value edits and sales into one timeline. Both series carry their
+// last known figure forward, so the lines stay continuous between events.
+function buildTimeline(item: Item, changes: ItemValueChange[], sales: ItemSale[]): ChartPoint[] {
+  const events = [
+    ...changes.map((change) => ({ time: change.changedAt, value: change.value })),
+    ...sales.map((sale) => ({ time: sale.soldAt, rap: sale.rap })),
+  ].sort((a, b) => a.time - b.time);
+
+  // Items created before value history was recorded start from their first known value
+  let value: number | undefined = changes[0]?.previousValue ?? (changes.length === 0 ? item.value : changes[0].value);
+  let rap: number | undefined;
+  const points: ChartPoint[] = [{ time: Math.min(item.createdAt, events[0]?.time ?? item.createdAt), value }];
+
+  for (const event of events) {
+    if ("value" in event) value = event.value;
+    if ("rap" in event) rap = event.rap;
+    points.push({ time: event.time, value, rap });
+  }
+
+  points.push({ time: Date.now(), value: item.value, rap: item.rap ?? rap });
+  return points;
+}
+
+export function ItemValueChart({ item }: { item: Item }) {
+  const [points, setPoints] = useState<ChartPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadHistory() {
+      setLoading(true);
+      try {
+        const [changesSnapshot, salesSnapshot] = await Promise.all([
+          getDocs(query(collection(db, "items", item.id, "valueHistory"), orderBy("changedAt", "desc"), limit(POINTS_TO_LOAD))),
+          getDocs(query(collection(db, "items", item.id, "sales"), orderBy("soldAt", "desc"), limit(POINTS_TO_LOAD))),
+        ]);
+
+        const changes = changesSnapshot.docs.map((changeDoc) => ({ id: changeDoc.id, ...changeDoc.data() }) as ItemValueChange).reverse();
+        const sales = salesSnapshot.docs.map((saleDoc) => ({ id: saleDoc.id, ...saleDoc.data() }) as ItemSale).reverse();
+
+        if (!cancelled) {
+          setPoints(buildTimeline(item, changes, sales));
+        }
+      } catch (error) {
+        console.error("Error loading value history:", error);
+        if (!cancelled) {
+          setPoints([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [item.id, item.value, item.rap]);
+
+  if (loading) {
+    return <p className="text-sm text-center text-muted-foreground py-8">Loading value history...</p>;
+  }
+
+  if (points.length === 0) {
+    return <p className="text-sm text-center text-muted-foreground py-8">No value history yet</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto" data-testid="chart-item-value">
+      <LineChart data={points} margin={{ left: 8, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(time) => new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis tickFormatter={(value) => formatValue(value)} tickLine={false} axisLine={false} width={60} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => new Date(payload[0]?.payload.time).toLocaleString()}
+              formatter={(value, name) => (
+                <div className="flex w-full justify-between gap-4">
+                  <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                  <span className="font-mono font-medium tabular-nums">{formatValue(value as number)}</span>
+                </div>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="value" type="stepAfter" stroke="var(--color-value)" strokeWidth={2} dot={false} connectNulls />
+        <Line dataKey="rap" type="monotone" stroke="var(--color-rap)" strokeWidth={2} dot={false} connectNulls />
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect } from "react";
+import { useLuckEvents } from "@/hooks/use-luck-events";
+import { describeLuckEvent, isLuckEventLive } from "@shared/schema";
+import { Clover } from "lucide-react";
+
+const UPCOMING_WINDOW = 24 * 60 * 60 * 1000; // Show events starting within a day
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+// Live and soon-to-start global luck events, with countdowns, for the roll page
+export function LuckEventBanner() {
+  const events = useLuckEvents();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const shown = events.filter((event) => event.endsAt > now && event.startsAt - now < UPCOMING_WINDOW);
+  if (shown.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {shown.map((event) => {
+        const live = isLuckEventLive(event, now);
+
+        return (
+          <div
+            key={event.id}
+            className={`flex items-center gap-3 p-3 md:p-4 rounded-lg border ${
+              live ? "border-green-500/50 bg-green-500/10" : "border-border bg-card"
+            }`}
+            data-testid={`banner-luck-event-${event.id}`}
+          >
+            <Clover className={`w-5 h-5 shrink-0 ${live ? "text-green-500" : "text-muted-foreground"}`} />
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold truncate">{event.name}</p>
+              <p className="text-sm text-muted-foreground">{describeLuckEvent(event)}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-xs text-muted-foreground">{live ? "Ends in" : "Starts in"}</p>
+              <p className="font-mono tabular-nums font-semibold">
+                {formatCountdown((live ? event.endsAt : event.startsAt) - now)}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useAuth } from "@/contexts/AuthContext";
+import { useGameConfig } from "@/hooks/use-game-config";
+import { RARITY_TIERS } from "@shared/schema";
+
+// Dry-roll progress toward each pity threshold. Counters are kept by the server and
+// reset when the player rolls that tier or higher.
+export function PityProgress() {
+  const { user } = useAuth();
+  const { pityThresholds } = useGameConfig();
+
+  if (!user || pityThresholds.length === 0) {
+    return null;
+  }
+
+  const thresholds = [...pityThresholds].sort((a, b) => a.rolls - b.rolls);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Pity</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {thresholds.map((threshold) => {
+          const dryRolls = user.pityCounters?.[threshold.rarity] ?? 0;
+          const reached = dryRolls >= threshold.rolls;
+
+          return (
+            <div key={threshold.rarity} className="space-y-1" data-testid={`pity-${threshold.rarity}`}>
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-medium">
+                  {RARITY_TIERS[threshold.rarity].name}{threshold.rarity === "INSANE" ? "" : "+"}
+                </span>
+                {reached ? (
+                  <Badge>{threshold.multiplier}x boost active</Badge>
+                ) : (
+                  <span className="text-muted-foreground tabular-nums">
+                    {dryRolls.toLocaleString()} / {threshold.rolls.toLocaleString()} rolls
+                  </span>
+                )}
+              </div>
+              <Progress value={Math.min(100, (dryRolls / threshold.rolls) * 100)} />
+            </div>
+          );
+        })}
+        <p className="text-xs text-muted-foreground">
+          Rolls without hitting a tier count toward its threshold. Once reached, that tier and above are boosted until you hit one.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
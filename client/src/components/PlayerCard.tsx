@@ -1,7 +1,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import type { User, Item } from "@shared/schema";
+import { getStaffRole, type User, type Item } from "@shared/schema";
 import { useState, useMemo, useEffect } from "react";
 import { User as UserIcon, Ban, TrendingUp, Shield } from "lucide-react";
 import { formatValue } from "@/lib/rarity";
@@ -30,11 +30,14 @@ export function PlayerCard({ player, onClick, onAdminActionComplete }: PlayerCar
     const calculateValues = async () => {
       const items = await itemsCache.getItems();
       
+      // Cards only use the legacy array as a fallback; migrated users rely on the
+      // cached inventoryValue/showcaseMetadata so a list of cards costs no extra reads
+      const legacyInventory = player.inventory || [];
       const needsInventoryCalc = (!player.inventoryValue || player.inventoryValue <= 0) && 
-                                 player.inventory && player.inventory.length > 0;
+                                 legacyInventory.length > 0;
       if (needsInventoryCalc) {
         let total = 0;
-        for (const invItem of player.inventory) {
+        for (const invItem of legacyInventory) {
           const item = items.get(invItem.itemId);
           if (item) {
             total += item.value * (invItem.amount || 1);
@@ -47,10 +50,10 @@ export function PlayerCard({ player, onClick, onAdminActionComplete }: PlayerCar
 
       const needsShowcaseCalc = (!player.showcaseMetadata || player.showcaseMetadata.length === 0) && 
                                 player.showcaseItems && player.showcaseItems.length > 0;
-      if (needsShowcaseCalc && player.inventory) {
+      if (needsShowcaseCalc && legacyInventory.length > 0) {
         const showcase = [];
         for (const inventoryItemId of player.showcaseItems.slice(0, 3)) {
-          const invItem = player.inventory.find(item => item.id === inventoryItemId);
+          const invItem = legacyInventory.find(item => item.id === inventoryItemId);
           if (!invItem) continue;
           const item = items.get(invItem.itemId);
           if (!item) continue;
@@ -88,7 +91,7 @@ export function PlayerCard({ player, onClick, onAdminActionComplete }: PlayerCar
   }, [player.inventoryValue, calculatedInventoryValue]);
 
   const emptySlots = Math.max(0, 3 - showcaseDisplay.length);
-  const showAdminPanel = currentUser?.isAdmin && player.userId !== currentUser.userId;
+  const showAdminPanel = !!currentUser && getStaffRole(currentUser) !== null && player.userId !== currentUser.userId;
 
   return (
     <>
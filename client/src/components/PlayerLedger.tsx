@@ -0,0 +1,148 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { getPlayerLedger } from "@/lib/ledgerService";
+import { format } from "date-fns";
+import type { LedgerEntry, LedgerItemDelta } from "@shared/schema";
+import { BookOpen } from "lucide-react";
+
+const TYPE_LABELS: Record<LedgerEntry["type"], string> = {
+  roll: "Roll",
+  auto_sell: "Auto-Sell",
+  sell: "Sell",
+  trade: "Trade",
+  market_buy: "Market Buy",
+  market_sell: "Market Sale",
+  admin_give: "Admin Gift",
+  admin_wipe: "Inventory Wipe",
+  admin_revert: "Admin Revert",
+};
+
+function formatDelta(delta: LedgerItemDelta): string {
+  const name = delta.itemName || delta.itemId;
+  const serial = delta.serialNumber !== null ? ` #${delta.serialNumber}` : "";
+  return `${delta.amount > 0 ? "+" : ""}${delta.amount} ${name}${serial}`;
+}
+
+interface PlayerLedgerProps {
+  userId: string;
+  refreshKey?: number; // Change to reload the list
+}
+
+// A player's cash and item history for staff, for tracing "my item disappeared" tickets
+export function PlayerLedger({ userId, refreshKey }: PlayerLedgerProps) {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    const loadLedger = async () => {
+      setLoading(true);
+      try {
+        const page = await getPlayerLedger(userId);
+        setEntries(page.entries);
+        setNextCursor(page.nextCursor);
+      } catch (error: any) {
+        console.error("Error loading ledger:", error);
+        toast({
+          title: "Failed to load ledger",
+          description: error.message || "An error occurred",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLedger();
+  }, [userId, refreshKey]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await getPlayerLedger(userId, nextCursor);
+      setEntries((current) => [...current, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (error: any) {
+      console.error("Error loading ledger:", error);
+      toast({
+        title: "Failed to load ledger",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading ledger...</p>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground" data-testid="text-no-ledger-entries">
+        <BookOpen className="w-8 h-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">No ledger entries yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry) => {
+        const cashChange = entry.cashAfter - entry.cashBefore;
+
+        return (
+          <div key={entry.id} className="p-3 rounded-lg border space-y-1" data-testid={`ledger-entry-${entry.id}`}>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant={entry.type.startsWith("admin_") ? "secondary" : "outline"}>
+                {TYPE_LABELS[entry.type]}
+              </Badge>
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(entry.timestamp), "MMM dd, yyyy 'at' h:mm:ss a")}
+              </span>
+              {entry.counterpartyUsername && (
+                <span className="text-xs text-muted-foreground">with {entry.counterpartyUsername}</span>
+              )}
+            </div>
+            {cashChange !== 0 && (
+              <p className={`text-sm ${cashChange > 0 ? "text-green-500" : "text-destructive"}`}>
+                {cashChange > 0 ? "+" : "-"}R${Math.abs(cashChange).toLocaleString()} (R${entry.cashBefore.toLocaleString()} → R${entry.cashAfter.toLocaleString()})
+              </p>
+            )}
+            {entry.items.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {entry.items.map(formatDelta).join(", ")}
+              </p>
+            )}
+            {entry.type === "auto_sell" && entry.details?.itemName && (
+              <p className="text-sm text-muted-foreground">
+                Rolled and sold {entry.details.itemName}{entry.details.serialNumber != null ? ` #${entry.details.serialNumber}` : ""}
+              </p>
+            )}
+            {entry.referenceId && (
+              <p className="text-xs text-muted-foreground font-mono">Ref: {entry.referenceId}</p>
+            )}
+          </div>
+        );
+      })}
+      {nextCursor && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={loadMore}
+          disabled={loadingMore}
+          data-testid="button-ledger-load-more"
+        >
+          {loadingMore ? "Loading..." : "Load More"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -3,16 +3,18 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { User, Item } from "@shared/schema";
+import type { User, Item, InventoryEntry } from "@shared/schema";
 import { formatValue } from "@/lib/rarity";
 import { Flag, Ban, User as UserIcon, Dices, DollarSign, Clock, Calendar, Package, Hash, ArrowLeftRight } from "lucide-react";
 import { useState, useEffect, useMemo } from "react";
 import { doc, getDoc, collection, getDocs, query, where } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { loadInventoryEntries } from "@/lib/inventory";
 import { ItemCard } from "@/components/ItemCard";
 import { calculateUserBadges, calculateLeaderboardPositions, type BadgeConfig } from "@/lib/badgeConfig";
 import { useAuth } from "@/contexts/AuthContext";
 import { TradeModal } from "@/components/TradeModal";
+import { ReportDialog } from "@/components/ReportDialog";
 
 interface PlayerProfileModalProps {
   player: User | null;
@@ -25,21 +27,27 @@ export function PlayerProfileModal({ player, open, onOpenChange }: PlayerProfile
   const [showcaseItems, setShowcaseItems] = useState<(Item & { serialNumber: number | null })[]>([]);
   const [inventoryItems, setInventoryItems] = useState<{ item: Item; serialNumber: number | null; stackCount: number; inventoryIds: string[] }[]>([]);
   const [loading, setLoading] = useState(true);
+  const [playerInventory, setPlayerInventory] = useState<InventoryEntry[]>([]);
   const [badges, setBadges] = useState<BadgeConfig[]>([]);
   const [tradeModalOpen, setTradeModalOpen] = useState(false);
+  const [reportDialogOpen, setReportDialogOpen] = useState(false);
 
   useEffect(() => {
     if (!player || !open) {
       setShowcaseItems([]);
       setInventoryItems([]);
+      setPlayerInventory([]);
       return;
     }
 
     const loadPlayerData = async () => {
       setLoading(true);
       try {
+        const inventory = await loadInventoryEntries(player);
+        setPlayerInventory(inventory);
+
         const showcasePromises = (player.showcaseItems || []).map(async (inventoryItemId) => {
-          const invItem = player.inventory?.find(item => item.id === inventoryItemId);
+          const invItem = inventory.find(item => item.id === inventoryItemId);
           if (!invItem) return null;
 
           const itemDoc = await getDoc(doc(db, "items", invItem.itemId));
@@ -55,8 +63,8 @@ export function PlayerProfileModal({ player, open, onOpenChange }: PlayerProfile
         const showcase = await Promise.all(showcasePromises);
         setShowcaseItems(showcase.filter((item): item is Item & { serialNumber: number | null } => item !== null));
 
-        if (player.inventory && player.inventory.length > 0) {
-          const uniqueItemIds = Array.from(new Set(player.inventory.map(inv => inv.itemId)));
+        if (inventory.length > 0) {
+          const uniqueItemIds = Array.from(new Set(inventory.map(inv => inv.itemId)));
           
           const itemPromises = uniqueItemIds.map(itemId => 
             getDoc(doc(db, "items", itemId))
@@ -73,7 +81,7 @@ export function PlayerProfileModal({ player, open, onOpenChange }: PlayerProfile
 
           const groupedInventory = new Map<string, { item: Item; serialNumbers: (number | null)[]; inventoryIds: string[]; totalAmount: number }>();
 
-          for (const invItem of player.inventory) {
+          for (const invItem of inventory) {
             const item = itemsMap.get(invItem.itemId);
             if (!item) continue;
 
@@ -121,12 +129,12 @@ export function PlayerProfileModal({ player, open, onOpenChange }: PlayerProfile
       }
 
       const leaderboardPositions = await calculateLeaderboardPositions(player.userId);
-      const userBadges = await calculateUserBadges(player, totalInventoryValue, leaderboardPositions);
+      const userBadges = await calculateUserBadges(player, playerInventory, totalInventoryValue, leaderboardPositions);
       setBadges(userBadges);
     }
 
     loadBadges();
-  }, [player, open, totalInventoryValue]);
+  }, [player, open, totalInventoryValue, playerInventory]);
 
   const formatTimeSpent = (ms: number) => {
     const hours = Math.floor(ms / (1000 * 60 * 60));
@@ -226,7 +234,12 @@ export function PlayerProfileModal({ player, open, onOpenChange }: PlayerProfile
                   Trade
                 </Button>
               )}
-              <Button variant="outline" disabled data-testid="button-report">
+              <Button
+                variant="outline"
+                onClick={() => setReportDialogOpen(true)}
+                disabled={!currentUser || currentUser.id === player.id}
+                data-testid="button-report"
+              >
                 <Flag className="w-4 h-4 mr-2" />
                 Report
               </Button>
@@ -343,6 +356,12 @@ export function PlayerProfileModal({ player, open, onOpenChange }: PlayerProfile
         onOpenChange={setTradeModalOpen}
         targetUser={player}
       />
+      <ReportDialog
+        open={reportDialogOpen}
+        onOpenChange={setReportDialogOpen}
+        targetUserId={player.id}
+        targetUsername={player.username}
+      />
     </Dialog>
   );
 }
@@ -0,0 +1,118 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createReport } from "@/lib/reportService";
+import { REPORT_CATEGORIES, type ReportCategory } from "@shared/schema";
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetUserId: string;
+  targetUsername: string;
+  tradeId?: string; // Attach this trade instead of the player's profile
+}
+
+export function ReportDialog({ open, onOpenChange, targetUserId, targetUsername, tradeId }: ReportDialogProps) {
+  const { toast } = useToast();
+  const [category, setCategory] = useState<ReportCategory | "">("");
+  const [description, setDescription] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setCategory("");
+      setDescription("");
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!category) return;
+
+    setSubmitting(true);
+    try {
+      await createReport({
+        targetUserId,
+        category,
+        description: description.trim(),
+        tradeId,
+      });
+
+      toast({
+        title: "Report submitted",
+        description: "Thanks, a moderator will review your report",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error submitting report:", error);
+      toast({
+        title: "Report failed",
+        description: error instanceof Error ? error.message : "Failed to submit report",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-report">
+        <DialogHeader>
+          <DialogTitle>Report {targetUsername}</DialogTitle>
+          <DialogDescription>
+            {tradeId
+              ? "This trade will be attached to your report as evidence."
+              : "Their profile will be attached to your report as evidence."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="report-category">Category</Label>
+          <Select value={category} onValueChange={(value) => setCategory(value as ReportCategory)}>
+            <SelectTrigger id="report-category" data-testid="select-report-category">
+              <SelectValue placeholder="Choose a category..." />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(REPORT_CATEGORIES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="report-description">What happened?</Label>
+          <Textarea
+            id="report-description"
+            maxLength={1000}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Describe what happened..."
+            className="min-h-[120px]"
+            data-testid="input-report-description"
+          />
+          <p className="text-xs text-muted-foreground text-right">{description.length}/1000</p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !category || description.trim().length < 10}
+            data-testid="button-submit-report"
+          >
+            {submitting ? "Submitting..." : "Submit Report"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
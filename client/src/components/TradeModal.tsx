@@ -8,12 +8,17 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
-import { collection, getDocs, query, where, doc, getDoc, addDoc } from "firebase/firestore";
+import { collection, getDocs, query, where, doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { itemsCache } from "@/lib/itemsCache";
-import type { User, Item } from "@shared/schema";
+import { loadInventoryEntries } from "@/lib/inventory";
+import { counterTrade, createTrade } from "@/lib/tradeService";
+import type { User, Item, Trade } from "@shared/schema";
 import { getRarityClass, getRarityGlow, formatValue } from "@/lib/rarity";
-import { Search, X, DollarSign, ArrowLeftRight, Hash, Lock } from "lucide-react";
+import { Search, X, DollarSign, ArrowLeftRight, Hash, Lock, Scale, AlertTriangle } from "lucide-react";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useGameConfig } from "@/hooks/use-game-config";
+import { analyzeTrade, calculateWeightedValue } from "@/lib/tradeValue";
 
 interface InventoryItemWithDetails {
   inventoryId: string;
@@ -25,15 +30,28 @@ interface InventoryItemWithDetails {
   serialNumber: number | null;
   nftLocked: boolean;
   amount: number;
+  stockType: Item["stockType"];
+  totalStock: number | null;
+}
+
+// Items to pre-select when the modal opens, by itemId; anything not owned or NFT-locked is skipped
+export interface TradePrefill {
+  offerItems: Array<{ itemId: string; amount?: number }>;
+  requestItems: Array<{ itemId: string; amount?: number }>;
+  offerCash?: number;
+  requestCash?: number;
 }
 
 interface TradeModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   targetUser: User | null;
+  counterOf?: Trade | null; // Inbound trade being countered; its terms are pre-filled with the sides swapped
+  prefill?: TradePrefill | null;
+  onTradeSent?: () => void;
 }
 
-export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps) {
+export function TradeModal({ open, onOpenChange, targetUser, counterOf, prefill, onTradeSent }: TradeModalProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   
@@ -50,6 +68,8 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
   
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [confirmOverpay, setConfirmOverpay] = useState(false);
+  const gameConfig = useGameConfig();
 
   useEffect(() => {
     if (open && user && targetUser) {
@@ -57,7 +77,7 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
     } else {
       resetTrade();
     }
-  }, [open, user, targetUser]);
+  }, [open, user, targetUser, counterOf, prefill]);
 
   const resetTrade = () => {
     setMyInventory([]);
@@ -75,7 +95,7 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
     setLoading(true);
 
     try {
-      // Fetch fresh user data from Firestore to ensure inventory is up-to-date
+      // Fetch fresh user data from Firestore (legacy inventories are still read from it)
       const [myUserDoc, targetUserDoc] = await Promise.all([
         getDoc(doc(db, "users", user.firebaseUid)),
         getDoc(doc(db, "users", targetUser.firebaseUid)),
@@ -95,6 +115,23 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
 
       setMyInventory(myItems);
       setTheirInventory(theirItems);
+
+      // When countering, what they asked for is now our offer and what they offered is our request
+      const initial: TradePrefill | null | undefined = counterOf
+        ? {
+            offerItems: counterOf.receiverRequest.items,
+            requestItems: counterOf.senderOffer.items,
+            offerCash: counterOf.receiverRequest.cash,
+            requestCash: counterOf.senderOffer.cash,
+          }
+        : prefill;
+
+      if (initial) {
+        setOfferQuantities(tradeItemsToQuantities(initial.offerItems, myItems));
+        setRequestQuantities(tradeItemsToQuantities(initial.requestItems, theirItems));
+        setOfferCash(Math.min(initial.offerCash || 0, 50000));
+        setRequestCash(Math.min(initial.requestCash || 0, 10000));
+      }
     } catch (error) {
       console.error("Error loading inventories:", error);
       toast({
@@ -108,7 +145,7 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
   };
 
   const loadUserInventory = async (targetUser: User): Promise<InventoryItemWithDetails[]> => {
-    const inventory = targetUser.inventory || [];
+    const inventory = await loadInventoryEntries(targetUser);
     const uniqueItemIds = Array.from(new Set(inventory.map(inv => inv.itemId)));
 
     // Use items cache instead of individual Firestore reads
@@ -128,12 +165,31 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
         serialNumber: invItem.serialNumber,
         nftLocked: invItem.nftLocked || false,
         amount: invItem.amount || 1,
+        stockType: item.stockType,
+        totalStock: item.totalStock,
       };
     }).filter((item): item is InventoryItemWithDetails => item !== null);
 
     return itemsWithDetails.sort((a, b) => b.itemValue - a.itemValue);
   };
 
+  // Pre-fills quantities from an existing trade, limited to what is still owned and tradeable
+  const tradeItemsToQuantities = (tradeItems: TradePrefill["offerItems"], inventory: InventoryItemWithDetails[]): Map<string, number> => {
+    const grouped = groupInventoryByItem(inventory);
+    const quantities = new Map<string, number>();
+
+    tradeItems.forEach(tradeItem => {
+      const items = grouped.get(tradeItem.itemId) || [];
+      if (items.length === 0 || items.some(item => item.nftLocked)) return;
+
+      const totalUnits = items.reduce((sum, item) => sum + item.amount, 0);
+      const quantity = (quantities.get(tradeItem.itemId) || 0) + (tradeItem.amount || 1);
+      quantities.set(tradeItem.itemId, Math.min(totalUnits, quantity));
+    });
+
+    return quantities;
+  };
+
   // Group inventory items by itemId to handle duplicates
   const groupInventoryByItem = (inventory: InventoryItemWithDetails[]) => {
     const grouped = new Map<string, InventoryItemWithDetails[]>();
@@ -297,12 +353,7 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
       const offerEntries = quantitiesToEntries(offerQuantities, myInventory);
       const requestEntries = quantitiesToEntries(requestQuantities, theirInventory);
 
-      await addDoc(collection(db, "trades"), {
-        status: "pending",
-        senderId: user.firebaseUid,
-        senderUsername: user.username,
-        receiverId: targetUser.firebaseUid,
-        receiverUsername: targetUser.username,
+      const terms = {
         senderOffer: {
           items: offerEntries,
           cash: offerCash,
@@ -311,21 +362,28 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
           items: requestEntries,
           cash: requestCash,
         },
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      });
+      };
+
+      if (counterOf) {
+        await counterTrade(counterOf.id, terms);
+      } else {
+        await createTrade({ receiverId: targetUser.firebaseUid, ...terms });
+      }
 
       toast({
-        title: "Trade Sent",
-        description: `Your trade offer has been sent to ${targetUser.username}`,
+        title: counterOf ? "Counter-Offer Sent" : "Trade Sent",
+        description: counterOf
+          ? `Your counter-offer has been sent to ${targetUser.username}`
+          : `Your trade offer has been sent to ${targetUser.username}`,
       });
 
       onOpenChange(false);
+      onTradeSent?.();
     } catch (error) {
       console.error("Error creating trade:", error);
       toast({
         title: "Error",
-        description: "Failed to create trade offer",
+        description: error instanceof Error ? error.message : "Failed to create trade offer",
         variant: "destructive",
       });
     } finally {
@@ -346,8 +404,27 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
     return total;
   };
 
+  // Value weighted by scarcity, used for the win/loss panel rather than the raw totals
+  const calculateWeightedTotal = (quantities: Map<string, number>, grouped: Map<string, InventoryItemWithDetails[]>, cash: number): number => {
+    const selected = Array.from(quantities.entries())
+      .map(([itemId, quantity]) => {
+        const items = grouped.get(itemId);
+        return items && items.length > 0 ? { ...items[0], amount: quantity } : null;
+      })
+      .filter((item): item is InventoryItemWithDetails => item !== null);
+    return calculateWeightedValue(selected, cash);
+  };
+
   const totalOfferValue = calculateTotalValue(offerQuantities, myInventory) + offerCash;
   const totalRequestValue = calculateTotalValue(requestQuantities, theirInventory) + requestCash;
+  const tradeAnalysis = analyzeTrade(
+    calculateWeightedTotal(offerQuantities, groupedMyInventory, offerCash),
+    calculateWeightedTotal(requestQuantities, groupedTheirInventory, requestCash),
+    gameConfig.lowballThreshold
+  );
+  const hasSelection = offerQuantities.size > 0 && requestQuantities.size > 0;
+
+  const formatGain = (percent: number) => `${percent >= 0 ? "+" : ""}${percent.toFixed(1)}%`;
 
   const renderInventoryItem = (itemId: string, items: InventoryItemWithDetails[], isOffer: boolean) => {
     const representativeItem = items[0];
@@ -463,7 +540,7 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
         <DialogHeader className="pb-2 border-b">
           <DialogTitle className="flex items-center gap-2 text-lg">
             <ArrowLeftRight className="w-5 h-5" />
-            Trade with {targetUser?.username}
+            {counterOf ? `Counter ${targetUser?.username}'s offer` : `Trade with ${targetUser?.username}`}
           </DialogTitle>
         </DialogHeader>
 
@@ -655,15 +732,54 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
                   </div>
                 </div>
 
+                {hasSelection && (
+                  <div
+                    className={`p-3 border rounded-lg space-y-2 text-xs ${tradeAnalysis.lopsided ? "border-destructive bg-destructive/10" : "bg-muted/30"}`}
+                    data-testid="panel-trade-value"
+                  >
+                    <div className="flex items-center gap-1 font-semibold text-sm">
+                      <Scale className="w-4 h-4" />
+                      Value Check
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">You</span>
+                      <span className={`font-semibold ${tradeAnalysis.myGainPercent >= 0 ? "text-green-600" : "text-red-600"}`} data-testid="text-my-gain">
+                        {tradeAnalysis.myGainPercent >= 0 ? "Win" : "Loss"} {formatGain(tradeAnalysis.myGainPercent)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">{targetUser?.username}</span>
+                      <span className={`font-semibold ${tradeAnalysis.theirGainPercent >= 0 ? "text-green-600" : "text-red-600"}`} data-testid="text-their-gain">
+                        {tradeAnalysis.theirGainPercent >= 0 ? "Win" : "Loss"} {formatGain(tradeAnalysis.theirGainPercent)}
+                      </span>
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">
+                      Limited items are weighted by how few copies exist ({formatValue(tradeAnalysis.giveValue)} vs {formatValue(tradeAnalysis.getValue)}).
+                    </p>
+                    {tradeAnalysis.lopsided === "overpay" && (
+                      <p className="flex items-start gap-1 text-destructive font-medium" data-testid="text-overpay-warning">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        You are overpaying by more than {Math.round(gameConfig.lowballThreshold * 100)}% of what you give. Double-check before sending.
+                      </p>
+                    )}
+                    {tradeAnalysis.lopsided === "lowball" && (
+                      <p className="flex items-start gap-1 text-destructive font-medium" data-testid="text-lowball-warning">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        This is a lowball: {targetUser?.username} would lose more than {Math.round(gameConfig.lowballThreshold * 100)}% of what they give.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="mt-auto pt-4 border-t space-y-2">
                   <Button
-                    onClick={handleSubmitTrade}
+                    onClick={() => tradeAnalysis.lopsided === "overpay" ? setConfirmOverpay(true) : handleSubmitTrade()}
                     disabled={submitting || offerQuantities.size === 0 || requestQuantities.size === 0}
                     className="w-full"
                     size="default"
                     data-testid="button-send-trade"
                   >
-                    {submitting ? "Sending..." : "Make Offer"}
+                    {submitting ? "Sending..." : counterOf ? "Send Counter" : "Make Offer"}
                   </Button>
                   <Button 
                     variant="outline" 
@@ -680,6 +796,30 @@ export function TradeModal({ open, onOpenChange, targetUser }: TradeModalProps)
           </div>
         </div>
       </DialogContent>
+
+      <AlertDialog open={confirmOverpay} onOpenChange={setConfirmOverpay}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send a lopsided offer?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You give {formatValue(tradeAnalysis.giveValue)} and get {formatValue(tradeAnalysis.getValue)} ({formatGain(tradeAnalysis.myGainPercent)}).
+              {" "}If {targetUser?.username} accepts, you lose the difference.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-overpay">Go Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                setConfirmOverpay(false);
+                handleSubmitTrade();
+              }}
+              data-testid="button-confirm-overpay"
+            >
+              Send Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Dialog>
   );
 }
@@ -0,0 +1,91 @@
+import { useState, useEffect } from "react";
+import { collection, query, orderBy } from "firebase/firestore";
+import { db, getDocs } from "@/lib/firebase";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { WARNING_SEVERITIES, getActiveWarningPoints, type Warning, type WarningSeverity } from "@shared/schema";
+import { AlertTriangle } from "lucide-react";
+
+const SEVERITY_VARIANTS: Record<WarningSeverity, "default" | "destructive" | "secondary" | "outline"> = {
+  minor: "outline",
+  moderate: "secondary",
+  severe: "destructive",
+};
+
+interface WarningHistoryProps {
+  userId: string;
+  staffView?: boolean; // Shows expired warnings and who issued each one
+  refreshKey?: number; // Change to reload the list
+}
+
+// A player's warnings: the active ones in Settings, the full history for staff
+export function WarningHistory({ userId, staffView = false, refreshKey }: WarningHistoryProps) {
+  const [warnings, setWarnings] = useState<Warning[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadWarnings = async () => {
+      setLoading(true);
+      try {
+        const snapshot = await getDocs(query(collection(db, "users", userId, "warnings"), orderBy("issuedAt", "desc")));
+        setWarnings(snapshot.docs.map((warningDoc) => ({ id: warningDoc.id, ...warningDoc.data() }) as Warning));
+      } catch (error) {
+        console.error("Error loading warnings:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadWarnings();
+  }, [userId, refreshKey]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading warnings...</p>;
+  }
+
+  const now = Date.now();
+  const activePoints = getActiveWarningPoints(warnings, now);
+  const shown = staffView ? warnings : warnings.filter((warning) => warning.expiresAt > now);
+
+  if (shown.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground" data-testid="text-no-warnings">
+        <AlertTriangle className="w-8 h-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">{staffView ? "No warnings on record" : "You have no active warnings"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium" data-testid="text-active-warning-points">
+        {activePoints} active warning point{activePoints === 1 ? "" : "s"}
+      </p>
+      {shown.map((warning) => {
+        const active = warning.expiresAt > now;
+
+        return (
+          <div key={warning.id} className={`p-3 rounded-lg border space-y-1 ${active ? "" : "opacity-60"}`} data-testid={`warning-${warning.id}`}>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant={SEVERITY_VARIANTS[warning.severity]}>
+                {WARNING_SEVERITIES[warning.severity].label} • {warning.points} pt{warning.points === 1 ? "" : "s"}
+              </Badge>
+              {!active && <Badge variant="outline">Expired</Badge>}
+              {warning.escalationBanDays && (
+                <Badge variant="destructive">Triggered {warning.escalationBanDays}-day ban</Badge>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(warning.issuedAt), "MMM dd, yyyy")} • {active ? "expires" : "expired"} {format(new Date(warning.expiresAt), "MMM dd, yyyy")}
+              </span>
+            </div>
+            <p className="text-sm font-medium">{warning.reason}</p>
+            {warning.message && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{warning.message}</p>}
+            {staffView && (
+              <p className="text-xs text-muted-foreground">Issued by {warning.issuedByUsername}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_GAME_CONFIG, type GameConfig } from "@shared/schema";
+
+export const GAME_CONFIG_QUERY_KEY = ["/api/game-config"];
+
+// Falls back to the defaults while loading so fee previews never render empty
+export function useGameConfig(): GameConfig {
+  const { data } = useQuery<GameConfig>({
+    queryKey: GAME_CONFIG_QUERY_KEY,
+    staleTime: 60 * 1000,
+  });
+
+  return data ?? DEFAULT_GAME_CONFIG;
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import type { LuckEvent } from "@shared/schema";
+
+export const LUCK_EVENTS_QUERY_KEY = ["/api/luck-events"];
+
+// Live and upcoming global luck events, soonest first
+export function useLuckEvents(): LuckEvent[] {
+  const { data } = useQuery<LuckEvent[]>({
+    queryKey: LUCK_EVENTS_QUERY_KEY,
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+
+  return data ?? [];
+}
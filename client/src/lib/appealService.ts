@@ -0,0 +1,36 @@
+import { auth } from "@/lib/firebase";
+import type { CreateAppealRequest } from "@shared/schema";
+
+async function sendAppealRequest(url: string, fallbackError: string, body?: unknown): Promise<any> {
+  if (!auth.currentUser) {
+    throw new Error("Not authenticated");
+  }
+
+  const idToken = await auth.currentUser.getIdToken();
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${idToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+// Appeals are filed through the server, which checks the player is banned, has no
+// pending appeal and isn't in the cooldown after a denial.
+export async function createAppeal(request: CreateAppealRequest): Promise<string> {
+  const { appealId } = await sendAppealRequest("/api/appeals", "Failed to submit appeal", request);
+  return appealId;
+}
+
+export async function acknowledgeAppeal(appealId: string): Promise<void> {
+  await sendAppealRequest(`/api/appeals/${appealId}/acknowledge`, "Failed to dismiss appeal");
+}
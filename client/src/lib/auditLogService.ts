@@ -0,0 +1,57 @@
+import { auth } from "@/lib/firebase";
+import type { AuditLogExportFormat, AuditLogFilters, AuditLogPage } from "@shared/schema";
+
+function toSearchParams(values: Record<string, string | number | undefined>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+  return params.toString();
+}
+
+async function sendAuditLogRequest(url: string, fallbackError: string): Promise<Response> {
+  if (!auth.currentUser) {
+    throw new Error("Not authenticated");
+  }
+
+  const idToken = await auth.currentUser.getIdToken();
+  const response = await fetch(url, {
+    headers: {
+      "Authorization": `Bearer ${idToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || fallbackError);
+  }
+
+  return response;
+}
+
+export async function getAuditLogs(filters: AuditLogFilters, cursor?: string): Promise<AuditLogPage> {
+  const response = await sendAuditLogRequest(
+    `/api/admin/audit-logs?${toSearchParams({ ...filters, cursor })}`,
+    "Failed to load audit logs",
+  );
+  return response.json();
+}
+
+// The export needs the auth header, so it is fetched here and handed to the
+// browser as a file rather than opened as a plain link.
+export async function downloadAuditLogs(filters: AuditLogFilters, format: AuditLogExportFormat): Promise<void> {
+  const response = await sendAuditLogRequest(
+    `/api/admin/audit-logs/export?${toSearchParams({ ...filters, format })}`,
+    "Failed to export audit logs",
+  );
+
+  const filename = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || `audit-log.${format}`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
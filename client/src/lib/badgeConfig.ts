@@ -1,4 +1,4 @@
-import type { User } from "@shared/schema";
+import type { InventoryEntry, User } from "@shared/schema";
 import { collection, getDocs } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 
@@ -37,12 +37,6 @@ export interface LeaderboardPositions {
 async function calculateLeaderboardPositions(userId: number): Promise<LeaderboardPositions> {
   try {
     const usersSnapshot = await getDocs(collection(db, "users"));
-    const itemsSnapshot = await getDocs(collection(db, "items"));
-    
-    const itemsMap = new Map<string, any>();
-    itemsSnapshot.forEach((doc) => {
-      itemsMap.set(doc.id, doc.data());
-    });
     
     const usersWithStats: Array<{
       userId: number;
@@ -52,24 +46,16 @@ async function calculateLeaderboardPositions(userId: number): Promise<Leaderboar
       rolls: number;
     }> = [];
     
-    usersSnapshot.forEach((doc) => {
-      const userData = { id: doc.id, ...doc.data() } as User;
+    const users = usersSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as User);
+    
+    // Inventory value and item counts are kept on the user documents by the server
+    users.forEach((userData) => {
       if (userData.userId === 1) return;
       
-      let totalValue = 0;
-      if (userData.inventory && userData.inventory.length > 0) {
-        userData.inventory.forEach((invItem) => {
-          const item = itemsMap.get(invItem.itemId);
-          if (item) {
-            totalValue += item.value * (invItem.amount || 1);
-          }
-        });
-      }
-      
       usersWithStats.push({
         userId: userData.userId,
-        totalValue,
-        itemCount: userData.inventory?.reduce((sum, inv) => sum + (inv.amount || 1), 0) || 0,
+        totalValue: userData.inventoryValue ?? 0,
+        itemCount: userData.itemCount ?? 0,
         cash: userData.cash ?? 0,
         rolls: userData.rollCount ?? 0,
       });
@@ -97,7 +83,7 @@ async function calculateLeaderboardPositions(userId: number): Promise<Leaderboar
   }
 }
 
-export async function calculateUserBadges(user: User, inventoryValue: number, leaderboardPositions?: LeaderboardPositions): Promise<BadgeConfig[]> {
+export async function calculateUserBadges(user: User, inventory: InventoryEntry[], inventoryValue: number, leaderboardPositions?: LeaderboardPositions): Promise<BadgeConfig[]> {
   const badges: BadgeConfig[] = [];
   
   if (user.userId === 2) {
@@ -214,8 +200,8 @@ export async function calculateUserBadges(user: User, inventoryValue: number, le
     }
   }
   
-  if (user.inventory && user.inventory.length > 0) {
-    const hasSerialItem = user.inventory.some(invItem => invItem.serialNumber !== null && invItem.serialNumber !== undefined);
+  if (inventory.length > 0) {
+    const hasSerialItem = inventory.some(invItem => invItem.serialNumber !== null && invItem.serialNumber !== undefined);
     if (hasSerialItem) {
       badges.push({
         id: "serialOwner",
@@ -232,7 +218,7 @@ export async function calculateUserBadges(user: User, inventoryValue: number, le
       itemsMap.set(doc.id, doc.data());
     });
     
-    const hasDominusItem = user.inventory.some(invItem => {
+    const hasDominusItem = inventory.some(invItem => {
       const item = itemsMap.get(invItem.itemId);
       return item && item.name && item.name.includes("Dominus");
     });
@@ -246,7 +232,7 @@ export async function calculateUserBadges(user: User, inventoryValue: number, le
       });
     }
     
-    const hasRareItem = user.inventory.some(invItem => {
+    const hasRareItem = inventory.some(invItem => {
       const item = itemsMap.get(invItem.itemId);
       if (!item) return false;
       const isStockOrTimer = item.stockType === "limited" || item.stockType === "timer";
@@ -0,0 +1,110 @@
+import { auth } from "./firebase";
+import { hashToFloat, pickWeightedItem, rollMessage, type RevealedSeed, type RollProof, type RollSnapshotItem } from "@shared/fairness";
+
+export interface SeedInfo {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
+export interface RotateSeedResult extends SeedInfo {
+  revealed: RevealedSeed | null;
+}
+
+export interface VerificationData {
+  revealed: RevealedSeed | null;
+  proofs: RollProof[];
+  snapshots: Record<string, RollSnapshotItem[]>;
+}
+
+export interface VerifiedRoll {
+  proof: RollProof;
+  expectedItem: RollSnapshotItem | null;
+  valid: boolean;
+}
+
+async function authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  if (!auth.currentUser) {
+    throw new Error("Not authenticated");
+  }
+
+  const idToken = await auth.currentUser.getIdToken();
+  return fetch(url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${idToken}`,
+    },
+  });
+}
+
+export async function getSeedInfo(): Promise<SeedInfo> {
+  const response = await authorizedFetch("/api/fairness");
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to load seeds");
+  }
+  return response.json();
+}
+
+export async function rotateSeed(clientSeed?: string): Promise<RotateSeedResult> {
+  const response = await authorizedFetch("/api/fairness/rotate", {
+    method: "POST",
+    body: JSON.stringify({ clientSeed: clientSeed || undefined }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to rotate seed");
+  }
+  return response.json();
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return toHex(digest);
+}
+
+async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(message));
+  return toHex(signature);
+}
+
+// Replays every recorded roll for a revealed server seed entirely in the browser.
+// The server is only trusted for the proof/snapshot records, not for the outcome.
+export async function verifyServerSeed(serverSeed: string): Promise<{ serverSeedHash: string; data: VerificationData; rolls: VerifiedRoll[] }> {
+  const serverSeedHash = await sha256Hex(serverSeed);
+  const response = await fetch(`/api/fairness/verify/${serverSeedHash}`);
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to load verification data");
+  }
+
+  const data: VerificationData = await response.json();
+  const rolls = await Promise.all(data.proofs.map(async (proof) => {
+    const items = data.snapshots[proof.snapshotId];
+    if (!items || items.length === 0) {
+      return { proof, expectedItem: null, valid: false };
+    }
+
+    const digest = await hmacSha256Hex(serverSeed, rollMessage(proof.clientSeed, proof.nonce));
+    const expectedItem = pickWeightedItem(items, proof.luckMultiplier, hashToFloat(digest), proof.boosts);
+    return { proof, expectedItem, valid: expectedItem.id === proof.itemId };
+  }));
+
+  return { serverSeedHash, data, rolls };
+}
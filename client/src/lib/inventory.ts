@@ -0,0 +1,60 @@
+import { collection, collectionGroup, query, where, type CollectionReference } from "firebase/firestore";
+import { db, getDocs } from "./firebase";
+import type { InventoryEntry, User } from "@shared/schema";
+
+export function inventoryCollection(userId: string): CollectionReference {
+  return collection(db, "users", userId, "inventory");
+}
+
+// Users not yet migrated still carry entries in the legacy `inventory` array.
+// Both sources are merged by entry id so nothing disappears mid-migration.
+function mergeLegacyEntries(entries: InventoryEntry[], legacy: InventoryEntry[] | undefined): InventoryEntry[] {
+  if (!legacy || legacy.length === 0) {
+    return entries;
+  }
+
+  const ids = new Set(entries.map((entry) => entry.id));
+  return [...entries, ...legacy.filter((entry) => !ids.has(entry.id))];
+}
+
+function toEntry(id: string, data: any): InventoryEntry {
+  return {
+    id,
+    itemId: data.itemId,
+    serialNumber: data.serialNumber ?? null,
+    rolledAt: data.rolledAt || 0,
+    amount: data.amount || 1,
+    nftLocked: data.nftLocked || false,
+  };
+}
+
+export async function loadInventoryEntries(user: Pick<User, "id" | "inventory">): Promise<InventoryEntry[]> {
+  const snapshot = await getDocs(inventoryCollection(user.id));
+  const entries = snapshot.docs.map((entryDoc) => toEntry(entryDoc.id, entryDoc.data()));
+  return mergeLegacyEntries(entries, user.inventory);
+}
+
+// Serial holders of one item across all users, via a collection-group query on itemId
+export async function loadItemEntries(itemId: string, users: Pick<User, "id" | "inventory">[]): Promise<Map<string, InventoryEntry[]>> {
+  const snapshot = await getDocs(query(collectionGroup(db, "inventory"), where("itemId", "==", itemId)));
+  const byUser = new Map<string, InventoryEntry[]>();
+
+  for (const entryDoc of snapshot.docs) {
+    const ownerId = entryDoc.ref.parent.parent?.id;
+    if (!ownerId) continue;
+
+    if (!byUser.has(ownerId)) {
+      byUser.set(ownerId, []);
+    }
+    byUser.get(ownerId)!.push(toEntry(entryDoc.id, entryDoc.data()));
+  }
+
+  for (const user of users) {
+    const legacy = user.inventory?.filter((entry) => entry.itemId === itemId);
+    if (legacy && legacy.length > 0) {
+      byUser.set(user.id, mergeLegacyEntries(byUser.get(user.id) || [], legacy));
+    }
+  }
+
+  return byUser;
+}
@@ -1,7 +1,6 @@
 import { doc, collection } from "firebase/firestore";
 import { db, getDoc, setDoc, getDocs } from "./firebase";
 import type { User, Item } from "@shared/schema";
-import { itemsCache } from "./itemsCache";
 
 export interface LeaderboardPlayer {
   user: User;
@@ -133,29 +132,14 @@ class LeaderboardCache {
       }
     });
 
-    // Get items from cache
-    const itemsMap = await itemsCache.getItems();
-
-    // Calculate values for all users
-    const playersWithValues = users.map((user) => {
-      let totalValue = 0;
-      if (user.inventory && user.inventory.length > 0) {
-        user.inventory.forEach((invItem) => {
-          const item = itemsMap.get(invItem.itemId);
-          if (item) {
-            totalValue += item.value * (invItem.amount || 1);
-          }
-        });
-      }
-
-      return {
-        user,
-        totalValue,
-        itemCount: user.inventory?.reduce((sum, inv) => sum + (inv.amount || 1), 0) || 0,
-        cash: user.cash ?? 0,
-        rolls: user.rollCount ?? 0,
-      };
-    });
+    // Inventory value and item counts are kept on the user documents by the server
+    const playersWithValues = users.map((user) => ({
+      user,
+      totalValue: user.inventoryValue ?? 0,
+      itemCount: user.itemCount ?? 0,
+      cash: user.cash ?? 0,
+      rolls: user.rollCount ?? 0,
+    }));
 
     // Create all leaderboards
     const topValue = playersWithValues
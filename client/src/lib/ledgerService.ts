@@ -0,0 +1,23 @@
+import { auth } from "@/lib/firebase";
+import type { LedgerPage } from "@shared/schema";
+
+export async function getPlayerLedger(userId: string, cursor?: string): Promise<LedgerPage> {
+  if (!auth.currentUser) {
+    throw new Error("Not authenticated");
+  }
+
+  const idToken = await auth.currentUser.getIdToken();
+  const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+  const response = await fetch(`/api/admin/users/${userId}/ledger${query}`, {
+    headers: {
+      "Authorization": `Bearer ${idToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to load ledger");
+  }
+
+  return response.json();
+}
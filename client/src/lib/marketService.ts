@@ -0,0 +1,40 @@
+import { auth } from "@/lib/firebase";
+import type { CreateListingRequest, MarketListing } from "@shared/schema";
+
+// Listings are created, bought and cancelled by the server, which checks the
+// serial is still owned and unlocked and applies the marketplace fee.
+async function sendMarketRequest(path: string, fallbackError: string, body?: unknown): Promise<any> {
+  if (!auth.currentUser) {
+    throw new Error("Not authenticated");
+  }
+
+  const idToken = await auth.currentUser.getIdToken();
+  const response = await fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${idToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+export async function createListing(request: CreateListingRequest): Promise<string> {
+  const { listingId } = await sendMarketRequest("/api/market/listings", "Failed to list item", request);
+  return listingId;
+}
+
+export async function buyListing(listingId: string): Promise<MarketListing> {
+  return sendMarketRequest(`/api/market/listings/${listingId}/buy`, "Failed to buy item");
+}
+
+export async function cancelListing(listingId: string): Promise<void> {
+  await sendMarketRequest(`/api/market/listings/${listingId}/cancel`, "Failed to cancel listing");
+}
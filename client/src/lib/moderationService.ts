@@ -0,0 +1,51 @@
+import { auth } from "@/lib/firebase";
+import type { BanUserRequest, GiveItemRequest, WarnUserRequest } from "@shared/schema";
+
+// Moderation actions go through the server, which checks the acting user's role
+// against MODERATION_PERMISSIONS and writes the audit log itself.
+async function sendModerationRequest(userId: string, action: string, fallbackError: string, body?: unknown): Promise<any> {
+  if (!auth.currentUser) {
+    throw new Error("Not authenticated");
+  }
+
+  const idToken = await auth.currentUser.getIdToken();
+  const response = await fetch(`/api/admin/users/${userId}/${action}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${idToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+export async function banUser(userId: string, request: Partial<BanUserRequest>): Promise<{ itemsWiped: number }> {
+  const { itemsWiped } = await sendModerationRequest(userId, "ban", "Failed to ban user", request);
+  return { itemsWiped };
+}
+
+export async function unbanUser(userId: string): Promise<void> {
+  await sendModerationRequest(userId, "unban", "Failed to unban user");
+}
+
+// Returns the player's active warning points and the length of the automatic ban, if the warning triggered one
+export async function warnUser(userId: string, request: Partial<WarnUserRequest>): Promise<{ points: number; banDays: number | null }> {
+  const { points, banDays } = await sendModerationRequest(userId, "warn", "Failed to warn user", request);
+  return { points, banDays };
+}
+
+export async function wipeUserInventory(userId: string): Promise<{ itemsWiped: number }> {
+  const { itemsWiped } = await sendModerationRequest(userId, "wipe", "Failed to wipe inventory");
+  return { itemsWiped };
+}
+
+export async function giveItem(userId: string, request: Partial<GiveItemRequest> & Pick<GiveItemRequest, "itemId">): Promise<void> {
+  await sendModerationRequest(userId, "give", "Failed to give item", request);
+}
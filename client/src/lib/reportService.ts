@@ -0,0 +1,28 @@
+import { auth } from "@/lib/firebase";
+import type { CreateReportRequest } from "@shared/schema";
+
+// Reports are filed through the server, which copies the reported profile or
+// trade into the report so it can't be edited afterwards.
+export async function createReport(request: CreateReportRequest): Promise<string> {
+  if (!auth.currentUser) {
+    throw new Error("Not authenticated");
+  }
+
+  const idToken = await auth.currentUser.getIdToken();
+  const response = await fetch("/api/reports", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to submit report");
+  }
+
+  const { reportId } = await response.json();
+  return reportId;
+}
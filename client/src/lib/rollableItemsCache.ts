@@ -1,6 +1,6 @@
 import { collection, query, where } from "firebase/firestore";
 import { db, getDocs } from "./firebase";
-import type { Item } from "@shared/schema";
+import { isUnreleased, type Item } from "@shared/schema";
 
 class RollableItemsCache {
   private items: Item[] = [];
@@ -92,10 +92,11 @@ class RollableItemsCache {
       snapshot.forEach((doc) => {
         const item = { id: doc.id, ...doc.data() } as Item;
         // Only include items that are actually rollable
-        const isRollable = 
+        const isRollable = !isUnreleased(item) && (
           item.stockType === "infinite" || 
           (item.stockType === "limited" && item.remainingStock && item.remainingStock > 0) ||
-          (item.stockType === "timer" && item.timerExpiresAt && item.timerExpiresAt > now);
+          (item.stockType === "timer" && item.timerExpiresAt && item.timerExpiresAt > now)
+        );
         
         if (isRollable) {
           fetchedItems.push(item);
@@ -1,141 +1,40 @@
-import { runTransaction, doc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import type { User } from "@shared/schema";
-import { adminCache } from "./adminCache";
+import { auth } from "@/lib/firebase";
+import type { SellResult } from "@shared/schema";
 
-export interface SellResult {
-  soldCount: number;
-  playerEarned: number;
-  adminEarned: number;
-}
+export type { SellResult };
 
+// Selling happens in a server transaction; the server looks up the item value
+// and applies the configured fee split, so only the inventory entries are sent.
 export async function sellItems(
-  user: User,
   inventoryIds: string[],
-  itemValue: number,
-  quantityToSell: number,
-  itemId?: string
+  quantityToSell: number
 ): Promise<SellResult> {
   if (quantityToSell <= 0) {
     throw new Error("Quantity must be positive");
   }
 
-  if (quantityToSell > inventoryIds.length) {
-    throw new Error("Cannot sell more items than you own");
+  if (inventoryIds.length === 0) {
+    throw new Error("No items selected");
   }
 
-  const idsToSell = inventoryIds.slice(0, quantityToSell);
-  const totalValue = itemValue * quantityToSell;
-  const playerEarned = Math.floor(totalValue * 0.8);
-  const adminEarned = Math.floor(totalValue * 0.2);
-
-  // Use cached admin ID to save database reads
-  const adminDocId = await adminCache.getAdminDocId();
-  
-  if (!adminDocId) {
-    throw new Error("Admin user not found");
+  if (!auth.currentUser) {
+    throw new Error("Not authenticated");
   }
 
-  const result = await runTransaction(db, async (transaction) => {
-    const userRef = doc(db, "users", user.id);
-    const adminRef = doc(db, "users", adminDocId);
-    
-    const userDoc = await transaction.get(userRef);
-    const adminDoc = await transaction.get(adminRef);
-    
-    if (!userDoc.exists()) {
-      throw new Error("User not found");
-    }
-    
-    if (!adminDoc.exists()) {
-      throw new Error("Admin user not found");
-    }
-
-    const currentCash = userDoc.data().cash || 0;
-    const currentInventory = userDoc.data().inventory || [];
-    const adminCash = adminDoc.data().cash || 0;
-
-    const idsToSellSet = new Set(idsToSell);
-    const updatedInventory = [];
-    let actualRemovedCount = 0;
-    let soldItemId: string | null = null;
-    
-    for (const invItem of currentInventory) {
-      if (idsToSellSet.has(invItem.id)) {
-        if (!soldItemId) {
-          soldItemId = invItem.itemId;
-        }
-        const amount = invItem.amount || 1;
-        const sellAmount = Math.min(amount, quantityToSell - actualRemovedCount);
-        
-        actualRemovedCount += sellAmount;
-        
-        if (sellAmount < amount) {
-          updatedInventory.push({
-            ...invItem,
-            amount: amount - sellAmount,
-          });
-        }
-      } else {
-        updatedInventory.push(invItem);
-      }
-    }
-    
-    if (actualRemovedCount !== quantityToSell) {
-      throw new Error(`Invalid inventory: expected to remove ${quantityToSell} items but only found ${actualRemovedCount}`);
-    }
-
-    const finalItemId = soldItemId || itemId;
-    let itemDoc = null;
-    let itemRef = null;
-    let ownershipMarkerRef = null;
-    
-    if (finalItemId) {
-      itemRef = doc(db, "items", finalItemId);
-      ownershipMarkerRef = doc(db, "items", finalItemId, "owners", user.firebaseUid);
-      itemDoc = await transaction.get(itemRef);
-    }
-
-    transaction.update(userRef, {
-      cash: currentCash + playerEarned,
-      inventory: updatedInventory,
-    });
-
-    transaction.update(adminRef, {
-      cash: adminCash + adminEarned,
-    });
-
-    if (itemDoc && itemDoc.exists() && itemRef && ownershipMarkerRef) {
-      const itemData = itemDoc.data();
-      const currentOwners = itemData.totalOwners || 0;
-      const currentRemainingStock = itemData.remainingStock || 0;
-      
-      const stillOwnsItem = updatedInventory.some((invItem: any) => invItem.itemId === finalItemId);
-      
-      if (itemData.stockType === "limited") {
-        const updateData: any = {
-          remainingStock: currentRemainingStock + actualRemovedCount,
-        };
-        
-        if (!stillOwnsItem) {
-          updateData.totalOwners = Math.max(0, currentOwners - 1);
-          transaction.delete(ownershipMarkerRef);
-        }
-        
-        transaction.update(itemRef, updateData);
-      } else {
-        transaction.update(itemRef, {
-          totalOwners: Math.max(0, currentOwners - actualRemovedCount),
-        });
-      }
-    }
-
-    return {
-      soldCount: actualRemovedCount,
-      playerEarned,
-      adminEarned,
-    };
+  const idToken = await auth.currentUser.getIdToken();
+  const response = await fetch("/api/inventory/sell", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${idToken}`,
+    },
+    body: JSON.stringify({ inventoryIds, quantity: quantityToSell }),
   });
 
-  return result;
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || "Failed to sell items");
+  }
+
+  return response.json();
 }
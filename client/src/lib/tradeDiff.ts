@@ -0,0 +1,118 @@
+import type { Trade, TradeTerms } from "@shared/schema";
+
+export interface TradeItemChange {
+  itemId: string;
+  itemName: string;
+  itemImageUrl: string;
+  before: number;
+  after: number;
+  serialsAdded: number[];
+  serialsRemoved: number[];
+}
+
+// What one user gives before and after a revision
+export interface TradeSideChange {
+  userId: string;
+  username: string;
+  items: TradeItemChange[];
+  cashBefore: number;
+  cashAfter: number;
+}
+
+export interface TradeRevisionDiff {
+  revision: number;
+  parentRevision: number;
+  sides: TradeSideChange[];
+}
+
+type TradeItem = TradeTerms["senderOffer"]["items"][number];
+
+// Senders and receivers swap on every counter, so sides are compared per user
+function givenBy(terms: TradeTerms, userId: string): { items: TradeItem[]; cash: number } {
+  return terms.senderId === userId ? terms.senderOffer : terms.receiverRequest;
+}
+
+function groupByItem(items: TradeItem[]): Map<string, { item: TradeItem; amount: number; serials: number[] }> {
+  const grouped = new Map<string, { item: TradeItem; amount: number; serials: number[] }>();
+  for (const item of items) {
+    const group = grouped.get(item.itemId) || { item, amount: 0, serials: [] };
+    group.amount += item.amount || 1;
+    if (item.serialNumber !== null) {
+      group.serials.push(item.serialNumber);
+    }
+    grouped.set(item.itemId, group);
+  }
+  return grouped;
+}
+
+export function diffTradeTerms(before: TradeTerms, after: TradeTerms): TradeSideChange[] {
+  const users = [
+    { userId: after.senderId, username: after.senderUsername },
+    { userId: after.receiverId, username: after.receiverUsername },
+  ];
+
+  return users.map(({ userId, username }) => {
+    const previous = givenBy(before, userId);
+    const current = givenBy(after, userId);
+    const previousItems = groupByItem(previous.items);
+    const currentItems = groupByItem(current.items);
+
+    const items: TradeItemChange[] = [];
+    const itemIds = new Set([...Array.from(previousItems.keys()), ...Array.from(currentItems.keys())]);
+
+    itemIds.forEach((itemId) => {
+      const was = previousItems.get(itemId);
+      const now = currentItems.get(itemId);
+      const serialsAdded = (now?.serials || []).filter((serial) => !was?.serials.includes(serial));
+      const serialsRemoved = (was?.serials || []).filter((serial) => !now?.serials.includes(serial));
+
+      if ((was?.amount || 0) === (now?.amount || 0) && serialsAdded.length === 0 && serialsRemoved.length === 0) {
+        return;
+      }
+
+      const item = (now || was)!.item;
+      items.push({
+        itemId,
+        itemName: item.itemName,
+        itemImageUrl: item.itemImageUrl,
+        before: was?.amount || 0,
+        after: now?.amount || 0,
+        serialsAdded,
+        serialsRemoved,
+      });
+    });
+
+    return {
+      userId,
+      username,
+      items,
+      cashBefore: previous.cash,
+      cashAfter: current.cash,
+    };
+  });
+}
+
+// One diff per counter-offer, newest first. The current terms are revision `revisions.length`.
+export function getTradeRevisionDiffs(trade: Trade): TradeRevisionDiff[] {
+  const revisions = trade.revisions || [];
+  const versions: Array<TradeTerms & { revision: number; parentRevision?: number }> = [
+    ...revisions,
+    { ...trade, revision: revisions.length },
+  ];
+
+  const diffs: TradeRevisionDiff[] = [];
+  for (const version of versions) {
+    if (version.parentRevision === undefined) continue;
+
+    const parent = versions[version.parentRevision];
+    if (!parent) continue;
+
+    diffs.push({
+      revision: version.revision,
+      parentRevision: version.parentRevision,
+      sides: diffTradeTerms(parent, version),
+    });
+  }
+
+  return diffs.reverse();
+}
@@ -0,0 +1,57 @@
+import { auth } from "@/lib/firebase";
+import type { CounterTradeRequest, CreateTradeAdRequest, CreateTradeRequest } from "@shared/schema";
+
+// Trades and trade ads are written by the server, which checks ownership,
+// NFT locks and who is allowed to act before touching any document.
+async function sendTradeRequest(method: "POST" | "DELETE", path: string, fallbackError: string, body?: unknown): Promise<any> {
+  if (!auth.currentUser) {
+    throw new Error("Not authenticated");
+  }
+
+  const idToken = await auth.currentUser.getIdToken();
+  const response = await fetch(path, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${idToken}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+export async function createTrade(request: CreateTradeRequest): Promise<string> {
+  const { tradeId } = await sendTradeRequest("POST", "/api/trades", "Failed to create trade offer", request);
+  return tradeId;
+}
+
+export async function acceptTrade(tradeId: string): Promise<void> {
+  await sendTradeRequest("POST", `/api/trades/${tradeId}/accept`, "Failed to accept trade");
+}
+
+export async function counterTrade(tradeId: string, request: CounterTradeRequest): Promise<void> {
+  await sendTradeRequest("POST", `/api/trades/${tradeId}/counter`, "Failed to send counter-offer", request);
+}
+
+export async function declineTrade(tradeId: string): Promise<void> {
+  await sendTradeRequest("POST", `/api/trades/${tradeId}/decline`, "Failed to decline trade");
+}
+
+export async function cancelTrade(tradeId: string): Promise<void> {
+  await sendTradeRequest("POST", `/api/trades/${tradeId}/cancel`, "Failed to cancel trade");
+}
+
+export async function createTradeAd(request: CreateTradeAdRequest): Promise<string> {
+  const { adId } = await sendTradeRequest("POST", "/api/trade-ads", "Failed to post trade ad", request);
+  return adId;
+}
+
+export async function deleteTradeAd(adId: string): Promise<void> {
+  await sendTradeRequest("DELETE", `/api/trade-ads/${adId}`, "Failed to remove trade ad");
+}
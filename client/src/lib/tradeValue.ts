@@ -0,0 +1,55 @@
+import type { Item } from "@shared/schema";
+
+export interface TradeValueItem {
+  itemValue: number;
+  stockType: Item["stockType"];
+  totalStock: number | null;
+  amount: number;
+}
+
+// What each side gets out of a trade, from the point of view of the user making it
+export interface TradeAnalysis {
+  giveValue: number;
+  getValue: number;
+  myGainPercent: number;
+  theirGainPercent: number;
+  lopsided: "overpay" | "lowball" | null;
+}
+
+// Limited serials are worth more than their listed value when few copies exist:
+// a single copy counts double, 100 copies +10%, 10,000 copies +1%.
+// Infinite and timer items count at face value.
+export function getScarcityMultiplier(item: Pick<TradeValueItem, "stockType" | "totalStock">): number {
+  if (item.stockType !== "limited" || !item.totalStock || item.totalStock <= 0) {
+    return 1;
+  }
+  return 1 + 1 / Math.sqrt(item.totalStock);
+}
+
+export function calculateWeightedValue(items: TradeValueItem[], cash: number): number {
+  const itemsValue = items.reduce(
+    (sum, item) => sum + item.itemValue * getScarcityMultiplier(item) * (item.amount || 1),
+    0
+  );
+  return Math.round(itemsValue) + cash;
+}
+
+function gainPercent(paid: number, received: number): number {
+  if (paid <= 0) return 0;
+  return ((received - paid) / paid) * 100;
+}
+
+// `threshold` is the share of its value (0.5 = 50%) one side can lose before the trade is flagged
+export function analyzeTrade(giveValue: number, getValue: number, threshold: number): TradeAnalysis {
+  const myGainPercent = gainPercent(giveValue, getValue);
+  const theirGainPercent = gainPercent(getValue, giveValue);
+  const limit = -threshold * 100;
+
+  return {
+    giveValue,
+    getValue,
+    myGainPercent,
+    theirGainPercent,
+    lopsided: myGainPercent <= limit ? "overpay" : theirGainPercent <= limit ? "lowball" : null,
+  };
+}
@@ -1,17 +1,19 @@
-import { collection, getDocs, doc, writeBatch } from "firebase/firestore";
+import { collection, getDocs, doc, writeBatch, deleteField } from "firebase/firestore";
 import { db } from "./firebase";
 import { itemsCache } from "./itemsCache";
+import { inventoryCollection, loadInventoryEntries } from "./inventory";
 import type { User } from "@shared/schema";
 
 export async function updateUserShowcaseMetadata(userId: string, userDoc: User) {
   try {
     const items = await itemsCache.getItems();
+    const inventory = await loadInventoryEntries({ id: userId, inventory: userDoc.inventory });
     const showcaseMetadata = [];
     let totalValue = 0;
 
     if (userDoc.showcaseItems && userDoc.showcaseItems.length > 0) {
       for (const inventoryItemId of userDoc.showcaseItems) {
-        const invItem = userDoc.inventory?.find(item => item.id === inventoryItemId);
+        const invItem = inventory.find(item => item.id === inventoryItemId);
         if (!invItem) continue;
 
         const item = items.get(invItem.itemId);
@@ -28,18 +30,18 @@ export async function updateUserShowcaseMetadata(userId: string, userDoc: User)
       }
     }
 
-    if (userDoc.inventory && userDoc.inventory.length > 0) {
-      for (const invItem of userDoc.inventory) {
-        const item = items.get(invItem.itemId);
-        if (item) {
-          totalValue += item.value * (invItem.amount || 1);
-        }
+    for (const invItem of inventory) {
+      const item = items.get(invItem.itemId);
+      if (item) {
+        totalValue += item.value * (invItem.amount || 1);
       }
     }
 
     return {
       showcaseMetadata,
       inventoryValue: totalValue,
+      itemCount: inventory.reduce((sum, invItem) => sum + (invItem.amount || 1), 0),
+      uniqueItemCount: new Set(inventory.map((invItem) => invItem.itemId)).size,
       usernameLower: userDoc.username.toLowerCase()
     };
   } catch (error) {
@@ -47,6 +49,8 @@ export async function updateUserShowcaseMetadata(userId: string, userDoc: User)
     return {
       showcaseMetadata: [],
       inventoryValue: 0,
+      itemCount: 0,
+      uniqueItemCount: 0,
       usernameLower: userDoc.username.toLowerCase()
     };
   }
@@ -75,6 +79,7 @@ export async function migrateAllUsersSchema() {
       const needsUpdate = 
         !userData.showcaseMetadata || 
         userData.inventoryValue === undefined || 
+        userData.itemCount === undefined || 
         !userData.usernameLower;
       
       if (!needsUpdate) {
@@ -109,11 +114,68 @@ export async function migrateAllUsersSchema() {
   }
 }
 
+// Moves every legacy `inventory` array into the users/{id}/inventory subcollection.
+// Entry ids are kept and the array is only removed once all its entries are written,
+// so the migration can be re-run safely if it stops halfway.
+export async function migrateAllUsersInventory() {
+  try {
+    console.log("Starting inventory migration...");
+
+    const usersRef = collection(db, "users");
+    const snapshot = await getDocs(usersRef);
+
+    console.log(`Found ${snapshot.size} users to check`);
+
+    let migratedUsers = 0;
+    let migratedEntries = 0;
+    const batchSize = 500;
+
+    for (const docSnapshot of snapshot.docs) {
+      const legacyInventory = (docSnapshot.data() as User).inventory;
+      if (!legacyInventory) {
+        continue;
+      }
+
+      let batch = writeBatch(db);
+      let batchCount = 0;
+
+      for (const entry of legacyInventory) {
+        batch.set(doc(inventoryCollection(docSnapshot.id), entry.id), {
+          ...entry,
+          serialNumber: entry.serialNumber ?? null,
+          amount: entry.amount || 1,
+          nftLocked: entry.nftLocked || false,
+        });
+        batchCount++;
+
+        if (batchCount >= batchSize - 1) {
+          await batch.commit();
+          batch = writeBatch(db);
+          batchCount = 0;
+        }
+      }
+
+      batch.update(doc(db, "users", docSnapshot.id), { inventory: deleteField() });
+      await batch.commit();
+
+      migratedUsers++;
+      migratedEntries += legacyInventory.length;
+      console.log(`Migrated ${legacyInventory.length} entries for user ${docSnapshot.id}`);
+    }
+
+    console.log(`Inventory migration complete! Moved ${migratedEntries} entries for ${migratedUsers} users.`);
+    return { success: true, users: migratedUsers, entries: migratedEntries };
+  } catch (error) {
+    console.error("Error during inventory migration:", error);
+    throw error;
+  }
+}
+
 // Add global debug command for admins to run migration
 if (typeof window !== 'undefined') {
   (window as any).migrateUserSchema = async () => {
     console.log('%c🔄 Starting User Schema Migration...', 'color: #8b5cf6; font-weight: bold; font-size: 14px');
-    console.log('%cThis will update usernameLower, showcaseMetadata, and inventoryValue for all users', 'color: #6b7280');
+    console.log('%cThis will update usernameLower, showcaseMetadata and the inventory stats for all users', 'color: #6b7280');
     
     try {
       const result = await migrateAllUsersSchema();
@@ -127,5 +189,22 @@ if (typeof window !== 'undefined') {
     }
   };
   
+  (window as any).migrateUserInventory = async () => {
+    console.log('%c🔄 Starting Inventory Migration...', 'color: #8b5cf6; font-weight: bold; font-size: 14px');
+    console.log('%cThis will move every inventory array into the users/{id}/inventory subcollection', 'color: #6b7280');
+
+    try {
+      const result = await migrateAllUsersInventory();
+      console.log('%c✅ Migration Complete!', 'color: #10b981; font-weight: bold; font-size: 14px');
+      console.log(`Moved ${result.entries} entries for ${result.users} users`);
+      return result;
+    } catch (error) {
+      console.log('%c❌ Migration Failed', 'color: #ef4444; font-weight: bold; font-size: 14px');
+      console.error(error);
+      throw error;
+    }
+  };
+
   console.log('%cUser schema migration initialized. Run migrateUserSchema() to update all user data.', 'color: #8b5cf6; font-weight: bold');
+  console.log('%cRun migrateUserInventory() to move inventories into the subcollection.', 'color: #8b5cf6; font-weight: bold');
 }
@@ -2,6 +2,8 @@ import { useState, useEffect } from "react";
 import { collection, query, where, getDocs, doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/contexts/AuthContext";
+import { useGameConfig } from "@/hooks/use-game-config";
+import { loadInventoryEntries } from "@/lib/inventory";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -10,7 +12,7 @@ import { ItemCard } from "@/components/ItemCard";
 import { ItemDetailModal } from "@/components/ItemDetailModal";
 import type { InventoryItemWithDetails, Item, RarityTier } from "@shared/schema";
 import { Search, Package, CheckSquare, X, DollarSign } from "lucide-react";
-import { RARITY_TIERS } from "@shared/schema";
+import { RARITY_TIERS, calculateSellSplit } from "@shared/schema";
 import { sellItems } from "@/lib/sellService";
 import { useToast } from "@/hooks/use-toast";
 import { formatValue } from "@/lib/rarity";
@@ -25,6 +27,8 @@ type StackedInventoryItem = {
 export default function Inventory() {
   const { user, refetchUser } = useAuth();
   const { toast } = useToast();
+  const { sellFeeRate } = useGameConfig();
+  const sellPercent = Math.round((1 - sellFeeRate) * 100);
   const [inventory, setInventory] = useState<InventoryItemWithDetails[]>([]);
   const [stackedInventory, setStackedInventory] = useState<StackedInventoryItem[]>([]);
   const [filteredInventory, setFilteredInventory] = useState<StackedInventoryItem[]>([]);
@@ -60,8 +64,7 @@ export default function Inventory() {
     setLoading(true);
 
     try {
-      // Use user data from context instead of fetching again
-      const userInventory = user.inventory || [];
+      const userInventory = await loadInventoryEntries(user);
       
       // Extract unique item IDs
       const uniqueItemIds = Array.from(new Set(userInventory.map((inv: any) => inv.itemId))) as string[];
@@ -85,9 +88,10 @@ export default function Inventory() {
               item 
             });
           } else {
+            // One row per copy so counts add up; every copy points at the same stack entry
             for (let i = 0; i < amount; i++) {
               items.push({ 
-                id: i === 0 ? invItem.id : `${invItem.id}-${i}`,
+                id: invItem.id,
                 itemId: invItem.itemId,
                 userId: user.firebaseUid,
                 serialNumber: invItem.serialNumber,
@@ -126,7 +130,9 @@ export default function Inventory() {
         const existing = grouped.get(invItem.itemId);
         if (existing) {
           existing.count += 1;
-          existing.inventoryIds.push(invItem.id);
+          if (!existing.inventoryIds.includes(invItem.id)) {
+            existing.inventoryIds.push(invItem.id);
+          }
         } else {
           grouped.set(invItem.itemId, {
             item: invItem.item,
@@ -178,7 +184,7 @@ export default function Inventory() {
       let totalSold = 0;
 
       for (const stackedItem of itemsToSell) {
-        const result = await sellItems(user, stackedItem.inventoryIds, stackedItem.item.value, stackedItem.count, stackedItem.item.id);
+        const result = await sellItems(stackedItem.inventoryIds, stackedItem.count);
         totalEarned += result.playerEarned;
         totalSold += result.soldCount;
       }
@@ -289,7 +295,7 @@ export default function Inventory() {
     
     const totalValue = selected.reduce((sum, item) => sum + (item.item.value * item.count), 0);
     const totalCount = selected.reduce((sum, item) => sum + item.count, 0);
-    const sellValue = Math.floor(totalValue * 0.8);
+    const sellValue = calculateSellSplit(totalValue, sellFeeRate).playerEarned;
     
     return { selected, totalValue, totalCount, sellValue };
   };
@@ -305,7 +311,7 @@ export default function Inventory() {
       let totalSold = 0;
 
       for (const stackedItem of selected) {
-        const result = await sellItems(user, stackedItem.inventoryIds, stackedItem.item.value, stackedItem.count, stackedItem.item.id);
+        const result = await sellItems(stackedItem.inventoryIds, stackedItem.count);
         totalEarned += result.playerEarned;
         totalSold += result.soldCount;
       }
@@ -497,12 +503,12 @@ export default function Inventory() {
                 const itemsToSell = stackedInventory.filter(item => item.item.rarity === bulkSellRarity);
                 const totalCount = itemsToSell.reduce((sum, item) => sum + item.count, 0);
                 const totalValue = itemsToSell.reduce((sum, item) => sum + (item.item.value * item.count), 0);
-                const sellValue = Math.floor(totalValue * 0.8);
+                const sellValue = calculateSellSplit(totalValue, sellFeeRate).playerEarned;
                 
                 return (
                   <div className="space-y-2">
                     <p>
-                      You will sell <strong>{totalCount}</strong> {RARITY_TIERS[bulkSellRarity].name} items for <strong>${formatValue(sellValue)}</strong> (80% of value).
+                      You will sell <strong>{totalCount}</strong> {RARITY_TIERS[bulkSellRarity].name} items for <strong>${formatValue(sellValue)}</strong> ({sellPercent}% of value).
                     </p>
                     <p className="text-sm text-muted-foreground">This action cannot be undone.</p>
                   </div>
@@ -533,7 +539,7 @@ export default function Inventory() {
             <AlertDialogDescription>
               <div className="space-y-2">
                 <p>
-                  You will sell <strong>{totalCount}</strong> selected items for <strong>${formatValue(sellValue)}</strong> (80% of value).
+                  You will sell <strong>{totalCount}</strong> selected items for <strong>${formatValue(sellValue)}</strong> ({sellPercent}% of value).
                 </p>
                 <p className="text-sm text-muted-foreground">This action cannot be undone.</p>
               </div>
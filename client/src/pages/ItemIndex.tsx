@@ -7,7 +7,7 @@ import { ItemCard } from "@/components/ItemCard";
 import { ItemDetailModal } from "@/components/ItemDetailModal";
 import type { Item } from "@shared/schema";
 import { Search, Database } from "lucide-react";
-import { RARITY_TIERS } from "@shared/schema";
+import { RARITY_TIERS, isUnreleased } from "@shared/schema";
 import { useAuth } from "@/contexts/AuthContext";
 
 interface ItemIndexProps {
@@ -38,7 +38,9 @@ export default function ItemIndex({ onEditItem }: ItemIndexProps = {}) {
       const { itemsCache } = await import("@/lib/itemsCache");
       const itemsMap = await itemsCache.getItems();
       
+      // Scheduled drops are listed in the admin Releases tab until they go live
       const loadedItems = Array.from(itemsMap.values())
+        .filter((item) => !isUnreleased(item))
         .sort((a, b) => b.value - a.value);
 
       setItems(loadedItems);
@@ -0,0 +1,342 @@
+import { useState, useEffect } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { collection, query, where, orderBy, limit, type QueryConstraint } from "firebase/firestore";
+import { db, getDocs } from "@/lib/firebase";
+import { buyListing, cancelListing } from "@/lib/marketService";
+import { formatValue, getRarityClass } from "@/lib/rarity";
+import type { MarketListing } from "@shared/schema";
+import { CreateListingDialog } from "@/components/CreateListingDialog";
+import { Store, Search, Hash, Clock, Plus, ShoppingCart, X, History } from "lucide-react";
+
+const LISTINGS_TO_LOAD = 100;
+const HISTORY_TO_LOAD = 50;
+
+type SortOption = "newest" | "price_asc" | "price_desc";
+
+async function loadListings(...constraints: QueryConstraint[]): Promise<MarketListing[]> {
+  const snapshot = await getDocs(query(collection(db, "marketListings"), ...constraints));
+  const listings: MarketListing[] = [];
+  snapshot.forEach((listingDoc) => {
+    listings.push({ id: listingDoc.id, ...listingDoc.data() } as MarketListing);
+  });
+  return listings;
+}
+
+export default function Marketplace() {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+
+  const [listings, setListings] = useState<MarketListing[]>([]);
+  const [myListings, setMyListings] = useState<MarketListing[]>([]);
+  const [history, setHistory] = useState<MarketListing[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [sortBy, setSortBy] = useState<SortOption>("newest");
+  const [itemFilter, setItemFilter] = useState<{ itemId: string; itemName: string } | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [confirmBuy, setConfirmBuy] = useState<MarketListing | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadMarket();
+    }
+  }, [user?.firebaseUid, itemFilter?.itemId]);
+
+  const loadMarket = async () => {
+    if (!user) return;
+    setLoading(true);
+
+    try {
+      // Searching a single item shows every active listing of it, cheapest first
+      const browseQuery = itemFilter
+        ? loadListings(where("status", "==", "active"), where("itemId", "==", itemFilter.itemId), orderBy("price", "asc"), limit(LISTINGS_TO_LOAD))
+        : loadListings(where("status", "==", "active"), orderBy("createdAt", "desc"), limit(LISTINGS_TO_LOAD));
+
+      const [browse, mine, bought, sold] = await Promise.all([
+        browseQuery,
+        loadListings(where("sellerId", "==", user.firebaseUid), where("status", "==", "active"), orderBy("createdAt", "desc")),
+        loadListings(where("buyerId", "==", user.firebaseUid), orderBy("soldAt", "desc"), limit(HISTORY_TO_LOAD)),
+        loadListings(where("sellerId", "==", user.firebaseUid), where("status", "==", "sold"), orderBy("soldAt", "desc"), limit(HISTORY_TO_LOAD)),
+      ]);
+
+      setListings(browse);
+      setMyListings(mine);
+      setHistory([...bought, ...sold].sort((a, b) => (b.soldAt || 0) - (a.soldAt || 0)));
+    } catch (error) {
+      console.error("Error loading marketplace:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the marketplace",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBuy = async (listing: MarketListing) => {
+    setConfirmBuy(null);
+    setProcessingId(listing.id);
+    try {
+      await buyListing(listing.id);
+      await refetchUser();
+
+      toast({
+        title: "Purchase complete",
+        description: `${listing.itemName} #${listing.serialNumber} is now in your inventory`,
+      });
+
+      loadMarket();
+    } catch (error) {
+      console.error("Error buying listing:", error);
+      toast({
+        title: "Purchase failed",
+        description: error instanceof Error ? error.message : "Failed to buy item",
+        variant: "destructive",
+      });
+      loadMarket();
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleCancel = async (listing: MarketListing) => {
+    setProcessingId(listing.id);
+    try {
+      await cancelListing(listing.id);
+      toast({
+        title: "Listing cancelled",
+      });
+      loadMarket();
+    } catch (error) {
+      console.error("Error cancelling listing:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel listing",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const searchWords = searchTerm.toLowerCase().trim().split(/\s+/).filter(Boolean);
+  const visibleListings = listings
+    .filter((listing) => searchWords.every((word) => listing.itemName.toLowerCase().includes(word)))
+    .sort((a, b) => {
+      if (sortBy === "price_asc") return a.price - b.price;
+      if (sortBy === "price_desc") return b.price - a.price;
+      return itemFilter ? 0 : b.createdAt - a.createdAt;
+    });
+
+  const renderListingRow = (listing: MarketListing, action: JSX.Element | null, detail?: JSX.Element) => (
+    <Card key={listing.id} data-testid={`card-listing-${listing.id}`}>
+      <CardContent className="p-3 flex items-center gap-3">
+        <img src={listing.itemImageUrl} alt={listing.itemName} className="w-12 h-12 rounded object-cover flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <button
+            className="font-semibold text-sm truncate hover:underline text-left"
+            onClick={() => setItemFilter({ itemId: listing.itemId, itemName: listing.itemName })}
+            data-testid={`button-filter-item-${listing.id}`}
+          >
+            {listing.itemName}
+          </button>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="outline" className={`${getRarityClass(listing.itemRarity)} text-[8px] px-1`}>
+              {listing.itemRarity}
+            </Badge>
+            <span className="flex items-center"><Hash className="w-3 h-3" />{listing.serialNumber}</span>
+            <span>Value {formatValue(listing.itemValue)}</span>
+          </div>
+          {detail ?? <p className="text-xs text-muted-foreground">Listed by {listing.sellerUsername}</p>}
+        </div>
+        <div className="text-right space-y-1">
+          <p className="font-bold text-primary tabular-nums">R${listing.price.toLocaleString()}</p>
+          {action}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const renderEmpty = (message: string) => (
+    <Card>
+      <CardContent className="p-8 text-center">
+        <Store className="w-12 h-12 mx-auto mb-4 opacity-20" />
+        <p className="text-muted-foreground">{message}</p>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="container mx-auto p-3 md:p-6 max-w-7xl">
+      <div className="mb-4 md:mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight mb-2 flex items-center gap-2">
+            <Store className="w-6 h-6 md:w-8 md:h-8" />
+            Marketplace
+          </h1>
+          <p className="text-sm md:text-base text-muted-foreground">Buy limited serials from other players at a fixed price</p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)} data-testid="button-create-listing-open">
+          <Plus className="w-4 h-4 mr-2" />
+          List Item
+        </Button>
+      </div>
+
+      <Tabs defaultValue="browse" className="space-y-4">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="browse" data-testid="tab-market-browse" className="text-xs md:text-sm">
+            Browse
+          </TabsTrigger>
+          <TabsTrigger value="mine" data-testid="tab-market-mine" className="text-xs md:text-sm">
+            My Listings ({myListings.length})
+          </TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-market-history" className="text-xs md:text-sm">
+            History
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="browse" className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by item..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+                data-testid="input-search-listings"
+              />
+            </div>
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortOption)}>
+              <SelectTrigger className="w-full sm:w-48" data-testid="select-listing-sort">
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">{itemFilter ? "Cheapest first" : "Newest first"}</SelectItem>
+                <SelectItem value="price_asc">Price: Low to High</SelectItem>
+                <SelectItem value="price_desc">Price: High to Low</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {itemFilter && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Showing all listings of</span>
+              <Badge variant="secondary" className="gap-1">
+                {itemFilter.itemName}
+                <button onClick={() => setItemFilter(null)} data-testid="button-clear-item-filter">
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            </div>
+          )}
+
+          {loading ? (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <Clock className="w-12 h-12 mx-auto mb-4 opacity-20 animate-spin" />
+                <p className="text-muted-foreground">Loading listings...</p>
+              </CardContent>
+            </Card>
+          ) : visibleListings.length === 0 ? (
+            renderEmpty(listings.length === 0 ? "No items for sale right now" : "No listings match your search")
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {visibleListings.map((listing) =>
+                renderListingRow(
+                  listing,
+                  listing.sellerId === user?.firebaseUid ? (
+                    <Badge variant="outline">Your listing</Badge>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => setConfirmBuy(listing)}
+                      disabled={processingId === listing.id || (user?.cash ?? 0) < listing.price}
+                      data-testid={`button-buy-listing-${listing.id}`}
+                    >
+                      <ShoppingCart className="w-3 h-3 mr-1" />
+                      Buy
+                    </Button>
+                  )
+                )
+              )}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="mine" className="space-y-3">
+          {myListings.length === 0 ? (
+            renderEmpty("You have no active listings")
+          ) : (
+            myListings.map((listing) =>
+              renderListingRow(
+                listing,
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleCancel(listing)}
+                  disabled={processingId === listing.id}
+                  data-testid={`button-cancel-listing-${listing.id}`}
+                >
+                  <X className="w-3 h-3 mr-1" />
+                  Cancel
+                </Button>,
+                <p className="text-xs text-muted-foreground">Listed {new Date(listing.createdAt).toLocaleDateString()}</p>
+              )
+            )
+          )}
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-3">
+          {history.length === 0 ? (
+            renderEmpty("No purchases or sales yet")
+          ) : (
+            history.map((listing) => {
+              const bought = listing.buyerId === user?.firebaseUid;
+              return renderListingRow(
+                listing,
+                <Badge variant={bought ? "secondary" : "default"}>{bought ? "Bought" : "Sold"}</Badge>,
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <History className="w-3 h-3" />
+                  {bought
+                    ? `From ${listing.sellerUsername}`
+                    : `To ${listing.buyerUsername} • You received R$${(listing.sellerEarned || 0).toLocaleString()}`}
+                  {" • "}{new Date(listing.soldAt || listing.updatedAt).toLocaleDateString()}
+                </p>
+              );
+            })
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <CreateListingDialog open={createOpen} onOpenChange={setCreateOpen} onCreated={loadMarket} />
+
+      <AlertDialog open={confirmBuy !== null} onOpenChange={(open) => !open && setConfirmBuy(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Buy {confirmBuy?.itemName} #{confirmBuy?.serialNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will pay R${confirmBuy?.price.toLocaleString()} to {confirmBuy?.sellerUsername}. The item's listed value is {formatValue(confirmBuy?.itemValue || 0)}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => confirmBuy && handleBuy(confirmBuy)} data-testid="button-confirm-buy">
+              Buy
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -5,22 +5,26 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import type { Item } from "@shared/schema";
+import { calculateBundlePrice, isUnreleased, type Item, type RollResult } from "@shared/schema";
 import { useAuth } from "@/contexts/AuthContext";
 import { SlotMachineRoll } from "@/components/SlotMachineRoll";
 import { RarityAnimationOverlay } from "@/components/RarityAnimationOverlay";
+import { LuckEventBanner } from "@/components/LuckEventBanner";
+import { PityProgress } from "@/components/PityProgress";
 import { getRarityClass, getRarityGlow, formatValue } from "@/lib/rarity";
-import { Dices, Loader2, TrendingUp, Package, Gem, Hash } from "lucide-react";
+import { Dices, Loader2, TrendingUp, Package, Gem, Hash, Layers } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useToast } from "@/hooks/use-toast";
+import { useGameConfig } from "@/hooks/use-game-config";
 import type { RarityTier } from "@shared/schema";
 
+const AUTO_ROLL_BATCH_SIZE = 10; // Rolls fetched per auto-roll request
+
 interface UserStats {
   totalRolls: number;
   totalItems: number;
   uniqueItems: number;
   totalValue: number;
-  rarestItem: { item: Item; count: number } | null;
 }
 
 interface SavedRoll {
@@ -37,82 +41,37 @@ interface SavedRoll {
 export default function RollScreen() {
   const { user, refetchUser } = useAuth();
   const { toast } = useToast();
+  const { rollPrice, rollBundles } = useGameConfig();
   const [items, setItems] = useState<Item[]>([]);
   const [rolling, setRolling] = useState(false);
   const [autoRoll, setAutoRoll] = useState(false);
   const [rolledItem, setRolledItem] = useState<Item | null>(null);
+  const [lastRoll, setLastRoll] = useState<RollResult | null>(null);
   const [bestRolls, setBestRolls] = useState<SavedRoll[]>([]);
   const [globalRolls, setGlobalRolls] = useState<SavedRoll[]>([]);
   const [isAnimating, setIsAnimating] = useState(false);
   const [showRarityAnimation, setShowRarityAnimation] = useState(false);
-  const [userStats, setUserStats] = useState<UserStats>({
-    totalRolls: 0,
-    totalItems: 0,
-    uniqueItems: 0,
-    totalValue: 0,
-    rarestItem: null,
-  });
   const rollingRef = useRef(false);
   const autoRollRef = useRef(false);
   const autoRollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const hasLoadedRef = useRef(false);
+  const rollQueueRef = useRef<RollResult[]>([]); // Bundle results still waiting to be animated
 
   useEffect(() => {
     if (!hasLoadedRef.current && user) {
       loadItems();
       loadBestRolls();
       loadGlobalRolls();
-      loadUserStats();
       hasLoadedRef.current = true;
     }
   }, [user]);
 
-  const loadUserStats = async () => {
-    if (!user) return;
-
-    const inventory = user.inventory || [];
-    const itemIdCounts = new Map<string, number>();
-    const uniqueItemIds = new Set<string>();
-
-    inventory.forEach((invItem) => {
-      const itemId = invItem.itemId;
-      const amount = invItem.amount || 1;
-      uniqueItemIds.add(itemId);
-      itemIdCounts.set(itemId, (itemIdCounts.get(itemId) || 0) + amount);
-    });
-
-    const { itemsCache } = await import("@/lib/itemsCache");
-    const items = await Promise.all(
-      Array.from(uniqueItemIds).map(async (itemId) => {
-        return await itemsCache.getItem(itemId);
-      })
-    ).then(results => results.filter((item): item is Item => item !== null));
-
-    const itemCounts = new Map<string, { item: Item; count: number }>();
-    let totalValue = 0;
-    let totalItems = 0;
-
-    items.forEach((item) => {
-      const count = itemIdCounts.get(item.id) || 0;
-      totalValue += item.value * count;
-      totalItems += count;
-      itemCounts.set(item.id, { item, count });
-    });
-
-    let rarestItem: { item: Item; count: number } | null = null;
-    for (const itemData of Array.from(itemCounts.values())) {
-      if (!rarestItem || itemData.item.value > rarestItem.item.value) {
-        rarestItem = itemData;
-      }
-    }
-
-    setUserStats({
-      totalRolls: user.rollCount || 0,
-      totalItems,
-      uniqueItems: itemCounts.size,
-      totalValue,
-      rarestItem,
-    });
+  // Aggregates the server keeps on the user document; refetchUser picks up each roll's changes
+  const userStats: UserStats = {
+    totalRolls: user?.rollCount || 0,
+    totalItems: user?.itemCount || 0,
+    uniqueItems: user?.uniqueItemCount || 0,
+    totalValue: user?.inventoryValue || 0,
   };
 
   const loadItems = async () => {
@@ -121,7 +80,7 @@ export default function RollScreen() {
     const loadedItems: Item[] = [];
     
     itemsMap.forEach((item) => {
-      if (!item.offSale && (item.stockType === "infinite" || (item.remainingStock && item.remainingStock > 0))) {
+      if (!item.offSale && !isUnreleased(item) && (item.stockType === "infinite" || (item.remainingStock && item.remainingStock > 0))) {
         loadedItems.push(item);
       }
     });
@@ -191,7 +150,7 @@ export default function RollScreen() {
         });
       }
 
-      // Note: Global rolls >= 2.5M are already handled in rollService transaction
+      // Note: Global rolls >= 2.5M are already written by the /api/roll transaction
       // No need to duplicate here - just reload to show the new roll
       if (item.value >= 2500000) {
         await loadGlobalRolls();
@@ -201,6 +160,13 @@ export default function RollScreen() {
     }
   };
 
+  // Starts the slot machine for one result; bundle results are shown one after another
+  const showRoll = useCallback((result: RollResult) => {
+    setLastRoll(result);
+    setRolledItem(result.item);
+    setIsAnimating(true);
+  }, []);
+
   const handleAnimationComplete = useCallback(async () => {
     if (!rolledItem || !user) return;
     
@@ -212,16 +178,14 @@ export default function RollScreen() {
       setShowRarityAnimation(true);
     } else {
       // For COMMON items, complete immediately without animation
-      const serialNumber = rolledItem.stockType === "limited" ? 
-        user.inventory?.find(inv => inv.itemId === rolledItem.id)?.serialNumber : undefined;
+      const serialNumber = lastRoll?.serialNumber ?? undefined;
       
       await saveRollToDatabase(rolledItem, serialNumber);
       
-      const wasAutoSold = user.settings?.autoSellRarities?.includes(rolledItem.rarity);
-      if (wasAutoSold) {
+      if (lastRoll?.autoSold) {
         toast({
           title: "Auto-Sold!",
-          description: `${rolledItem.name} - Earned ${formatValue(rolledItem.value)}`,
+          description: `${rolledItem.name} - Earned ${formatValue(lastRoll.playerEarned ?? 0)}`,
         });
       } else {
         toast({
@@ -230,9 +194,14 @@ export default function RollScreen() {
         });
       }
 
+      const next = rollQueueRef.current.shift();
+      if (next) {
+        showRoll(next);
+        return;
+      }
+
       await Promise.all([
         loadItems(),
-        loadUserStats(),
         refetchUser(),
       ]);
       
@@ -240,7 +209,7 @@ export default function RollScreen() {
       setRolling(false);
       rollingRef.current = false;
     }
-  }, [rolledItem, user, toast, refetchUser, loadItems, loadUserStats, loadBestRolls]);
+  }, [rolledItem, lastRoll, user, toast, refetchUser, loadItems, loadBestRolls, showRoll]);
 
   const handleRarityAnimationComplete = useCallback(async () => {
     if (!rolledItem || !user) return;
@@ -248,17 +217,15 @@ export default function RollScreen() {
     setShowRarityAnimation(false);
     
     // Save to database and update UI for UNCOMMON+ items
-    const serialNumber = rolledItem.stockType === "limited" ? 
-      user.inventory?.find(inv => inv.itemId === rolledItem.id)?.serialNumber : undefined;
+    const serialNumber = lastRoll?.serialNumber ?? undefined;
     
     await saveRollToDatabase(rolledItem, serialNumber);
     
-    // Show toast based on whether item was auto-sold
-    const wasAutoSold = user.settings?.autoSellRarities?.includes(rolledItem.rarity);
-    if (wasAutoSold) {
+    // Show toast based on whether the server auto-sold the item
+    if (lastRoll?.autoSold) {
       toast({
         title: "Auto-Sold!",
-        description: `${rolledItem.name} - Earned ${formatValue(rolledItem.value)}`,
+        description: `${rolledItem.name} - Earned ${formatValue(lastRoll.playerEarned ?? 0)}`,
       });
     } else {
       toast({
@@ -267,16 +234,21 @@ export default function RollScreen() {
       });
     }
 
+    const next = rollQueueRef.current.shift();
+    if (next) {
+      showRoll(next);
+      return;
+    }
+
     await Promise.all([
       loadItems(),
-      loadUserStats(),
       refetchUser(),
     ]);
     
     loadBestRolls();
     setRolling(false);
     rollingRef.current = false;
-  }, [rolledItem, user, toast, saveRollToDatabase, loadItems, loadUserStats, refetchUser, loadBestRolls]);
+  }, [rolledItem, lastRoll, user, toast, saveRollToDatabase, loadItems, refetchUser, loadBestRolls, showRoll]);
 
   const performRoll = useCallback(async () => {
     if (!user || rolling || rollingRef.current) return;
@@ -286,10 +258,9 @@ export default function RollScreen() {
 
     try {
       const { performRoll: executeRoll } = await import("@/lib/rollService");
-      const result = await executeRoll(user);
+      const result = await executeRoll();
       
-      setRolledItem(result.item);
-      setIsAnimating(true);
+      showRoll(result);
       
       // Animation complete handler will be called by SlotMachineRoll component
       // No need to wait here - the callback handles everything smoothly
@@ -299,13 +270,54 @@ export default function RollScreen() {
       setIsAnimating(false);
       setRolling(false);
       rollingRef.current = false;
+      // Stop auto-roll so a lasting failure (e.g. out of cash) doesn't retry forever
+      autoRollRef.current = false;
+      setAutoRoll(false);
       toast({
         title: "Roll failed",
         description: error.message || "An error occurred",
         variant: "destructive",
       });
     }
-  }, [user, rolling, toast]);
+  }, [user, rolling, toast, showRoll]);
+
+  // Bundles and auto-roll fetch several results at once and play them in sequence
+  const performBatch = useCallback(async (rolls: number, source: "bundle" | "auto") => {
+    if (!user || rolling || rollingRef.current) return;
+
+    rollingRef.current = true;
+    setRolling(true);
+
+    try {
+      const { performRollBundle, performRolls } = await import("@/lib/rollService");
+      const { results, totalCost, error } = source === "bundle"
+        ? await performRollBundle(rolls)
+        : await performRolls(rolls);
+
+      // Auto-roll just asks for the next batch; a lasting problem fails that request
+      if (source === "bundle" && results.length < rolls) {
+        toast({
+          title: "Bundle stopped early",
+          description: `Only ${results.length} of ${rolls} rolls went through${error ? ` (${error})` : ""}. You were charged R$${totalCost.toLocaleString()} for those.`,
+        });
+      }
+
+      rollQueueRef.current = results.slice(1);
+      showRoll(results[0]);
+    } catch (error: any) {
+      console.error("Batch roll error:", error);
+      setIsAnimating(false);
+      setRolling(false);
+      rollingRef.current = false;
+      autoRollRef.current = false;
+      setAutoRoll(false);
+      toast({
+        title: "Roll failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    }
+  }, [user, rolling, toast, showRoll]);
 
   useEffect(() => {
     autoRollRef.current = autoRoll;
@@ -316,7 +328,7 @@ export default function RollScreen() {
     
     const tryAutoRoll = async () => {
       if (!autoRollRef.current || rollingRef.current || showRarityAnimation) return;
-      await performRoll();
+      await performBatch(AUTO_ROLL_BATCH_SIZE, "auto");
       if (autoRollRef.current && !rollingRef.current && !showRarityAnimation) {
         autoRollTimeoutRef.current = setTimeout(tryAutoRoll, 100);
       }
@@ -330,7 +342,7 @@ export default function RollScreen() {
         autoRollTimeoutRef.current = null;
       }
     };
-  }, [autoRoll, rolling, showRarityAnimation]);
+  }, [autoRoll, rolling, showRarityAnimation, performBatch]);
 
   const rarityClass = rolledItem ? getRarityClass(rolledItem.rarity) : "";
   const rarityGlow = rolledItem ? getRarityGlow(rolledItem.rarity) : "";
@@ -361,6 +373,7 @@ export default function RollScreen() {
       )}
 
       <div className="container mx-auto p-4 md:p-6 max-w-7xl space-y-4 md:space-y-6">
+      <LuckEventBanner />
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">Your Stats</CardTitle>
@@ -477,11 +490,35 @@ export default function RollScreen() {
               ) : (
                 <>
                   <Dices className="w-5 h-5 md:w-6 md:h-6 mr-2" />
-                  Roll
+                  Roll{rollPrice > 0 && ` • R$${rollPrice.toLocaleString()}`}
                 </>
               )}
             </Button>
 
+            {rollBundles.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {rollBundles.map((bundle) => (
+                  <Button
+                    key={bundle.rolls}
+                    variant="outline"
+                    onClick={() => performBatch(bundle.rolls, "bundle")}
+                    disabled={rolling || autoRoll || items.length === 0}
+                    className="flex-1"
+                    data-testid={`button-roll-bundle-${bundle.rolls}`}
+                  >
+                    <Layers className="w-4 h-4 mr-2" />
+                    {bundle.rolls}x Roll
+                    {rollPrice > 0 && (
+                      <span className="ml-2 text-muted-foreground">
+                        R${calculateBundlePrice(rollPrice, bundle).toLocaleString()}
+                        {bundle.discountRate > 0 && ` (-${Math.round(bundle.discountRate * 100)}%)`}
+                      </span>
+                    )}
+                  </Button>
+                ))}
+              </div>
+            )}
+
             <div className="flex items-center justify-between p-3 md:p-4 bg-muted rounded-lg">
               <Label htmlFor="auto-roll" className="cursor-pointer text-sm md:text-base">
                 Auto Roll
@@ -504,6 +541,8 @@ export default function RollScreen() {
         </CardContent>
       </Card>
 
+      <PityProgress />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
         <Card>
           <CardHeader>
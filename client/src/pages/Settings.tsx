@@ -11,19 +11,29 @@ import { RARITY_TIERS, type RarityTier } from "@shared/schema";
 import { doc, updateDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useToast } from "@/hooks/use-toast";
-import { Settings as SettingsIcon, DollarSign, Save, User } from "lucide-react";
+import { useGameConfig } from "@/hooks/use-game-config";
+import { Settings as SettingsIcon, DollarSign, Save, User, ShieldCheck, RefreshCw, ExternalLink, AlertTriangle } from "lucide-react";
 import { getRarityColor } from "@/lib/rarity";
 import { Badge } from "@/components/ui/badge";
+import { getSeedInfo, rotateSeed, type SeedInfo } from "@/lib/fairness";
+import type { RevealedSeed } from "@shared/fairness";
+import { WarningHistory } from "@/components/WarningHistory";
 
 export default function Settings() {
   const { user, refetchUser } = useAuth();
   const { toast } = useToast();
+  const { sellFeeRate } = useGameConfig();
+  const feePercent = Math.round(sellFeeRate * 100);
   const [activeTab, setActiveTab] = useState("profile");
   const [autoSellRarities, setAutoSellRarities] = useState<RarityTier[]>([]);
   const [customStatus, setCustomStatus] = useState("");
   const [description, setDescription] = useState("");
   const [saving, setSaving] = useState(false);
   const [savingProfile, setSavingProfile] = useState(false);
+  const [seedInfo, setSeedInfo] = useState<SeedInfo | null>(null);
+  const [newClientSeed, setNewClientSeed] = useState("");
+  const [lastRevealed, setLastRevealed] = useState<RevealedSeed | null>(null);
+  const [rotating, setRotating] = useState(false);
 
   // Update local state when user data changes
   useEffect(() => {
@@ -34,6 +44,43 @@ export default function Settings() {
     }
   }, [user]);
 
+  // Seed info is only loaded once the fairness tab is opened; the nonce changes on every roll
+  useEffect(() => {
+    if (activeTab !== "fairness") return;
+
+    getSeedInfo()
+      .then(setSeedInfo)
+      .catch((error) => console.error("Load seed info error:", error));
+  }, [activeTab]);
+
+  const handleRotateSeed = async () => {
+    setRotating(true);
+    try {
+      const result = await rotateSeed(newClientSeed.trim() || undefined);
+      setSeedInfo({
+        serverSeedHash: result.serverSeedHash,
+        clientSeed: result.clientSeed,
+        nonce: result.nonce,
+      });
+      setLastRevealed(result.revealed);
+      setNewClientSeed("");
+
+      toast({
+        title: "Seed rotated",
+        description: "Your previous server seed has been revealed",
+      });
+    } catch (error: any) {
+      console.error("Rotate seed error:", error);
+      toast({
+        title: "Rotate failed",
+        description: error.message || "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setRotating(false);
+    }
+  };
+
   const toggleRarity = (rarity: RarityTier) => {
     setAutoSellRarities((prev) => {
       if (prev.includes(rarity)) {
@@ -118,7 +165,7 @@ export default function Settings() {
 
       <div className="space-y-4">
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsList className="grid w-full grid-cols-4 mb-4">
             <TabsTrigger value="profile" data-testid="tab-profile-settings" className="text-xs md:text-sm">
               <User className="w-4 h-4 mr-1 md:mr-2" />
               <span className="hidden sm:inline">Profile</span>
@@ -129,6 +176,16 @@ export default function Settings() {
               <span className="hidden sm:inline">Sell Settings</span>
               <span className="sm:hidden">Sell</span>
             </TabsTrigger>
+            <TabsTrigger value="fairness" data-testid="tab-fairness-settings" className="text-xs md:text-sm">
+              <ShieldCheck className="w-4 h-4 mr-1 md:mr-2" />
+              <span className="hidden sm:inline">Provably Fair</span>
+              <span className="sm:hidden">Fair</span>
+            </TabsTrigger>
+            <TabsTrigger value="warnings" data-testid="tab-warnings" className="text-xs md:text-sm">
+              <AlertTriangle className="w-4 h-4 mr-1 md:mr-2" />
+              <span className="hidden sm:inline">Warnings</span>
+              <span className="sm:hidden">Warns</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="profile" className="mt-0">
@@ -194,7 +251,7 @@ export default function Settings() {
                   <CardTitle className="text-base md:text-lg">Auto-Sell Settings</CardTitle>
                   <CardDescription className="text-xs md:text-sm">
                     Automatically sell items when you roll them based on their rarity.
-                    You'll receive 80% of the item value.
+                    You'll receive {100 - feePercent}% of the item value.
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4 px-4 md:px-6 pb-4 md:pb-6">
@@ -259,7 +316,7 @@ export default function Settings() {
                       <CardContent className="p-3 md:p-4">
                         <p className="text-xs md:text-sm text-muted-foreground">
                           <strong>Note:</strong> When you roll an item with any of the selected rarities, 
-                          it will be automatically sold for 80% of its value. The remaining 20% goes to the admin account.
+                          it will be automatically sold for {100 - feePercent}% of its value. The remaining {feePercent}% goes to the admin account.
                         </p>
                       </CardContent>
                     </Card>
@@ -267,6 +324,99 @@ export default function Settings() {
                 </CardContent>
               </Card>
           </TabsContent>
+
+          <TabsContent value="fairness" className="mt-0">
+            <Card>
+              <CardHeader className="px-4 md:px-6 py-4 md:py-6">
+                <CardTitle className="text-base md:text-lg">Provably Fair Rolls</CardTitle>
+                <CardDescription className="text-xs md:text-sm">
+                  Every roll is derived from a secret server seed, your client seed and a nonce.
+                  The server seed's hash is shown up front; rotate to reveal the seed and verify past rolls.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4 px-4 md:px-6 pb-4 md:pb-6">
+                <div className="space-y-2">
+                  <Label className="text-sm md:text-base">Server Seed Hash</Label>
+                  <p className="font-mono text-xs break-all p-2 rounded-md border bg-muted/50" data-testid="text-server-seed-hash">
+                    {seedInfo?.serverSeedHash || "Loading..."}
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-sm md:text-base">Client Seed</Label>
+                    <p className="font-mono text-xs break-all p-2 rounded-md border bg-muted/50" data-testid="text-client-seed">
+                      {seedInfo?.clientSeed || "-"}
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-sm md:text-base">Nonce</Label>
+                    <p className="font-mono text-xs p-2 rounded-md border bg-muted/50" data-testid="text-nonce">
+                      {seedInfo?.nonce ?? "-"}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="new-client-seed" className="text-sm md:text-base">New Client Seed (optional)</Label>
+                  <Input
+                    id="new-client-seed"
+                    placeholder="Leave empty for a random seed"
+                    value={newClientSeed}
+                    onChange={(e) => setNewClientSeed(e.target.value.slice(0, 64))}
+                    maxLength={64}
+                    className="font-mono text-sm"
+                    data-testid="input-new-client-seed"
+                  />
+                </div>
+
+                <div className="flex gap-3 pt-4 border-t">
+                  <Button
+                    onClick={handleRotateSeed}
+                    disabled={rotating}
+                    className="flex-1 text-sm md:text-base"
+                    data-testid="button-rotate-seed"
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${rotating ? "animate-spin" : ""}`} />
+                    {rotating ? "Rotating..." : "Rotate Seed"}
+                  </Button>
+                </div>
+
+                {lastRevealed && (
+                  <Card className="bg-muted/50">
+                    <CardContent className="p-3 md:p-4 space-y-2">
+                      <p className="text-xs md:text-sm text-muted-foreground">
+                        <strong>Revealed server seed</strong> ({lastRevealed.finalNonce} rolls):
+                      </p>
+                      <p className="font-mono text-xs break-all" data-testid="text-revealed-seed">
+                        {lastRevealed.serverSeed}
+                      </p>
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={`/verify?seed=${lastRevealed.serverSeed}`} target="_blank" rel="noreferrer" data-testid="link-verify-seed">
+                          <ExternalLink className="w-4 h-4 mr-2" />
+                          Verify these rolls
+                        </a>
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="warnings" className="mt-0">
+            <Card>
+              <CardHeader className="px-4 md:px-6 py-4 md:py-6">
+                <CardTitle className="text-base md:text-lg">Active Warnings</CardTitle>
+                <CardDescription className="text-xs md:text-sm">
+                  Warnings from moderators add points until they expire. Collecting too many active points leads to an automatic temporary ban.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="px-4 md:px-6 pb-4 md:pb-6">
+                {user && <WarningHistory userId={user.id} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
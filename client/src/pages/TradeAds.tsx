@@ -0,0 +1,283 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { collection, query, orderBy, limit, doc } from "firebase/firestore";
+import { db, getDocs, getDoc } from "@/lib/firebase";
+import { deleteTradeAd } from "@/lib/tradeService";
+import { formatValue, getRarityClass } from "@/lib/rarity";
+import { RARITY_TIERS, type TradeAd, type User } from "@shared/schema";
+import { TradeModal, type TradePrefill } from "@/components/TradeModal";
+import { CreateTradeAdDialog } from "@/components/CreateTradeAdDialog";
+import { Megaphone, Search, Send, Trash2, Hash, Clock, Plus } from "lucide-react";
+
+const ADS_TO_LOAD = 100;
+
+type AdItem = TradeAd["lookingFor"][number] & { serialNumber?: number | null; amount?: number };
+
+export default function TradeAds() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [ads, setAds] = useState<TradeAd[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [rarityFilter, setRarityFilter] = useState<string>("all");
+  const [sideFilter, setSideFilter] = useState<string>("any");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [processingAdId, setProcessingAdId] = useState<string | null>(null);
+  const [offerTarget, setOfferTarget] = useState<{ poster: User; prefill: TradePrefill } | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadAds();
+    }
+  }, [user]);
+
+  const loadAds = async () => {
+    setLoading(true);
+    try {
+      const snapshot = await getDocs(query(collection(db, "tradeAds"), orderBy("createdAt", "desc"), limit(ADS_TO_LOAD)));
+      const loaded: TradeAd[] = [];
+      snapshot.forEach((adDoc) => {
+        loaded.push({ id: adDoc.id, ...adDoc.data() } as TradeAd);
+      });
+      setAds(loaded);
+    } catch (error) {
+      console.error("Error loading trade ads:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load trade ads",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendOffer = async (ad: TradeAd) => {
+    setProcessingAdId(ad.id);
+    try {
+      const posterDoc = await getDoc(doc(db, "users", ad.userId));
+      if (!posterDoc.exists()) {
+        throw new Error("This player no longer exists");
+      }
+
+      setOfferTarget({
+        poster: { id: posterDoc.id, ...posterDoc.data() } as User,
+        prefill: {
+          // Offer one of each wanted item we own, and request everything the ad offers
+          offerItems: ad.lookingFor.map((item) => ({ itemId: item.itemId, amount: 1 })),
+          requestItems: ad.offering,
+        },
+      });
+    } catch (error) {
+      console.error("Error opening offer:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open trade",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingAdId(null);
+    }
+  };
+
+  const handleRemoveAd = async (ad: TradeAd) => {
+    setProcessingAdId(ad.id);
+    try {
+      await deleteTradeAd(ad.id);
+      setAds((current) => current.filter((existing) => existing.id !== ad.id));
+      toast({
+        title: "Trade ad removed",
+      });
+    } catch (error) {
+      console.error("Error removing trade ad:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove trade ad",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingAdId(null);
+    }
+  };
+
+  const matchesFilters = (items: AdItem[]) => {
+    const searchWords = searchTerm.toLowerCase().trim().split(/\s+/).filter(Boolean);
+    return items.some((item) =>
+      (rarityFilter === "all" || item.itemRarity === rarityFilter) &&
+      searchWords.every((word) => item.itemName.toLowerCase().includes(word))
+    );
+  };
+
+  const filteredAds = ads.filter((ad) => {
+    if (!searchTerm && rarityFilter === "all") return true;
+    const inOffering = sideFilter !== "wanted" && matchesFilters(ad.offering);
+    const inWanted = sideFilter !== "offering" && matchesFilters(ad.lookingFor);
+    return inOffering || inWanted;
+  });
+
+  const renderItems = (items: AdItem[]) => (
+    <div className="space-y-1">
+      {items.map((item, idx) => (
+        <div key={idx} className="flex items-center gap-2 text-xs">
+          <img src={item.itemImageUrl} alt={item.itemName} className="w-8 h-8 rounded object-cover flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate">
+              {item.itemName}
+              {(item.amount || 1) > 1 && <span className="text-muted-foreground ml-1">x{item.amount}</span>}
+            </p>
+            <div className="flex items-center gap-1">
+              <Badge variant="outline" className={`${getRarityClass(item.itemRarity)} text-[8px] px-1`}>
+                {item.itemRarity}
+              </Badge>
+              {item.serialNumber !== undefined && item.serialNumber !== null && (
+                <span className="text-muted-foreground flex items-center"><Hash className="w-2.5 h-2.5" />{item.serialNumber}</span>
+              )}
+            </div>
+          </div>
+          <span className="text-muted-foreground whitespace-nowrap">{formatValue(item.itemValue * (item.amount || 1))}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto p-3 md:p-6 max-w-7xl">
+      <div className="mb-4 md:mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight mb-2 flex items-center gap-2">
+            <Megaphone className="w-6 h-6 md:w-8 md:h-8" />
+            Trade Ads
+          </h1>
+          <p className="text-sm md:text-base text-muted-foreground">See what players are offering and what they are looking for</p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)} data-testid="button-create-trade-ad">
+          <Plus className="w-4 h-4 mr-2" />
+          Post Ad
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by item..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+            data-testid="input-search-trade-ads"
+          />
+        </div>
+        <Select value={sideFilter} onValueChange={setSideFilter}>
+          <SelectTrigger className="w-full sm:w-48" data-testid="select-side-filter">
+            <SelectValue placeholder="Offering or wanted" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Offering or Wanted</SelectItem>
+            <SelectItem value="offering">Offering</SelectItem>
+            <SelectItem value="wanted">Looking For</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={rarityFilter} onValueChange={setRarityFilter}>
+          <SelectTrigger className="w-full sm:w-48" data-testid="select-rarity-filter-trade-ads">
+            <SelectValue placeholder="Filter by rarity" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Rarities</SelectItem>
+            {Object.keys(RARITY_TIERS).map((rarity) => (
+              <SelectItem key={rarity} value={rarity}>
+                {RARITY_TIERS[rarity as keyof typeof RARITY_TIERS].name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Clock className="w-12 h-12 mx-auto mb-4 opacity-20 animate-spin" />
+            <p className="text-muted-foreground">Loading trade ads...</p>
+          </CardContent>
+        </Card>
+      ) : filteredAds.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Megaphone className="w-12 h-12 mx-auto mb-4 opacity-20" />
+            <p className="text-muted-foreground">{ads.length === 0 ? "No trade ads yet" : "No ads match your filters"}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {filteredAds.map((ad) => {
+            const isOwn = ad.userId === user?.firebaseUid;
+            return (
+              <Card key={ad.id} data-testid={`card-trade-ad-${ad.id}`}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base">{ad.username}</CardTitle>
+                    <span className="text-xs text-muted-foreground">{new Date(ad.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  {ad.note && <p className="text-xs text-muted-foreground">{ad.note}</p>}
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <h4 className="text-xs font-semibold">Offering</h4>
+                      {renderItems(ad.offering)}
+                    </div>
+                    <div className="space-y-1">
+                      <h4 className="text-xs font-semibold">Looking For</h4>
+                      {ad.lookingFor.length > 0 ? renderItems(ad.lookingFor) : (
+                        <p className="text-xs text-muted-foreground">Open to offers</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="pt-2 border-t">
+                    {isOwn ? (
+                      <Button
+                        variant="outline"
+                        className="w-full text-sm"
+                        onClick={() => handleRemoveAd(ad)}
+                        disabled={processingAdId === ad.id}
+                        data-testid={`button-remove-trade-ad-${ad.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Remove Ad
+                      </Button>
+                    ) : (
+                      <Button
+                        className="w-full text-sm"
+                        onClick={() => handleSendOffer(ad)}
+                        disabled={processingAdId === ad.id}
+                        data-testid={`button-send-offer-${ad.id}`}
+                      >
+                        <Send className="w-4 h-4 mr-2" />
+                        Send Offer
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <CreateTradeAdDialog open={createOpen} onOpenChange={setCreateOpen} onCreated={loadAds} />
+
+      <TradeModal
+        open={offerTarget !== null}
+        onOpenChange={(open) => !open && setOfferTarget(null)}
+        targetUser={offerTarget?.poster ?? null}
+        prefill={offerTarget?.prefill ?? null}
+      />
+    </div>
+  );
+}
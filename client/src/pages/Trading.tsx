@@ -7,10 +7,24 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { collection, query, where, orderBy, doc } from "firebase/firestore";
-import { db, auth, getDocs, updateDoc } from "@/lib/firebase";
-import type { Trade } from "@shared/schema";
-import { ArrowLeftRight, Check, X, Clock, Archive, DollarSign, Hash } from "lucide-react";
+import { db, getDocs, getDoc } from "@/lib/firebase";
+import { acceptTrade, cancelTrade, declineTrade } from "@/lib/tradeService";
+import { getTradeRevisionDiffs } from "@/lib/tradeDiff";
+import type { Trade, User } from "@shared/schema";
+import { ArrowLeftRight, Check, X, Clock, Archive, DollarSign, Hash, Repeat, History, Flag, AlertTriangle } from "lucide-react";
 import { formatValue, getRarityClass } from "@/lib/rarity";
+import { TradeModal } from "@/components/TradeModal";
+import { ReportDialog } from "@/components/ReportDialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useGameConfig } from "@/hooks/use-game-config";
+import { itemsCache } from "@/lib/itemsCache";
+import { analyzeTrade, calculateWeightedValue, type TradeAnalysis } from "@/lib/tradeValue";
+
+const INACTIVE_REASON_LABELS: Record<NonNullable<Trade["inactiveReason"]>, string> = {
+  expired: "Expired",
+  items_unavailable: "Items no longer available",
+  cash_unavailable: "Cash no longer available",
+};
 
 export default function Trading() {
   const { user } = useAuth();
@@ -23,6 +37,10 @@ export default function Trading() {
   const [completedTrades, setCompletedTrades] = useState<Trade[]>([]);
   const [loading, setLoading] = useState(true);
   const [processingTradeId, setProcessingTradeId] = useState<string | null>(null);
+  const [counterTarget, setCounterTarget] = useState<{ trade: Trade; sender: User } | null>(null);
+  const [reportTarget, setReportTarget] = useState<{ tradeId: string; userId: string; username: string } | null>(null);
+  const [confirmAccept, setConfirmAccept] = useState<{ trade: Trade; analysis: TradeAnalysis } | null>(null);
+  const gameConfig = useGameConfig();
 
   useEffect(() => {
     if (user && !loadedRef.current) {
@@ -56,14 +74,14 @@ export default function Trading() {
       const inactiveSenderQuery = query(
         tradesRef,
         where("senderId", "==", user.firebaseUid),
-        where("status", "in", ["declined", "cancelled"]),
+        where("status", "in", ["declined", "cancelled", "inactive"]),
         orderBy("updatedAt", "desc")
       );
       
       const inactiveReceiverQuery = query(
         tradesRef,
         where("receiverId", "==", user.firebaseUid),
-        where("status", "in", ["declined", "cancelled"]),
+        where("status", "in", ["declined", "cancelled", "inactive"]),
         orderBy("updatedAt", "desc")
       );
       
@@ -148,27 +166,7 @@ export default function Trading() {
     setProcessingTradeId(trade.id);
     
     try {
-      // Get Firebase ID token for authentication
-      const currentUser = auth.currentUser;
-      if (!currentUser) {
-        throw new Error("Not authenticated");
-      }
-      
-      const idToken = await currentUser.getIdToken();
-      
-      // Call backend API to accept trade (uses admin privileges)
-      const response = await fetch(`/api/trades/${trade.id}/accept`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${idToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to accept trade");
-      }
+      await acceptTrade(trade.id);
 
       toast({
         title: "Trade Accepted",
@@ -188,17 +186,54 @@ export default function Trading() {
     }
   };
 
+  // Weighs the trade from the receiver's side, the same way TradeModal does for the sender
+  const analyzeInboundTrade = async (trade: Trade): Promise<TradeAnalysis> => {
+    const tradeItems = [...trade.receiverRequest.items, ...trade.senderOffer.items];
+    const itemsMap = await itemsCache.getItemsBatch(Array.from(new Set(tradeItems.map((item) => item.itemId))));
+    const weigh = (items: Trade["senderOffer"]["items"], cash: number) => calculateWeightedValue(
+      items.map((item) => {
+        const details = itemsMap.get(item.itemId);
+        return { ...item, stockType: details?.stockType ?? "infinite", totalStock: details?.totalStock ?? null };
+      }),
+      cash
+    );
+
+    return analyzeTrade(
+      weigh(trade.receiverRequest.items, trade.receiverRequest.cash),
+      weigh(trade.senderOffer.items, trade.senderOffer.cash),
+      gameConfig.lowballThreshold
+    );
+  };
+
+  // Asks for confirmation before accepting a trade that loses the user more than the lowball threshold
+  const handleAcceptClick = async (trade: Trade) => {
+    if (!user) return;
+
+    setProcessingTradeId(trade.id);
+
+    let analysis: TradeAnalysis | null = null;
+    try {
+      analysis = await analyzeInboundTrade(trade);
+    } catch (error) {
+      console.error("Error weighing trade:", error);
+    }
+
+    if (analysis?.lopsided === "overpay") {
+      setConfirmAccept({ trade, analysis });
+      setProcessingTradeId(null);
+      return;
+    }
+
+    await handleAcceptTrade(trade);
+  };
+
   const handleDeclineTrade = async (trade: Trade) => {
     if (!user) return;
     
     setProcessingTradeId(trade.id);
     
     try {
-      const tradeRef = doc(db, "trades", trade.id);
-      await updateDoc(tradeRef, {
-        status: "declined",
-        updatedAt: Date.now(),
-      });
+      await declineTrade(trade.id);
 
       toast({
         title: "Trade Declined",
@@ -210,7 +245,31 @@ export default function Trading() {
       console.error("Error declining trade:", error);
       toast({
         title: "Error",
-        description: "Failed to decline trade",
+        description: error instanceof Error ? error.message : "Failed to decline trade",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingTradeId(null);
+    }
+  };
+
+  const handleCounterTrade = async (trade: Trade) => {
+    if (!user) return;
+
+    setProcessingTradeId(trade.id);
+
+    try {
+      const senderDoc = await getDoc(doc(db, "users", trade.senderId));
+      if (!senderDoc.exists()) {
+        throw new Error("The other user no longer exists");
+      }
+
+      setCounterTarget({ trade, sender: { id: senderDoc.id, ...senderDoc.data() } as User });
+    } catch (error) {
+      console.error("Error opening counter-offer:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to open counter-offer",
         variant: "destructive",
       });
     } finally {
@@ -224,11 +283,7 @@ export default function Trading() {
     setProcessingTradeId(trade.id);
     
     try {
-      const tradeRef = doc(db, "trades", trade.id);
-      await updateDoc(tradeRef, {
-        status: "cancelled",
-        updatedAt: Date.now(),
-      });
+      await cancelTrade(trade.id);
 
       toast({
         title: "Trade Cancelled",
@@ -240,7 +295,7 @@ export default function Trading() {
       console.error("Error cancelling trade:", error);
       toast({
         title: "Error",
-        description: "Failed to cancel trade",
+        description: error instanceof Error ? error.message : "Failed to cancel trade",
         variant: "destructive",
       });
     } finally {
@@ -284,6 +339,7 @@ export default function Trading() {
 
   const renderTradeCard = (trade: Trade, isInbound: boolean, showActions: boolean) => {
     const otherUser = isInbound ? trade.senderUsername : trade.receiverUsername;
+    const otherUserId = isInbound ? trade.senderId : trade.receiverId;
     
     // Handle both old and new trade structure for backwards compatibility
     let offering: { items: any[], cash: number };
@@ -314,6 +370,8 @@ export default function Trading() {
     const groupedOfferItems = groupTradeItems(offering.items);
     const groupedRequestItems = groupTradeItems(requesting.items);
     
+    const revisionDiffs = getTradeRevisionDiffs(trade);
+
     const offerValue = offering.items.reduce((sum, item) => sum + (item.itemValue * (item.amount || 1)), 0) + offering.cash;
     const requestValue = requesting.items.reduce((sum, item) => sum + (item.itemValue * (item.amount || 1)), 0) + requesting.cash;
 
@@ -325,20 +383,38 @@ export default function Trading() {
               <ArrowLeftRight className="w-4 h-4 md:w-5 md:h-5" />
               Trade with {otherUser}
             </CardTitle>
-            <Badge
-              variant={
-                trade.status === "pending" ? "default" :
-                trade.status === "completed" ? "secondary" :
-                trade.status === "declined" ? "destructive" :
-                "outline"
-              }
-              data-testid={`badge-status-${trade.status}`}
-              className="text-xs w-fit"
-            >
-              {trade.status}
-            </Badge>
+            <div className="flex items-center gap-1">
+              <Badge
+                variant={
+                  trade.status === "pending" ? "default" :
+                  trade.status === "completed" ? "secondary" :
+                  trade.status === "declined" ? "destructive" :
+                  "outline"
+                }
+                data-testid={`badge-status-${trade.status}`}
+                className="text-xs w-fit"
+              >
+                {trade.status}
+              </Badge>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Report this trade"
+                onClick={() => setReportTarget({ tradeId: trade.id, userId: otherUserId, username: otherUser })}
+                data-testid={`button-report-trade-${trade.id}`}
+              >
+                <Flag className="w-3.5 h-3.5" />
+              </Button>
+            </div>
           </div>
           <p className="text-xs text-muted-foreground">{formatDate(trade.createdAt)}</p>
+          {trade.status === "inactive" && trade.inactiveReason && (
+            <p className="text-xs text-muted-foreground" data-testid={`text-inactive-reason-${trade.id}`}>
+              <span className="font-medium">{INACTIVE_REASON_LABELS[trade.inactiveReason]}</span>
+              {trade.inactiveDetail && ` — ${trade.inactiveDetail}`}
+            </p>
+          )}
         </CardHeader>
         <CardContent className="space-y-4 px-3 md:px-6 pb-3 md:pb-6">
           <div className="grid grid-cols-1 gap-4">
@@ -449,6 +525,53 @@ export default function Trading() {
             </div>
           </div>
 
+          {revisionDiffs.length > 0 && (
+            <div className="space-y-2 pt-2 border-t" data-testid={`trade-revisions-${trade.id}`}>
+              <h4 className="text-xs md:text-sm font-semibold flex items-center gap-1">
+                <History className="w-4 h-4" />
+                Counter-offers ({revisionDiffs.length})
+              </h4>
+              {revisionDiffs.map((diff) => (
+                <div key={diff.revision} className="text-xs border rounded-lg p-2 space-y-1">
+                  <p className="text-muted-foreground">
+                    Revision {diff.revision + 1} (changes from revision {diff.parentRevision + 1})
+                  </p>
+                  {diff.sides.map((side) => {
+                    const cashChanged = side.cashBefore !== side.cashAfter;
+                    if (side.items.length === 0 && !cashChanged) return null;
+
+                    return (
+                      <div key={side.userId}>
+                        <p className="font-medium">{side.userId === user?.firebaseUid ? "You give" : `${side.username} gives`}</p>
+                        <ul className="ml-3 space-y-0.5">
+                          {side.items.map((change) => (
+                            <li
+                              key={change.itemId}
+                              className={change.after > change.before ? "text-green-600" : change.after < change.before ? "text-red-600" : "text-muted-foreground"}
+                            >
+                              {change.before === 0 ? "+ " : change.after === 0 ? "− " : "~ "}
+                              {change.itemName}
+                              {change.before > 0 && change.after > 0 && ` x${change.before} → x${change.after}`}
+                              {change.before === 0 && change.after > 1 && ` x${change.after}`}
+                              {change.after === 0 && change.before > 1 && ` x${change.before}`}
+                              {change.serialsAdded.length > 0 && ` (+#${change.serialsAdded.join(", #")})`}
+                              {change.serialsRemoved.length > 0 && ` (−#${change.serialsRemoved.join(", #")})`}
+                            </li>
+                          ))}
+                          {cashChanged && (
+                            <li className={side.cashAfter > side.cashBefore ? "text-green-600" : "text-red-600"}>
+                              Cash R${side.cashBefore.toLocaleString()} → R${side.cashAfter.toLocaleString()}
+                            </li>
+                          )}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+
           {showActions && trade.status === "pending" && (
             <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t">
               {isInbound ? (
@@ -456,13 +579,23 @@ export default function Trading() {
                   <Button
                     variant="default"
                     className="flex-1 text-sm"
-                    onClick={() => handleAcceptTrade(trade)}
+                    onClick={() => handleAcceptClick(trade)}
                     disabled={processingTradeId === trade.id}
                     data-testid="button-accept-trade"
                   >
                     <Check className="w-4 h-4 mr-2" />
                     Accept
                   </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1 text-sm"
+                    onClick={() => handleCounterTrade(trade)}
+                    disabled={processingTradeId === trade.id}
+                    data-testid="button-counter-trade"
+                  >
+                    <Repeat className="w-4 h-4 mr-2" />
+                    Counter
+                  </Button>
                   <Button
                     variant="destructive"
                     className="flex-1 text-sm"
@@ -599,6 +732,54 @@ export default function Trading() {
           )}
         </TabsContent>
       </Tabs>
+
+      <TradeModal
+        open={counterTarget !== null}
+        onOpenChange={(open) => !open && setCounterTarget(null)}
+        targetUser={counterTarget?.sender ?? null}
+        counterOf={counterTarget?.trade ?? null}
+        onTradeSent={() => loadTrades(true)}
+      />
+
+      <ReportDialog
+        open={reportTarget !== null}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+        targetUserId={reportTarget?.userId ?? ""}
+        targetUsername={reportTarget?.username ?? ""}
+        tradeId={reportTarget?.tradeId}
+      />
+
+      <AlertDialog open={confirmAccept !== null} onOpenChange={(open) => !open && setConfirmAccept(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              Accept a lopsided trade?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmAccept && (
+                <>
+                  You give {formatValue(confirmAccept.analysis.giveValue)} and get {formatValue(confirmAccept.analysis.getValue)} ({confirmAccept.analysis.myGainPercent.toFixed(1)}%),
+                  {" "}losing more than {Math.round(gameConfig.lowballThreshold * 100)}% of what you give. Limited items are weighted by how few copies exist.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-accept-lowball">Go Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const trade = confirmAccept?.trade;
+                setConfirmAccept(null);
+                if (trade) handleAcceptTrade(trade);
+              }}
+              data-testid="button-confirm-accept-lowball"
+            >
+              Accept Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
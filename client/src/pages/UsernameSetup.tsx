@@ -64,7 +64,6 @@ export default function UsernameSetup() {
         settings: {
           autoSellRarities: [],
         },
-        inventory: [],
       });
 
       await refetchUser();
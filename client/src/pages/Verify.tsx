@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldCheck, CheckCircle2, XCircle, Loader2 } from "lucide-react";
+import { verifyServerSeed, type VerificationData, type VerifiedRoll } from "@/lib/fairness";
+
+// Public page - works without signing in so anyone can audit a revealed seed
+export default function Verify() {
+  const [serverSeed, setServerSeed] = useState(() => new URLSearchParams(window.location.search).get("seed") || "");
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [serverSeedHash, setServerSeedHash] = useState<string | null>(null);
+  const [data, setData] = useState<VerificationData | null>(null);
+  const [rolls, setRolls] = useState<VerifiedRoll[]>([]);
+
+  useEffect(() => {
+    document.title = "Verify Rolls - Limited Empire";
+    if (serverSeed) {
+      handleVerify();
+    }
+  }, []);
+
+  const handleVerify = async () => {
+    const seed = serverSeed.trim();
+    if (!seed) return;
+
+    setVerifying(true);
+    setError(null);
+    setData(null);
+    setRolls([]);
+    try {
+      const result = await verifyServerSeed(seed);
+      setServerSeedHash(result.serverSeedHash);
+      setData(result.data);
+      setRolls(result.rolls);
+    } catch (err: any) {
+      console.error("Verification error:", err);
+      setError(err.message || "Failed to verify seed");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const validCount = rolls.filter((roll) => roll.valid).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-3 md:p-6 max-w-5xl">
+        <div className="mb-4 md:mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight mb-2 flex items-center gap-2">
+            <ShieldCheck className="w-6 h-6 md:w-8 md:h-8" />
+            Verify Rolls
+          </h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            Paste a revealed server seed to recompute every roll made with it. All hashing happens in your browser.
+          </p>
+        </div>
+
+        <Card className="mb-4">
+          <CardHeader className="px-4 md:px-6 py-4 md:py-6">
+            <CardTitle className="text-base md:text-lg">Server Seed</CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              Each roll is HMAC-SHA256(server seed, "client seed:nonce") mapped onto the item pool that was live at the time.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 px-4 md:px-6 pb-4 md:pb-6">
+            <div className="space-y-2">
+              <Label htmlFor="verify-server-seed">Revealed server seed</Label>
+              <Input
+                id="verify-server-seed"
+                value={serverSeed}
+                onChange={(e) => setServerSeed(e.target.value)}
+                placeholder="64 hex characters"
+                className="font-mono text-xs md:text-sm"
+                data-testid="input-verify-server-seed"
+              />
+            </div>
+            <Button
+              onClick={handleVerify}
+              disabled={!serverSeed.trim() || verifying}
+              data-testid="button-verify-seed"
+            >
+              {verifying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+              {verifying ? "Verifying..." : "Verify"}
+            </Button>
+            {error && (
+              <p className="text-sm text-destructive" data-testid="text-verify-error">{error}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {data?.revealed && (
+          <Card>
+            <CardHeader className="px-4 md:px-6 py-4 md:py-6">
+              <CardTitle className="text-base md:text-lg flex items-center gap-2">
+                Results
+                <Badge variant={validCount === rolls.length ? "default" : "destructive"} data-testid="badge-verify-summary">
+                  {validCount}/{rolls.length} verified
+                </Badge>
+              </CardTitle>
+              <CardDescription className="text-xs md:text-sm space-y-1">
+                <span className="block font-mono break-all">Hash: {serverSeedHash}</span>
+                <span className="block font-mono break-all">Client seed: {data.revealed.clientSeed}</span>
+                <span className="block">
+                  Rolls with this seed: {data.revealed.finalNonce} • Revealed {new Date(data.revealed.revealedAt).toLocaleString()}
+                </span>
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="px-4 md:px-6 pb-4 md:pb-6">
+              {rolls.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No rolls were made with this seed.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Nonce</TableHead>
+                      <TableHead>Luck</TableHead>
+                      <TableHead>Recomputed Item</TableHead>
+                      <TableHead>Time</TableHead>
+                      <TableHead className="text-right">Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rolls.map(({ proof, expectedItem, valid }) => (
+                      <TableRow key={proof.nonce} data-testid={`row-verify-${proof.nonce}`}>
+                        <TableCell className="tabular-nums">{proof.nonce}</TableCell>
+                        <TableCell className="tabular-nums">
+                          {proof.luckMultiplier}x
+                          {proof.boosts && proof.boosts.length > 0 && (
+                            <span className="text-xs text-muted-foreground">
+                              {" "}+ {proof.boosts.map((boost) => `${boost.multiplier}x`).join(", ")} boost
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>{expectedItem ? expectedItem.name : "Snapshot missing"}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {new Date(proof.timestamp).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {valid ? (
+                            <CheckCircle2 className="w-4 h-4 text-green-500 inline" />
+                          ) : (
+                            <XCircle className="w-4 h-4 text-destructive inline" />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { getRarityFromValue, type AuditSnapshot, type CreateItemRequest, type GiveItemRequest, type Item, type UpdateItemRequest } from "@shared/schema";
+import { createAuditLog } from "./audit-log";
+import { getAdminDocId } from "./firebase-admin";
+import { createInventoryEntryId, getInfiniteStack, inventoryCollection, markInventoryChanged } from "./inventory";
+import { markItemRevalued } from "./inventory-stats";
+import { recordLedgerEntry } from "./ledger";
+import { notify } from "./moderation";
+import { rollableItemsCache } from "./rollable-items-cache";
+
+type EditableItemState = Extract<AuditSnapshot, { type: "item_edit" }>["before"];
+
+export function captureItemState(item: Omit<Item, "id">): EditableItemState {
+  return {
+    name: item.name,
+    description: item.description,
+    imageUrl: item.imageUrl,
+    value: item.value,
+    rarity: item.rarity,
+    offSale: item.offSale,
+    stockType: item.stockType,
+    totalStock: item.totalStock ?? null,
+    remainingStock: item.remainingStock ?? null,
+  };
+}
+
+// Gives one item to a user: stacks copies of infinite items, mints a new serial for
+// the others, or moves an existing serial from its current owner.
+export async function giveItem(db: Firestore, adminId: string, targetId: string, { itemId, quantity, transfer }: GiveItemRequest): Promise<void> {
+  const itemRef = db.collection("items").doc(itemId);
+  const userRef = db.collection("users").doc(targetId);
+  const adminRef = db.collection("users").doc(adminId);
+
+  const { adminData, target, item, snapshot } = await db.runTransaction(async (transaction) => {
+    const [itemDoc, targetDoc, adminDoc] = await transaction.getAll(itemRef, userRef, adminRef);
+    const item = itemDoc.data() as Omit<Item, "id"> | undefined;
+    const target = targetDoc.data();
+    const adminData = adminDoc.data();
+
+    if (!item || !target) {
+      throw new Error("Item or user not found");
+    }
+
+    if (!adminData) {
+      throw new Error("Admin not found");
+    }
+
+    const targetEntries = inventoryCollection(db, targetId);
+    const ownershipMarkerRef = itemRef.collection("owners").doc(target.firebaseUid);
+    let snapshot: Extract<AuditSnapshot, { type: "user_give_items" }>;
+
+    if (item.stockType === "infinite") {
+      if (transfer) {
+        throw new Error("Infinite items have no serials to transfer");
+      }
+
+      const stack = await getInfiniteStack(transaction, db, targetId, itemId);
+      const entryId = stack?.id ?? createInventoryEntryId(target.firebaseUid);
+
+      if (stack) {
+        transaction.update(stack.ref, {
+          amount: (stack.data()?.amount || 1) + quantity,
+        });
+      } else {
+        transaction.set(targetEntries.doc(entryId), {
+          id: entryId,
+          itemId,
+          serialNumber: null,
+          rolledAt: Date.now(),
+          amount: quantity,
+          nftLocked: false,
+        });
+      }
+
+      snapshot = { type: "user_give_items", itemId, entryId, amount: quantity, serialNumber: null, createdSerial: false };
+    } else if (transfer) {
+      if (target.userId === 1) {
+        throw new Error("Admin cannot receive items via serial transfer. Use Create Serial instead.");
+      }
+
+      if (transfer.fromUserId === targetId) {
+        throw new Error("This user already owns that serial");
+      }
+
+      const sourceEntryRef = inventoryCollection(db, transfer.fromUserId).doc(transfer.entryId);
+      const [sourceEntryDoc, ownershipDoc, sourceDoc] = await transaction.getAll(
+        sourceEntryRef,
+        ownershipMarkerRef,
+        db.collection("users").doc(transfer.fromUserId),
+      );
+      const entry = sourceEntryDoc.data();
+
+      if (!entry || entry.itemId !== itemId || entry.serialNumber === null || entry.serialNumber === undefined) {
+        throw new Error("Serial number not found in source user's inventory");
+      }
+
+      if (entry.serialNumber === 0) {
+        throw new Error("Serial #0 is reserved for Admin and cannot be transferred");
+      }
+
+      transaction.delete(sourceEntryRef);
+      transaction.set(targetEntries.doc(transfer.entryId), {
+        ...entry,
+        id: transfer.entryId,
+        nftLocked: entry.nftLocked || false,
+      });
+
+      if (!ownershipDoc.exists) {
+        transaction.set(ownershipMarkerRef, {
+          userId: target.firebaseUid,
+          username: target.username,
+          ownedAt: Date.now(),
+        });
+        transaction.update(itemRef, {
+          totalOwners: (item.totalOwners || 0) + 1,
+        });
+      }
+
+      snapshot = {
+        type: "user_give_items",
+        itemId,
+        entryId: transfer.entryId,
+        amount: 1,
+        serialNumber: entry.serialNumber,
+        createdSerial: false,
+        sourceUserId: transfer.fromUserId,
+      };
+
+      const sourceCash = sourceDoc.data()?.cash || 0;
+      recordLedgerEntry(transaction, db, {
+        userId: transfer.fromUserId,
+        type: "admin_give",
+        timestamp: Date.now(),
+        cashBefore: sourceCash,
+        cashAfter: sourceCash,
+        items: [{ itemId, itemName: item.name, serialNumber: entry.serialNumber, entryId: transfer.entryId, amount: -1 }],
+        counterpartyId: adminId,
+        counterpartyUsername: adminData.username,
+        details: { transferredTo: target.username },
+      });
+    } else {
+      const ownershipDoc = await transaction.get(ownershipMarkerRef);
+      const newTotalStock = (item.totalStock || 0) + 1;
+      const entryId = createInventoryEntryId(target.firebaseUid);
+
+      transaction.set(targetEntries.doc(entryId), {
+        id: entryId,
+        itemId,
+        serialNumber: newTotalStock,
+        rolledAt: Date.now(),
+        amount: 1,
+        nftLocked: false,
+      });
+
+      if (!ownershipDoc.exists) {
+        transaction.set(ownershipMarkerRef, {
+          userId: target.firebaseUid,
+          username: target.username,
+          ownedAt: Date.now(),
+        });
+      }
+
+      transaction.update(itemRef, {
+        totalStock: newTotalStock,
+        ...(!ownershipDoc.exists && { totalOwners: (item.totalOwners || 0) + 1 }),
+      });
+
+      snapshot = { type: "user_give_items", itemId, entryId, amount: 1, serialNumber: newTotalStock, createdSerial: true };
+    }
+
+    recordLedgerEntry(transaction, db, {
+      userId: targetId,
+      type: "admin_give",
+      timestamp: Date.now(),
+      cashBefore: target.cash || 0,
+      cashAfter: target.cash || 0,
+      items: [{ itemId, itemName: item.name, serialNumber: snapshot.serialNumber, entryId: snapshot.entryId, amount: snapshot.amount }],
+      counterpartyId: adminId,
+      counterpartyUsername: adminData.username,
+    });
+
+    await createAuditLog(db, {
+      timestamp: Date.now(),
+      adminId,
+      adminUsername: adminData.username,
+      actionType: "user_give_items",
+      targetUserId: targetId,
+      targetUsername: target.username,
+      details: {
+        mode: snapshot.sourceUserId ? "transfer" : snapshot.createdSerial ? "create" : "stack",
+        ...(snapshot.serialNumber !== null && { serialNumber: snapshot.serialNumber }),
+        ...(snapshot.sourceUserId && { fromUserId: snapshot.sourceUserId }),
+      },
+      metadata: {
+        itemsGiven: [{ itemId, itemName: item.name, quantity: snapshot.amount }],
+      },
+      snapshot,
+    }, transaction);
+
+    return { adminData, target, item, snapshot };
+  });
+
+  markInventoryChanged(targetId, ...(transfer ? [transfer.fromUserId] : []));
+
+  await notify("Items Given", adminData.username, target.username, [
+    `**User:** ${target.username}`,
+    `**Item:** ${item.name}${snapshot.serialNumber !== null ? ` #${snapshot.serialNumber}` : ` x${snapshot.amount}`}`,
+  ], 0x5865F2);
+}
+
+// Creates an item and gives the Admin account copy #0 (or one of an infinite item).
+// Scheduled items keep releaseAt until the release job puts them live.
+export async function createItem(db: Firestore, adminId: string, values: CreateItemRequest): Promise<Item> {
+  const adminAccountId = await getAdminDocId();
+  if (!adminAccountId) {
+    throw new Error("Admin user not found. Cannot create items without admin user.");
+  }
+
+  const now = Date.now();
+  const releaseAt = values.releaseAt ?? null;
+  if (releaseAt !== null && releaseAt <= now) {
+    throw new Error("Release time must be in the future");
+  }
+
+  const itemRef = db.collection("items").doc();
+  const adminRef = db.collection("users").doc(adminId);
+  const adminAccountRef = db.collection("users").doc(adminAccountId);
+
+  const item = await db.runTransaction(async (transaction) => {
+    const [adminDoc, adminAccountDoc] = await transaction.getAll(adminRef, adminAccountRef);
+    const adminData = adminDoc.data();
+    const adminAccount = adminAccountDoc.data();
+
+    if (!adminData) {
+      throw new Error("Admin not found");
+    }
+
+    if (!adminAccount) {
+      throw new Error("Admin user document not found");
+    }
+
+    const limited = values.stockType === "limited";
+    const serialized = limited || values.stockType === "timer";
+    const rarity = getRarityFromValue(values.value);
+    const item: Omit<Item, "id"> = {
+      name: values.name,
+      description: values.description,
+      imageUrl: values.imageUrl,
+      value: values.value,
+      rarity,
+      offSale: values.offSale,
+      stockType: values.stockType,
+      totalStock: limited ? values.totalStock : null,
+      remainingStock: limited ? values.totalStock : null,
+      totalOwners: 0,
+      timerExpiresAt: values.stockType === "timer" && values.timerDuration && !releaseAt ? now + values.timerDuration : null,
+      timerDuration: values.timerDuration,
+      ...(serialized && { nextSerialNumber: 1 }),
+      ...(releaseAt && { releaseAt }),
+      createdAt: now,
+      createdBy: adminId,
+    };
+
+    transaction.set(itemRef, item);
+
+    transaction.set(itemRef.collection("valueHistory").doc(), {
+      value: values.value,
+      previousValue: null,
+      changedAt: now,
+      changedBy: adminId,
+      changedByUsername: adminData.username,
+    });
+
+    const entryId = `${itemRef.id}_${now}_admin_0`;
+    transaction.set(inventoryCollection(db, adminAccountId).doc(entryId), {
+      id: entryId,
+      itemId: itemRef.id,
+      serialNumber: serialized ? 0 : null,
+      rolledAt: now,
+      amount: 1,
+      nftLocked: false,
+    });
+
+    if (serialized) {
+      transaction.set(itemRef.collection("owners").doc(adminAccount.firebaseUid), {
+        userId: adminAccount.firebaseUid,
+        username: adminAccount.username,
+        ownedAt: now,
+      });
+    }
+
+    await createAuditLog(db, {
+      timestamp: now,
+      adminId,
+      adminUsername: adminData.username,
+      actionType: "item_create",
+      details: {
+        itemName: values.name,
+        value: values.value,
+        rarity,
+        stockType: values.stockType,
+        ...(releaseAt && { releaseAt }),
+      },
+      metadata: {
+        itemData: {
+          itemId: itemRef.id,
+          itemName: values.name,
+          value: values.value,
+          rarity,
+          stock: limited ? values.totalStock : null,
+        },
+      },
+    }, transaction);
+
+    return { id: itemRef.id, ...item } as Item;
+  });
+
+  rollableItemsCache.invalidate();
+  return item;
+}
+
+// Applies an admin's item edit. Changing the total stock resets the remaining stock to it.
+export async function updateItem(db: Firestore, adminId: string, itemId: string, values: UpdateItemRequest): Promise<Item> {
+  const itemRef = db.collection("items").doc(itemId);
+  const adminRef = db.collection("users").doc(adminId);
+
+  const updated = await db.runTransaction(async (transaction) => {
+    const [itemDoc, adminDoc] = await transaction.getAll(itemRef, adminRef);
+    const item = itemDoc.data() as Omit<Item, "id"> | undefined;
+    const adminData = adminDoc.data();
+
+    if (!item) {
+      throw new Error("Item not found");
+    }
+
+    if (!adminData) {
+      throw new Error("Admin not found");
+    }
+
+    const limited = values.stockType === "limited";
+    const before = captureItemState(item);
+    const after: EditableItemState = {
+      name: values.name,
+      description: values.description,
+      imageUrl: values.imageUrl,
+      value: values.value,
+      rarity: getRarityFromValue(values.value),
+      offSale: values.offSale,
+      stockType: values.stockType,
+      totalStock: limited ? values.totalStock : null,
+      remainingStock: limited
+        ? (values.totalStock !== item.totalStock ? values.totalStock : item.remainingStock)
+        : null,
+    };
+
+    transaction.update(itemRef, after);
+
+    // Value edits are kept so the item page can chart how the value moved
+    if (after.value !== before.value) {
+      transaction.set(itemRef.collection("valueHistory").doc(), {
+        value: after.value,
+        previousValue: before.value,
+        changedAt: Date.now(),
+        changedBy: adminId,
+        changedByUsername: adminData.username,
+      });
+      markItemRevalued(transaction, db, itemId);
+    }
+
+    await createAuditLog(db, {
+      timestamp: Date.now(),
+      adminId,
+      adminUsername: adminData.username,
+      actionType: "item_edit",
+      details: {
+        changed: (Object.keys(after) as Array<keyof EditableItemState>).filter((key) => after[key] !== before[key]),
+      },
+      metadata: {
+        itemData: {
+          itemId,
+          itemName: after.name,
+          value: after.value,
+          rarity: after.rarity,
+          stock: after.totalStock,
+        },
+      },
+      snapshot: { type: "item_edit", itemId, before, after },
+    }, transaction);
+
+    return { id: itemId, ...item, ...after } as Item;
+  });
+
+  rollableItemsCache.invalidate();
+  return updated;
+}
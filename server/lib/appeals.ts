@@ -0,0 +1,136 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { APPEAL_DENIAL_COOLDOWN, type Appeal, type CreateAppealRequest, type ReviewAppealRequest } from "@shared/schema";
+import { createAuditLog } from "./audit-log";
+import { assertAllowed, liftedBanFields, notify, readParties } from "./moderation";
+
+export async function createAppeal(db: Firestore, userId: string, { statement }: CreateAppealRequest): Promise<string> {
+  const appealRef = db.collection("appeals").doc();
+
+  // The pending and cooldown checks are read in the same transaction as the write,
+  // so two appeals sent at once can't both get through
+  await db.runTransaction(async (transaction) => {
+    const [userDoc, userAppeals] = await Promise.all([
+      transaction.get(db.collection("users").doc(userId)),
+      transaction.get(db.collection("appeals").where("userId", "==", userId)),
+    ]);
+    const userData = userDoc.data();
+
+    if (!userData) {
+      throw new Error("User not found");
+    }
+
+    const now = Date.now();
+    if (!userData.isBanned || (!userData.isPermanentBan && userData.banExpiresAt && userData.banExpiresAt <= now)) {
+      throw new Error("Only banned users can appeal");
+    }
+
+    const appeals = userAppeals.docs.map((doc) => doc.data() as Omit<Appeal, "id">);
+    if (appeals.some((appeal) => appeal.status === "pending")) {
+      throw new Error("You already have an appeal waiting for review");
+    }
+
+    const lastDenial = Math.max(0, ...appeals.filter((appeal) => appeal.status === "denied").map((appeal) => appeal.reviewedAt || 0));
+    if (lastDenial + APPEAL_DENIAL_COOLDOWN > now) {
+      const days = Math.ceil((lastDenial + APPEAL_DENIAL_COOLDOWN - now) / (24 * 60 * 60 * 1000));
+      throw new Error(`Your last appeal was denied. You can appeal again in ${days} day(s)`);
+    }
+
+    const appeal: Omit<Appeal, "id"> = {
+      userId,
+      username: userData.username,
+      statement,
+      banReason: userData.banReason || "",
+      isPermanentBan: userData.isPermanentBan === true,
+      ...(!userData.isPermanentBan && userData.banExpiresAt && { banExpiresAt: userData.banExpiresAt }),
+      status: "pending",
+      createdAt: now,
+    };
+
+    transaction.set(appealRef, appeal);
+  });
+
+  return appealRef.id;
+}
+
+// Approves (lifting the ban) or denies a pending appeal. Reviewers need the
+// permission to lift the kind of ban that was appealed, either way.
+export async function reviewAppeal(db: Firestore, appealId: string, actorId: string, { decision, reply }: ReviewAppealRequest): Promise<Appeal> {
+  const appealRef = db.collection("appeals").doc(appealId);
+
+  const { actor, updated } = await db.runTransaction(async (transaction) => {
+    const appealDoc = await transaction.get(appealRef);
+    const appeal = appealDoc.data() as Omit<Appeal, "id"> | undefined;
+
+    if (!appeal) {
+      throw new Error("Appeal not found");
+    }
+
+    if (appeal.status !== "pending") {
+      throw new Error("This appeal has already been reviewed");
+    }
+
+    const parties = await readParties(transaction, db, actorId, appeal.userId);
+    const isPermanent = parties.target.isBanned ? parties.target.isPermanentBan === true : appeal.isPermanentBan;
+    assertAllowed(parties.role, isPermanent ? "lift_permanent_ban" : "lift_temp_ban");
+
+    const now = Date.now();
+    const updates: Partial<Appeal> = {
+      status: decision,
+      ...(reply && { reply }),
+      reviewerId: actorId,
+      reviewerUsername: parties.actor.username,
+      reviewedAt: now,
+    };
+
+    if (decision === "approved" && parties.target.isBanned) {
+      transaction.update(db.collection("users").doc(appeal.userId), liftedBanFields());
+    }
+    transaction.update(appealRef, updates);
+
+    await createAuditLog(db, {
+      timestamp: now,
+      adminId: actorId,
+      adminUsername: parties.actor.username,
+      actionType: "appeal_review",
+      targetUserId: appeal.userId,
+      targetUsername: appeal.username,
+      details: {
+        appealId,
+        decision,
+        reply,
+        wasPermanent: isPermanent,
+        unbanned: decision === "approved" && parties.target.isBanned === true,
+      },
+    }, transaction);
+
+    return { actor: parties.actor, updated: { id: appealId, ...appeal, ...updates } as Appeal };
+  });
+
+  const details = [
+    `**User:** ${updated.username}`,
+    `**Decision:** ${decision === "approved" ? "Approved (unbanned)" : "Denied"}`,
+  ];
+  if (reply) {
+    details.push(`**Reply:** ${reply}`);
+  }
+  await notify(decision === "approved" ? "Ban Appeal Approved" : "Ban Appeal Denied", actor.username, updated.username, details, decision === "approved" ? 0x57F287 : 0xED4245);
+
+  return updated;
+}
+
+// Marks an approved appeal as seen so the player is only shown the outcome once
+export async function acknowledgeAppeal(db: Firestore, userId: string, appealId: string): Promise<void> {
+  const appealRef = db.collection("appeals").doc(appealId);
+  const appealDoc = await appealRef.get();
+  const appeal = appealDoc.data() as Omit<Appeal, "id"> | undefined;
+
+  if (!appeal || appeal.userId !== userId) {
+    throw new Error("Appeal not found");
+  }
+
+  if (appeal.status === "pending") {
+    throw new Error("This appeal has not been reviewed yet");
+  }
+
+  await appealRef.update({ acknowledged: true });
+}
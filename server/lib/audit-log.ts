@@ -0,0 +1,99 @@
+import type { Firestore, Query, QueryDocumentSnapshot, Transaction } from "firebase-admin/firestore";
+import type { AuditLog, AuditLogExportFormat, AuditLogFilters, AuditLogPage, InsertAuditLog } from "@shared/schema";
+
+// Server-side counterpart of client/src/lib/audit-log.ts. Pass a transaction to
+// make the log entry commit atomically with the action it describes.
+export async function createAuditLog(db: Firestore, logData: InsertAuditLog, transaction?: Transaction): Promise<void> {
+  const logRef = db.collection("auditLogs").doc();
+
+  if (transaction) {
+    transaction.set(logRef, logData);
+    return;
+  }
+
+  try {
+    await logRef.set(logData);
+  } catch (error) {
+    console.error("Error creating audit log:", error);
+  }
+}
+
+// Newest first. Each equality filter is backed by a (field, timestamp desc) index,
+// which Firestore merges when several filters are combined.
+function buildAuditLogQuery(db: Firestore, { actionType, adminUsername, targetUsername, from, to }: AuditLogFilters): Query {
+  let query: Query = db.collection("auditLogs");
+
+  if (actionType) query = query.where("actionType", "==", actionType);
+  if (adminUsername) query = query.where("adminUsername", "==", adminUsername);
+  if (targetUsername) query = query.where("targetUsername", "==", targetUsername);
+  if (from !== undefined) query = query.where("timestamp", ">=", from);
+  if (to !== undefined) query = query.where("timestamp", "<=", to);
+
+  return query.orderBy("timestamp", "desc");
+}
+
+export async function getAuditLogs(db: Firestore, filters: AuditLogFilters, pageSize: number, cursor?: string): Promise<AuditLogPage> {
+  let query = buildAuditLogQuery(db, filters);
+
+  if (cursor) {
+    const cursorDoc = await db.collection("auditLogs").doc(cursor).get();
+    if (!cursorDoc.exists) {
+      throw new Error("Invalid page cursor");
+    }
+    query = query.startAfter(cursorDoc);
+  }
+
+  // Read one extra entry to know whether another page follows
+  const snapshot = await query.limit(pageSize + 1).get();
+  const docs = snapshot.docs.slice(0, pageSize);
+
+  return {
+    logs: docs.map((doc) => ({ id: doc.id, ...doc.data() }) as AuditLog),
+    nextCursor: snapshot.docs.length > pageSize ? docs[docs.length - 1].id : null,
+  };
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "actionType",
+  "adminId",
+  "adminUsername",
+  "targetUserId",
+  "targetUsername",
+  "details",
+  "metadata",
+  "revertedAt",
+  "revertedByUsername",
+] as const;
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return "";
+
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatCsvRow(log: AuditLog): string {
+  return CSV_COLUMNS.map((column) => {
+    if (column === "timestamp" || column === "revertedAt") {
+      return log[column] === undefined ? "" : new Date(log[column]!).toISOString();
+    }
+    return csvField(log[column]);
+  }).join(",");
+}
+
+// Yields the export line by line so large exports never sit in memory. Snapshots
+// are left out of CSV rows but kept in NDJSON, which holds each entry as stored.
+export async function* exportAuditLogs(db: Firestore, filters: AuditLogFilters, format: AuditLogExportFormat): AsyncGenerator<string> {
+  if (format === "csv") {
+    yield CSV_COLUMNS.join(",") + "\n";
+  }
+
+  for await (const doc of buildAuditLogQuery(db, filters).stream()) {
+    // stream() is typed as a plain Node stream, but emits document snapshots
+    const logDoc = doc as unknown as QueryDocumentSnapshot;
+    const log = { id: logDoc.id, ...logDoc.data() } as AuditLog;
+    yield (format === "csv" ? formatCsvRow(log) : JSON.stringify(log)) + "\n";
+  }
+}
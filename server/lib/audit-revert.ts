@@ -0,0 +1,322 @@
+import { FieldValue, type Firestore, type Transaction } from "firebase-admin/firestore";
+import { REVERTIBLE_AUDIT_ACTIONS, type AuditLog, type AuditSnapshot, type InventoryEntry, type Item, type LedgerItemDelta } from "@shared/schema";
+import { createAuditLog } from "./audit-log";
+import { captureItemState } from "./admin-items";
+import { inventoryCollection, markInventoryChanged } from "./inventory";
+import { markItemRevalued } from "./inventory-stats";
+import { entryDeltas, recordLedgerEntry } from "./ledger";
+import { notify } from "./moderation";
+import { rollableItemsCache } from "./rollable-items-cache";
+
+interface RevertResult {
+  details: string[]; // What was put back, for the audit log, webhook and toast
+  changedUsers: string[];
+  ledger: Array<{ userId: string; cash: number; items: LedgerItemDelta[] }>; // Players whose items moved
+}
+
+// Reads which wiped entries are still in the admin inventory. Entries the admin
+// account has since traded or sold can't be given back and are skipped.
+async function readRestorableEntries(transaction: Transaction, db: Firestore, adminId: string, entries: InventoryEntry[]): Promise<InventoryEntry[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const docs = await transaction.getAll(...entries.map((entry) => inventoryCollection(db, adminId).doc(entry.id)));
+  return docs
+    .filter((entryDoc) => entryDoc.exists)
+    .map((entryDoc) => ({ ...entryDoc.data(), id: entryDoc.id }) as InventoryEntry);
+}
+
+function moveEntriesBack(transaction: Transaction, db: Firestore, adminId: string, userId: string, entries: InventoryEntry[]): void {
+  for (const entry of entries) {
+    transaction.delete(inventoryCollection(db, adminId).doc(entry.id));
+    transaction.set(inventoryCollection(db, userId).doc(entry.id), entry);
+  }
+}
+
+async function revertBan(transaction: Transaction, db: Firestore, log: AuditLog, snapshot: Extract<AuditSnapshot, { type: "user_ban" }>): Promise<RevertResult> {
+  const userRef = db.collection("users").doc(log.targetUserId!);
+  const userDoc = await transaction.get(userRef);
+  const user = userDoc.data();
+
+  if (!user) {
+    throw new Error("The banned user no longer exists");
+  }
+
+  const restorable = snapshot.adminId ? await readRestorableEntries(transaction, db, snapshot.adminId, snapshot.wipedEntries) : [];
+  const details: string[] = [];
+
+  // Only lift the ban this entry created; a later ban or unban is left alone
+  const stillBanned = user.isBanned === true &&
+    user.banReason === log.metadata?.banReason &&
+    (user.isPermanentBan === true) === (log.metadata?.isPermanentBan === true);
+
+  if (stillBanned) {
+    const { user: previous } = snapshot;
+    transaction.update(userRef, {
+      isBanned: previous.isBanned,
+      isPermanentBan: previous.isPermanentBan,
+      banReason: previous.banReason,
+      banNotes: previous.banNotes ?? FieldValue.delete(),
+      banExpiresAt: previous.banExpiresAt ?? FieldValue.delete(),
+    });
+    details.push(previous.isBanned ? "Previous ban restored" : "Ban lifted");
+  } else {
+    details.push("Ban was already changed, left as is");
+  }
+
+  if (snapshot.adminId && snapshot.wipedEntries.length > 0) {
+    moveEntriesBack(transaction, db, snapshot.adminId, log.targetUserId!, restorable);
+    details.push(`Inventory restored: ${restorable.length}/${snapshot.wipedEntries.length} entries`);
+  }
+
+  if (!stillBanned && restorable.length === 0) {
+    throw new Error("Nothing left to revert: the ban was already changed and no wiped items can be returned");
+  }
+
+  return {
+    details,
+    changedUsers: snapshot.adminId ? [log.targetUserId!, snapshot.adminId] : [],
+    ledger: restorable.length > 0 ? [{ userId: log.targetUserId!, cash: user.cash || 0, items: entryDeltas(restorable, 1) }] : [],
+  };
+}
+
+async function revertWipe(transaction: Transaction, db: Firestore, log: AuditLog, snapshot: Extract<AuditSnapshot, { type: "user_wipe_inventory" }>): Promise<RevertResult> {
+  const userDoc = await transaction.get(db.collection("users").doc(log.targetUserId!));
+  if (!userDoc.exists) {
+    throw new Error("The wiped user no longer exists");
+  }
+
+  const restorable = await readRestorableEntries(transaction, db, snapshot.adminId, snapshot.wipedEntries);
+  if (restorable.length === 0) {
+    throw new Error("None of the wiped items are still in the admin inventory");
+  }
+
+  moveEntriesBack(transaction, db, snapshot.adminId, log.targetUserId!, restorable);
+
+  return {
+    details: [`Inventory restored: ${restorable.length}/${snapshot.wipedEntries.length} entries`],
+    changedUsers: [log.targetUserId!, snapshot.adminId],
+    ledger: [{ userId: log.targetUserId!, cash: userDoc.data()?.cash || 0, items: entryDeltas(restorable, 1) }],
+  };
+}
+
+async function revertGive(transaction: Transaction, db: Firestore, log: AuditLog, snapshot: Extract<AuditSnapshot, { type: "user_give_items" }>): Promise<RevertResult> {
+  const entryRef = inventoryCollection(db, log.targetUserId!).doc(snapshot.entryId);
+  const itemRef = db.collection("items").doc(snapshot.itemId);
+  const userRefs = [log.targetUserId!, ...(snapshot.sourceUserId ? [snapshot.sourceUserId] : [])]
+    .map((userId) => db.collection("users").doc(userId));
+  const [entryDoc, itemDoc, targetDoc, sourceDoc] = await transaction.getAll(entryRef, itemRef, ...userRefs);
+  const entry = entryDoc.data();
+  const item = itemDoc.data();
+  const removed: LedgerItemDelta = {
+    itemId: snapshot.itemId,
+    ...(item && { itemName: item.name }),
+    serialNumber: snapshot.serialNumber,
+    entryId: snapshot.entryId,
+    amount: -snapshot.amount,
+  };
+  const targetLedger = { userId: log.targetUserId!, cash: targetDoc.data()?.cash || 0, items: [removed] };
+
+  if (snapshot.serialNumber === null) {
+    const amount = entry?.amount || 0;
+    if (!entry || amount < snapshot.amount) {
+      throw new Error(`${log.targetUsername} no longer has the ${snapshot.amount} given cop${snapshot.amount === 1 ? "y" : "ies"}`);
+    }
+
+    if (amount === snapshot.amount) {
+      transaction.delete(entryRef);
+    } else {
+      transaction.update(entryRef, { amount: amount - snapshot.amount });
+    }
+
+    return {
+      details: [`Removed ${snapshot.amount}x ${item?.name || snapshot.itemId}`],
+      changedUsers: [log.targetUserId!],
+      ledger: [targetLedger],
+    };
+  }
+
+  if (!entry || entry.serialNumber !== snapshot.serialNumber) {
+    throw new Error(`${log.targetUsername} no longer has serial #${snapshot.serialNumber}`);
+  }
+
+  // Without a previous owner to return it to, the copy leaves circulation and the
+  // target stops owning the item unless they hold another copy
+  const ownershipMarkerRef = itemRef.collection("owners").doc(targetDoc.data()?.firebaseUid || log.targetUserId!);
+  const [ownershipDoc, targetCopies] = snapshot.sourceUserId
+    ? [null, null]
+    : await Promise.all([
+      transaction.get(ownershipMarkerRef),
+      transaction.get(inventoryCollection(db, log.targetUserId!).where("itemId", "==", snapshot.itemId).limit(2)),
+    ]);
+
+  transaction.delete(entryRef);
+
+  if (snapshot.sourceUserId) {
+    transaction.set(inventoryCollection(db, snapshot.sourceUserId).doc(snapshot.entryId), entry);
+    return {
+      details: [`Returned ${item?.name || snapshot.itemId} #${snapshot.serialNumber} to its previous owner`],
+      changedUsers: [log.targetUserId!, snapshot.sourceUserId],
+      ledger: [
+        targetLedger,
+        { userId: snapshot.sourceUserId, cash: sourceDoc?.data()?.cash || 0, items: [{ ...removed, amount: 1 }] },
+      ],
+    };
+  }
+
+  const itemUpdates: Record<string, number> = {};
+
+  // Only un-mint the serial if no later one was minted on top of it
+  if (snapshot.createdSerial && item && item.totalStock === snapshot.serialNumber) {
+    itemUpdates.totalStock = snapshot.serialNumber - 1;
+  }
+
+  if (item && ownershipDoc?.exists && targetCopies?.docs.every((copy) => copy.id === snapshot.entryId)) {
+    itemUpdates.totalOwners = Math.max(0, (item.totalOwners || 0) - 1);
+    transaction.delete(ownershipMarkerRef);
+  }
+
+  if (Object.keys(itemUpdates).length > 0) {
+    transaction.update(itemRef, itemUpdates);
+  }
+
+  return {
+    details: [`Removed ${item?.name || snapshot.itemId} #${snapshot.serialNumber}`],
+    changedUsers: [log.targetUserId!],
+    ledger: [targetLedger],
+  };
+}
+
+async function revertItemEdit(transaction: Transaction, db: Firestore, snapshot: Extract<AuditSnapshot, { type: "item_edit" }>, adminId: string, adminUsername: string): Promise<RevertResult> {
+  const itemRef = db.collection("items").doc(snapshot.itemId);
+  const itemDoc = await transaction.get(itemRef);
+  const item = itemDoc.data();
+
+  if (!item) {
+    throw new Error("The edited item no longer exists");
+  }
+
+  const { before, after } = snapshot;
+  const current = captureItemState(item as Omit<Item, "id">);
+
+  // Keep copies rolled since the edit taken out of the restored stock
+  const rolledSince = after.remainingStock !== null && current.remainingStock !== null
+    ? Math.max(0, after.remainingStock - current.remainingStock)
+    : 0;
+  const remainingStock = before.remainingStock === null ? null : Math.max(0, before.remainingStock - rolledSince);
+
+  transaction.update(itemRef, { ...before, remainingStock });
+
+  if (current.value !== before.value) {
+    transaction.set(itemRef.collection("valueHistory").doc(), {
+      value: before.value,
+      previousValue: current.value,
+      changedAt: Date.now(),
+      changedBy: adminId,
+      changedByUsername: adminUsername,
+    });
+    markItemRevalued(transaction, db, snapshot.itemId);
+  }
+
+  return { details: [`Restored ${before.name} to its state before the edit`], changedUsers: [], ledger: [] };
+}
+
+// Reverses a revertible audit log entry from the snapshot stored with it, and
+// records the revert as its own audit entry. Each entry can only be reverted once.
+export async function revertAuditLog(db: Firestore, logId: string, adminId: string): Promise<string[]> {
+  const logRef = db.collection("auditLogs").doc(logId);
+  const adminRef = db.collection("users").doc(adminId);
+
+  const { log, adminUsername, result } = await db.runTransaction(async (transaction) => {
+    const [logDoc, adminDoc] = await transaction.getAll(logRef, adminRef);
+    const log = logDoc.exists ? ({ id: logDoc.id, ...logDoc.data() } as AuditLog) : null;
+    const adminData = adminDoc.data();
+
+    if (!log) {
+      throw new Error("Audit log entry not found");
+    }
+
+    if (!adminData) {
+      throw new Error("Admin not found");
+    }
+
+    if (!(REVERTIBLE_AUDIT_ACTIONS as readonly string[]).includes(log.actionType) || !log.snapshot) {
+      throw new Error("This action can't be reverted");
+    }
+
+    if (log.revertedAt) {
+      throw new Error(`Already reverted by ${log.revertedByUsername || "an admin"}`);
+    }
+
+    const { snapshot } = log;
+    let result: RevertResult;
+    switch (snapshot.type) {
+      case "user_ban":
+        result = await revertBan(transaction, db, log, snapshot);
+        break;
+      case "user_wipe_inventory":
+        result = await revertWipe(transaction, db, log, snapshot);
+        break;
+      case "user_give_items":
+        result = await revertGive(transaction, db, log, snapshot);
+        break;
+      case "item_edit":
+        result = await revertItemEdit(transaction, db, snapshot, adminId, adminData.username);
+        break;
+    }
+
+    const now = Date.now();
+    for (const { userId, cash, items } of result.ledger) {
+      recordLedgerEntry(transaction, db, {
+        userId,
+        type: "admin_revert",
+        timestamp: now,
+        cashBefore: cash,
+        cashAfter: cash,
+        items,
+        counterpartyId: adminId,
+        counterpartyUsername: adminData.username,
+        details: { revertedLogId: logId, revertedAction: log.actionType },
+      });
+    }
+
+    transaction.update(logRef, {
+      revertedAt: now,
+      revertedBy: adminId,
+      revertedByUsername: adminData.username,
+    });
+
+    await createAuditLog(db, {
+      timestamp: now,
+      adminId,
+      adminUsername: adminData.username,
+      actionType: "audit_revert",
+      ...(log.targetUserId && { targetUserId: log.targetUserId }),
+      ...(log.targetUsername && { targetUsername: log.targetUsername }),
+      details: {
+        revertedLogId: logId,
+        revertedAction: log.actionType,
+        originalAdmin: log.adminUsername,
+        result: result.details,
+      },
+    }, transaction);
+
+    return { log, adminUsername: adminData.username as string, result };
+  });
+
+  if (result.changedUsers.length > 0) {
+    markInventoryChanged(...result.changedUsers);
+  }
+
+  if (log.snapshot?.type === "item_edit") {
+    rollableItemsCache.invalidate();
+  }
+
+  await notify("Action Reverted", adminUsername, log.targetUsername || log.metadata?.itemData?.itemName || "", [
+    `**Reverted:** ${log.actionType} by ${log.adminUsername}`,
+    ...result.details.map((detail) => `**Result:** ${detail}`),
+  ], 0x5865F2);
+
+  return result.details;
+}
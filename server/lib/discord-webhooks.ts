@@ -117,6 +117,33 @@ export async function sendItemReleaseWebhook(itemData: {
   await sendDiscordWebhook(webhookUrl, payload);
 }
 
+// Luck event webhook, posted to the item release channel when an event starts or ends
+export async function sendLuckEventWebhook(eventData: {
+  name: string;
+  description: string;
+  phase: "started" | "ended";
+  endsAt: number;
+}): Promise<void> {
+  const webhookUrl = process.env.DISCORD_WEBHOOK_ITEM_RELEASE;
+  if (!webhookUrl) {
+    console.warn('DISCORD_WEBHOOK_ITEM_RELEASE not configured');
+    return;
+  }
+
+  const started = eventData.phase === "started";
+  const embed: DiscordEmbed = {
+    title: started ? `${eventData.name} is live!` : `${eventData.name} has ended`,
+    description: eventData.description,
+    color: hexToDecimal(started ? "#22c55e" : "#6b7280"),
+    fields: started
+      ? [{ name: "Ends", value: `<t:${Math.floor(eventData.endsAt / 1000)}:R>`, inline: false }]
+      : [],
+    timestamp: new Date().toISOString(),
+  };
+
+  await sendDiscordWebhook(webhookUrl, { embeds: [embed] });
+}
+
 // Admin log webhook
 export async function sendAdminLogWebhook(logData: {
   action: string;
@@ -0,0 +1,145 @@
+import { FieldValue, type Firestore, type Transaction } from "firebase-admin/firestore";
+import { economyCountersSchema, type EconomyCounters, type EconomySnapshot } from "@shared/schema";
+
+const CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+const DAY = 24 * 60 * 60 * 1000;
+
+// Lower bounds of the inventory value buckets shown in the admin Economy tab
+const INVENTORY_VALUE_BUCKETS = [0, 1_000, 10_000, 100_000, 1_000_000, 10_000_000, 100_000_000, 1_000_000_000];
+
+function countersRef(db: Firestore) {
+  return db.collection("economyStats").doc("totals");
+}
+
+function snapshotDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+// Adds to the running economy totals as part of the caller's transaction.
+// Write-only, so it can be called after the transaction's reads.
+export function recordEconomyFlow(transaction: Transaction, db: Firestore, flow: Partial<EconomyCounters>): void {
+  const increments = Object.fromEntries(
+    Object.entries(flow)
+      .filter(([, amount]) => amount)
+      .map(([counter, amount]) => [counter, FieldValue.increment(amount as number)])
+  );
+
+  if (Object.keys(increments).length > 0) {
+    transaction.set(countersRef(db), increments, { merge: true });
+  }
+}
+
+function summarizeInventoryValues(values: number[]): EconomySnapshot["inventoryValue"] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  const topCount = Math.ceil(sorted.length * 0.1);
+  const topTotal = sorted.slice(sorted.length - topCount).reduce((sum, value) => sum + value, 0);
+
+  return {
+    total,
+    mean: sorted.length > 0 ? Math.round(total / sorted.length) : 0,
+    median: sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0,
+    top10Share: total > 0 ? topTotal / total : 0,
+    buckets: INVENTORY_VALUE_BUCKETS.map((min, index) => ({
+      min,
+      players: sorted.filter((value) => value >= min && (index === INVENTORY_VALUE_BUCKETS.length - 1 || value < INVENTORY_VALUE_BUCKETS[index + 1])).length,
+    })),
+  };
+}
+
+// Computes today's snapshot from users, items and globalRolls and writes it,
+// replacing an earlier snapshot of the same day
+export async function takeEconomySnapshot(db: Firestore): Promise<EconomySnapshot> {
+  const now = Date.now();
+  const date = snapshotDate(now);
+
+  const [usersSnapshot, limitedSnapshot, highValueRollsSnapshot, countersDoc, previousSnapshot] = await Promise.all([
+    db.collection("users").select("cash", "rollCount", "inventoryValue").get(),
+    db.collection("items").where("stockType", "==", "limited").get(),
+    db.collection("globalRolls").where("timestamp", ">=", now - DAY).count().get(),
+    countersRef(db).get(),
+    db.collection("economySnapshots").where("date", "<", date).orderBy("date", "desc").limit(1).get(),
+  ]);
+
+  const previous = previousSnapshot.empty ? null : previousSnapshot.docs[0].data() as EconomySnapshot;
+  const counters = economyCountersSchema.parse(countersDoc.data() || {});
+
+  let totalCash = 0;
+  let totalRolls = 0;
+  const inventoryValues: number[] = [];
+  for (const userDoc of usersSnapshot.docs) {
+    const userData = userDoc.data();
+    totalCash += userData.cash ?? 1000;
+    totalRolls += userData.rollCount || 0;
+    inventoryValues.push(userData.inventoryValue || 0);
+  }
+
+  const hoursSincePrevious = previous ? (now - previous.takenAt) / (60 * 60 * 1000) : 0;
+  const daysSincePrevious = hoursSincePrevious / 24;
+  const previousStock = new Map((previous?.limitedItems || []).map((item) => [item.itemId, item.remainingStock]));
+
+  const snapshot: EconomySnapshot = {
+    date,
+    takenAt: now,
+    userCount: usersSnapshot.size,
+    totalCash,
+    totalRolls,
+    rollsPerHour: previous && hoursSincePrevious > 0
+      ? Math.round((totalRolls - previous.totalRolls) / hoursSincePrevious)
+      : null,
+    highValueRolls: highValueRollsSnapshot.data().count,
+    counters,
+    periodCashCreated: (counters.sellPayouts + counters.sellFees) - (previous ? previous.counters.sellPayouts + previous.counters.sellFees : 0),
+    periodFees: (counters.sellFees + counters.marketFees) - (previous ? previous.counters.sellFees + previous.counters.marketFees : 0),
+    periodRollSpend: counters.rollSpend - (previous?.counters.rollSpend ?? 0),
+    inventoryValue: summarizeInventoryValues(inventoryValues),
+    limitedItems: limitedSnapshot.docs.map((itemDoc) => {
+      const itemData = itemDoc.data();
+      const remainingStock = itemData.remainingStock || 0;
+      const before = previousStock.get(itemDoc.id);
+
+      return {
+        itemId: itemDoc.id,
+        itemName: itemData.name,
+        totalStock: itemData.totalStock || 0,
+        remainingStock,
+        depletedPerDay: before !== undefined && daysSincePrevious > 0
+          ? Math.round(((before - remainingStock) / daysSincePrevious) * 100) / 100
+          : null,
+      };
+    }),
+  };
+
+  await db.collection("economySnapshots").doc(date).set(snapshot);
+  return snapshot;
+}
+
+export async function getEconomySnapshots(db: Firestore, days: number): Promise<EconomySnapshot[]> {
+  const snapshot = await db.collection("economySnapshots").orderBy("date", "desc").limit(days).get();
+  return snapshot.docs.map((doc) => doc.data() as EconomySnapshot).reverse();
+}
+
+// Takes one snapshot per UTC day, on the first hourly check after midnight
+export function startEconomySnapshots(db: Firestore): void {
+  let running = false;
+
+  const check = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const today = await db.collection("economySnapshots").doc(snapshotDate(Date.now())).get();
+      if (!today.exists) {
+        const snapshot = await takeEconomySnapshot(db);
+        console.log(`Economy snapshot taken for ${snapshot.date}`);
+      }
+    } catch (error) {
+      console.error("Error taking economy snapshot:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  check();
+  setInterval(check, CHECK_INTERVAL);
+}
@@ -0,0 +1,125 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+import type { Firestore } from "firebase-admin/firestore";
+import { hashToFloat, rollMessage, type RevealedSeed, type RollProof, type RollSnapshotItem } from "@shared/fairness";
+
+const PROOF_PAGE_SIZE = 1000;
+
+// Active seed pair for a user, stored at rollSeeds/{uid}.
+// The server seed is secret until rotation - this collection must never be client-readable.
+export interface SeedState {
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  createdAt: number;
+}
+
+export function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+export function createSeedState(clientSeed?: string): SeedState {
+  const serverSeed = randomBytes(32).toString("hex");
+  return {
+    serverSeed,
+    serverSeedHash: sha256(serverSeed),
+    clientSeed: clientSeed || randomBytes(8).toString("hex"),
+    nonce: 0,
+    createdAt: Date.now(),
+  };
+}
+
+export function computeRollFloat(serverSeed: string, clientSeed: string, nonce: number): number {
+  const digest = createHmac("sha256", serverSeed).update(rollMessage(clientSeed, nonce)).digest("hex");
+  return hashToFloat(digest);
+}
+
+export async function getSeedState(db: Firestore, userId: string): Promise<SeedState> {
+  const seedRef = db.collection("rollSeeds").doc(userId);
+  const seedDoc = await seedRef.get();
+
+  if (seedDoc.exists) {
+    return seedDoc.data() as SeedState;
+  }
+
+  const state = createSeedState();
+  await seedRef.set(state);
+  return state;
+}
+
+// Reveals the current server seed and starts a new pair. Rolls made with the
+// revealed seed can then be verified by anyone holding it.
+export async function rotateSeed(db: Firestore, userId: string, clientSeed?: string): Promise<{ revealed: RevealedSeed | null; current: SeedState }> {
+  const seedRef = db.collection("rollSeeds").doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const seedDoc = await transaction.get(seedRef);
+    const next = createSeedState(clientSeed);
+    let revealed: RevealedSeed | null = null;
+
+    if (seedDoc.exists) {
+      const previous = seedDoc.data() as SeedState;
+      revealed = {
+        userId,
+        serverSeed: previous.serverSeed,
+        serverSeedHash: previous.serverSeedHash,
+        clientSeed: previous.clientSeed,
+        finalNonce: previous.nonce,
+        createdAt: previous.createdAt,
+        revealedAt: Date.now(),
+      };
+      transaction.set(db.collection("revealedSeeds").doc(previous.serverSeedHash), revealed);
+    }
+
+    transaction.set(seedRef, next);
+    return { revealed, current: next };
+  });
+}
+
+// Everything needed to replay the rolls made under one server seed hash
+// Every proof rolled under a seed, in nonce order. Read in pages so a seed that
+// was used for a long time isn't cut off.
+async function readProofs(db: Firestore, serverSeedHash: string): Promise<RollProof[]> {
+  const query = db.collection("rollProofs").where("serverSeedHash", "==", serverSeedHash).orderBy("nonce");
+  const proofs: RollProof[] = [];
+
+  while (true) {
+    const page = proofs.length > 0
+      ? await query.startAfter(proofs[proofs.length - 1].nonce).limit(PROOF_PAGE_SIZE).get()
+      : await query.limit(PROOF_PAGE_SIZE).get();
+    proofs.push(...page.docs.map((doc) => doc.data() as RollProof));
+
+    if (page.size < PROOF_PAGE_SIZE) {
+      return proofs;
+    }
+  }
+}
+
+export async function getVerificationData(db: Firestore, serverSeedHash: string): Promise<{
+  revealed: RevealedSeed | null;
+  proofs: RollProof[];
+  snapshots: Record<string, RollSnapshotItem[]>;
+}> {
+  const [revealedDoc, proofs] = await Promise.all([
+    db.collection("revealedSeeds").doc(serverSeedHash).get(),
+    readProofs(db, serverSeedHash),
+  ]);
+
+  const snapshotIds = Array.from(new Set(proofs.map((proof) => proof.snapshotId)));
+  const snapshotDocs = snapshotIds.length > 0
+    ? await db.getAll(...snapshotIds.map((id) => db.collection("rollSnapshots").doc(id)))
+    : [];
+
+  const snapshots: Record<string, RollSnapshotItem[]> = {};
+  snapshotDocs.forEach((doc) => {
+    if (doc.exists) {
+      snapshots[doc.id] = doc.data()?.items || [];
+    }
+  });
+
+  return {
+    revealed: revealedDoc.exists ? (revealedDoc.data() as RevealedSeed) : null,
+    proofs,
+    snapshots,
+  };
+}
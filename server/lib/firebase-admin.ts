@@ -93,3 +93,44 @@ export async function checkIsAdmin(uid: string): Promise<boolean> {
     return false;
   }
 }
+
+// Admins and moderators; what each may do is checked per action in moderation.ts
+export async function checkIsStaff(uid: string): Promise<boolean> {
+  const admin = getFirebaseAdmin();
+  if (!admin) {
+    console.warn('Firebase not initialized - cannot check staff status');
+    return false;
+  }
+  try {
+    const userDoc = await admin.firestore().collection('users').doc(uid).get();
+    const userData = userDoc.data();
+    return userData?.isAdmin === true || userData?.isModerator === true;
+  } catch (error) {
+    console.error('Error checking staff status:', error);
+    return false;
+  }
+}
+
+// Admin (userId 1) receives sell fees; cached so rolls and sells don't re-query it
+let adminDocIdCache: string | null = null;
+
+export async function getAdminDocId(): Promise<string | null> {
+  if (adminDocIdCache) {
+    return adminDocIdCache;
+  }
+
+  const admin = getFirebaseAdmin();
+  if (!admin) {
+    console.warn('Firebase not initialized - cannot look up admin user');
+    return null;
+  }
+
+  const snapshot = await admin.firestore().collection('users').where('userId', '==', 1).limit(1).get();
+  if (snapshot.empty) {
+    console.warn('[Firebase] Admin user (userId=1) not found in database');
+    return null;
+  }
+
+  adminDocIdCache = snapshot.docs[0].id;
+  return adminDocIdCache;
+}
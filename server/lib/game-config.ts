@@ -0,0 +1,83 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { DEFAULT_GAME_CONFIG, gameConfigSchema, type GameConfig, type UpdateGameConfig } from "@shared/schema";
+import { createAuditLog } from "./audit-log";
+
+// Cached read of config/game. Missing fields fall back to DEFAULT_GAME_CONFIG,
+// so the document doesn't need to exist until an admin changes something.
+class GameConfigCache {
+  private config: GameConfig = DEFAULT_GAME_CONFIG;
+  private lastFetch = 0;
+  private fetchPromise: Promise<void> | null = null;
+  private readonly CACHE_DURATION = 30 * 1000; // 30 seconds
+
+  async getConfig(db: Firestore): Promise<GameConfig> {
+    if (this.lastFetch > 0 && Date.now() - this.lastFetch < this.CACHE_DURATION) {
+      return this.config;
+    }
+
+    if (this.fetchPromise) {
+      await this.fetchPromise;
+      return this.config;
+    }
+
+    this.fetchPromise = this.fetchConfig(db);
+    try {
+      await this.fetchPromise;
+    } finally {
+      this.fetchPromise = null;
+    }
+
+    return this.config;
+  }
+
+  private async fetchConfig(db: Firestore): Promise<void> {
+    const configDoc = await db.collection("config").doc("game").get();
+    const parsed = gameConfigSchema.safeParse(configDoc.exists ? configDoc.data() : {});
+
+    if (!parsed.success) {
+      console.error("Invalid game config document, using defaults:", parsed.error);
+    }
+
+    this.config = parsed.success ? parsed.data : DEFAULT_GAME_CONFIG;
+    this.lastFetch = Date.now();
+  }
+
+  invalidate(): void {
+    this.lastFetch = 0;
+  }
+}
+
+export const gameConfigCache = new GameConfigCache();
+
+export async function updateGameConfig(db: Firestore, updates: UpdateGameConfig, adminId: string): Promise<GameConfig> {
+  const configRef = db.collection("config").doc("game");
+  const adminRef = db.collection("users").doc(adminId);
+
+  await db.runTransaction(async (transaction) => {
+    const [configDoc, adminDoc] = await Promise.all([
+      transaction.get(configRef),
+      transaction.get(adminRef),
+    ]);
+    const previous = gameConfigSchema.parse(configDoc.exists ? configDoc.data() : {});
+
+    transaction.set(configRef, {
+      ...updates,
+      updatedAt: Date.now(),
+      updatedBy: adminId,
+    }, { merge: true });
+
+    await createAuditLog(db, {
+      timestamp: Date.now(),
+      adminId,
+      adminUsername: adminDoc.data()?.username || "Unknown",
+      actionType: "game_config_update",
+      details: {
+        before: Object.fromEntries(Object.keys(updates).map((key) => [key, previous[key as keyof GameConfig]])),
+        after: updates,
+      },
+    }, transaction);
+  });
+
+  gameConfigCache.invalidate();
+  return gameConfigCache.getConfig(db);
+}
@@ -0,0 +1,146 @@
+import { FieldValue, type Firestore, type Transaction } from "firebase-admin/firestore";
+import { inventoryCollection } from "./inventory";
+
+const STATS_INTERVAL = 15 * 1000; // 15 seconds
+const STATS_BATCH_SIZE = 200; // Users recomputed per run
+const FLAG_BATCH_SIZE = 400; // Holders flagged per write batch
+
+// Flags the user's inventory stats for a recompute as part of the transaction that
+// changes the inventory, so the mark commits with the change and survives restarts
+export function markStatsStale(transaction: Transaction, db: Firestore, userId: string): void {
+  transaction.update(db.collection("users").doc(userId), { inventoryStatsStale: true });
+}
+
+// Flags every holder of an item for a recompute once its value changed, as part of
+// the transaction that changes it. The job resolves the holders.
+export function markItemRevalued(transaction: Transaction, db: Firestore, itemId: string): void {
+  transaction.update(db.collection("items").doc(itemId), { holdersStatsStaleAt: Date.now() });
+}
+
+// Everyone holding an item, from a collection-group query on itemId. The old
+// top-level `inventory` collection shares the name, so only entries under a user
+// count, and entries left behind by deleted users are skipped.
+async function findHolders(db: Firestore, itemId: string): Promise<string[]> {
+  const snapshot = await db.collectionGroup("inventory").where("itemId", "==", itemId).select().get();
+  const holders = new Set<string>();
+
+  for (const entryDoc of snapshot.docs) {
+    const owner = entryDoc.ref.parent.parent;
+    if (owner?.parent.id === "users") {
+      holders.add(owner.id);
+    }
+  }
+
+  if (holders.size === 0) {
+    return [];
+  }
+
+  const userDocs = await db.getAll(...Array.from(holders).map((userId) => db.collection("users").doc(userId)), { fieldMask: ["userId"] });
+  return userDocs.filter((userDoc) => userDoc.exists).map((userDoc) => userDoc.id);
+}
+
+// Flags the holders of every revalued item, then clears the item's mark unless it
+// was revalued again in the meantime
+async function flagRevaluedHolders(db: Firestore): Promise<void> {
+  const snapshot = await db.collection("items").where("holdersStatsStaleAt", ">", 0).get();
+
+  for (const itemDoc of snapshot.docs) {
+    const staleAt = itemDoc.data().holdersStatsStaleAt;
+    const holders = await findHolders(db, itemDoc.id);
+
+    for (let i = 0; i < holders.length; i += FLAG_BATCH_SIZE) {
+      const batch = db.batch();
+      for (const userId of holders.slice(i, i + FLAG_BATCH_SIZE)) {
+        batch.update(db.collection("users").doc(userId), { inventoryStatsStale: true });
+      }
+      await batch.commit();
+    }
+
+    await db.runTransaction(async (transaction) => {
+      const current = await transaction.get(itemDoc.ref);
+      if (current.data()?.holdersStatsStaleAt === staleAt) {
+        transaction.update(itemDoc.ref, { holdersStatsStaleAt: FieldValue.delete() });
+      }
+    });
+  }
+}
+
+// Recomputes one user's stats and clears the flag in a transaction, so a change
+// committed while this runs flags the user again instead of being overwritten.
+// Item values are read outside it to keep rolls from contending on item documents.
+async function refreshUserStats(db: Firestore, userId: string, values: Map<string, number>): Promise<void> {
+  const userRef = db.collection("users").doc(userId);
+
+  await db.runTransaction(async (transaction) => {
+    const [userDoc, entries] = await Promise.all([
+      transaction.get(userRef),
+      transaction.get(inventoryCollection(db, userId).select("itemId", "amount")),
+    ]);
+
+    if (!userDoc.data()?.inventoryStatsStale) {
+      return;
+    }
+
+    const amounts = entries.docs.map((entryDoc) => ({
+      itemId: entryDoc.data().itemId as string,
+      amount: entryDoc.data().amount || 1,
+    }));
+
+    const missing = Array.from(new Set(amounts.map((entry) => entry.itemId))).filter((itemId) => !values.has(itemId));
+    if (missing.length > 0) {
+      const itemDocs = await db.getAll(...missing.map((itemId) => db.collection("items").doc(itemId)), { fieldMask: ["value"] });
+      itemDocs.forEach((itemDoc) => values.set(itemDoc.id, itemDoc.data()?.value || 0));
+    }
+
+    transaction.update(userRef, {
+      inventoryValue: amounts.reduce((sum, entry) => sum + (values.get(entry.itemId) || 0) * entry.amount, 0),
+      itemCount: amounts.reduce((sum, entry) => sum + entry.amount, 0),
+      uniqueItemCount: new Set(amounts.map((entry) => entry.itemId)).size,
+      inventoryStatsStale: FieldValue.delete(),
+    });
+  });
+}
+
+// Recomputes the aggregates on the user documents that leaderboards, badges and the
+// roll screen read, so none of them has to load whole inventories
+export async function refreshInventoryStats(db: Firestore): Promise<number> {
+  await flagRevaluedHolders(db);
+
+  const snapshot = await db.collection("users")
+    .where("inventoryStatsStale", "==", true)
+    .limit(STATS_BATCH_SIZE)
+    .select()
+    .get();
+
+  // Shared across the run so each item value is read once
+  const values = new Map<string, number>();
+  let refreshed = 0;
+
+  for (const userDoc of snapshot.docs) {
+    try {
+      await refreshUserStats(db, userDoc.id, values);
+      refreshed++;
+    } catch (error) {
+      console.error(`Error refreshing inventory stats of ${userDoc.id}:`, error);
+    }
+  }
+
+  return refreshed;
+}
+
+export function startInventoryStats(db: Firestore): void {
+  let running = false;
+
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await refreshInventoryStats(db);
+    } catch (error) {
+      console.error("Error refreshing inventory stats:", error);
+    } finally {
+      running = false;
+    }
+  }, STATS_INTERVAL);
+}
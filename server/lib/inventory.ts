@@ -0,0 +1,95 @@
+import { FieldValue, type CollectionReference, type DocumentSnapshot, type Firestore, type Transaction } from "firebase-admin/firestore";
+import type { InventoryEntry } from "@shared/schema";
+
+// Entries moved out of a legacy array per transaction, well under the write limit
+const LEGACY_MIGRATION_CHUNK = 200;
+
+export function inventoryCollection(db: Firestore, userId: string): CollectionReference {
+  return db.collection("users").doc(userId).collection("inventory");
+}
+
+export function createInventoryEntryId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Infinite items stack into one entry per item; returns that entry if the user has it
+export async function getInfiniteStack(transaction: Transaction, db: Firestore, userId: string, itemId: string): Promise<DocumentSnapshot | null> {
+  const snapshot = await transaction.get(
+    inventoryCollection(db, userId)
+      .where("itemId", "==", itemId)
+      .where("serialNumber", "==", null)
+      .limit(1)
+  );
+  return snapshot.empty ? null : snapshot.docs[0];
+}
+
+// Users whose inventory or cash changed since the trade maintenance job last ran,
+// so it can deactivate pending trades that are no longer possible
+const changedUsers = new Set<string>();
+
+export function markInventoryChanged(...userIds: string[]): void {
+  for (const userId of userIds) {
+    changedUsers.add(userId);
+  }
+}
+
+export function takeChangedUsers(): Set<string> {
+  const userIds = new Set(changedUsers);
+  changedUsers.clear();
+  return userIds;
+}
+
+// Moves one chunk of a user's legacy `inventory` array into the subcollection and
+// takes it off the array in the same transaction, so a rerun never copies an entry
+// twice. Entry ids are kept so showcase items keep pointing at them. Returns false
+// once nothing is left.
+async function migrateLegacyChunk(db: Firestore, userId: string): Promise<boolean> {
+  const userRef = db.collection("users").doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const legacyInventory: InventoryEntry[] | undefined = userDoc.data()?.inventory;
+    if (!legacyInventory) {
+      return false;
+    }
+
+    const entriesRef = inventoryCollection(db, userId);
+    for (const entry of legacyInventory.slice(0, LEGACY_MIGRATION_CHUNK)) {
+      transaction.set(entriesRef.doc(entry.id), {
+        ...entry,
+        serialNumber: entry.serialNumber ?? null,
+        amount: entry.amount || 1,
+        nftLocked: entry.nftLocked || false,
+      });
+    }
+
+    const remaining = legacyInventory.slice(LEGACY_MIGRATION_CHUNK);
+    transaction.update(userRef, {
+      inventory: remaining.length > 0 ? remaining : FieldValue.delete(),
+      inventoryStatsStale: true,
+    });
+    return remaining.length > 0;
+  });
+}
+
+// Moves every legacy inventory array left on a user document into the subcollection,
+// where the server can sell, trade and wipe the entries. Runs at startup; a `!=`
+// query only matches documents that still have the field.
+export async function migrateLegacyInventories(db: Firestore): Promise<number> {
+  const snapshot = await db.collection("users").where("inventory", "!=", null).select().get();
+  let migrated = 0;
+
+  for (const userDoc of snapshot.docs) {
+    try {
+      while (await migrateLegacyChunk(db, userDoc.id)) {
+        // Keep going until the array is gone
+      }
+      markInventoryChanged(userDoc.id);
+      migrated++;
+    } catch (error) {
+      console.error(`Error migrating legacy inventory of ${userDoc.id}:`, error);
+    }
+  }
+
+  return migrated;
+}
@@ -0,0 +1,91 @@
+import type { DocumentSnapshot, Firestore, Transaction } from "firebase-admin/firestore";
+import type { ItemSale, TradeTerms } from "@shared/schema";
+
+// Every copy sold moves the RAP 10% of the way towards its price, so a single
+// outlier can't swing it far but a lasting shift shows up within a few dozen sales
+const RAP_WEIGHT = 0.1;
+
+export interface SalePrice {
+  itemId: string;
+  price: number; // Per copy
+  amount: number;
+}
+
+type TradeSide = TradeTerms["senderOffer"];
+
+function itemsValue(side: TradeSide): number {
+  return side.items.reduce((sum, item) => sum + item.itemValue * (item.amount || 1), 0);
+}
+
+// What one side paid for the items it got: the listed value of the items it gave
+// plus its cash, minus any cash it got back, split over the items by their value
+function impliedPrices(bought: TradeSide, paid: TradeSide): SalePrice[] {
+  const boughtValue = itemsValue(bought);
+  const paidValue = itemsValue(paid) + paid.cash - bought.cash;
+
+  if (boughtValue <= 0 || paidValue <= 0) {
+    return [];
+  }
+
+  return bought.items.map((item) => ({
+    itemId: item.itemId,
+    price: Math.round(paidValue * (item.itemValue / boughtValue)),
+    amount: item.amount || 1,
+  }));
+}
+
+export function tradeSalePrices(terms: Pick<TradeTerms, "senderOffer" | "receiverRequest">): SalePrice[] {
+  return [
+    ...impliedPrices(terms.senderOffer, terms.receiverRequest),
+    ...impliedPrices(terms.receiverRequest, terms.senderOffer),
+  ];
+}
+
+// Reads the item documents recordSales needs. Call before the transaction's first write.
+export async function readSaleItems(transaction: Transaction, db: Firestore, sales: SalePrice[]): Promise<Map<string, DocumentSnapshot>> {
+  const itemIds = Array.from(new Set(sales.map((sale) => sale.itemId)));
+  if (itemIds.length === 0) {
+    return new Map();
+  }
+
+  const itemDocs = await transaction.getAll(...itemIds.map((itemId) => db.collection("items").doc(itemId)));
+  return new Map(itemDocs.map((doc) => [doc.id, doc]));
+}
+
+// Adds a sales entry per sold item and moves each item's RAP towards the prices paid
+export function recordSales(
+  transaction: Transaction,
+  itemDocs: Map<string, DocumentSnapshot>,
+  sales: SalePrice[],
+  source: ItemSale["source"],
+  sourceId: string
+): void {
+  const raps = new Map<string, number>();
+  const now = Date.now();
+
+  for (const sale of sales) {
+    const itemDoc = itemDocs.get(sale.itemId);
+    if (!itemDoc?.exists || sale.price <= 0) continue;
+
+    const current: number | undefined = raps.get(sale.itemId) ?? itemDoc.data()?.rap;
+    // The first sale of an item sets its RAP outright
+    const rap = current === undefined
+      ? sale.price
+      : Math.round(sale.price + (current - sale.price) * Math.pow(1 - RAP_WEIGHT, sale.amount));
+    raps.set(sale.itemId, rap);
+
+    const sold: Omit<ItemSale, "id"> = {
+      price: sale.price,
+      amount: sale.amount,
+      source,
+      sourceId,
+      rap,
+      soldAt: now,
+    };
+    transaction.set(itemDoc.ref.collection("sales").doc(), sold);
+  }
+
+  for (const [itemId, rap] of Array.from(raps.entries())) {
+    transaction.update(itemDocs.get(itemId)!.ref, { rap, lastSoldAt: now });
+  }
+}
@@ -0,0 +1,114 @@
+import { FieldValue, type Firestore } from "firebase-admin/firestore";
+import { RARITY_TIERS, type Item } from "@shared/schema";
+import { sendItemReleaseWebhook } from "./discord-webhooks";
+import { notify } from "./moderation";
+import { rollableItemsCache } from "./rollable-items-cache";
+
+const RELEASE_CHECK_INTERVAL = 15 * 1000; // 15 seconds
+
+// Same format as the item release webhook sent by ItemCreateForm
+function formatTimerDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const totalHours = Math.floor(totalMinutes / 60);
+  return `${Math.floor(totalHours / 24)}d, ${totalHours % 24}h, ${totalMinutes % 60}m`;
+}
+
+// Puts one scheduled item live. Timer items start their timer now rather than at
+// creation. Re-reads the item so a drop that was already released is skipped.
+async function releaseItem(db: Firestore, itemId: string, now: number): Promise<Item | null> {
+  const itemRef = db.collection("items").doc(itemId);
+
+  return db.runTransaction(async (transaction) => {
+    const itemDoc = await transaction.get(itemRef);
+    const item = itemDoc.exists ? ({ id: itemDoc.id, ...itemDoc.data() } as Item) : null;
+
+    if (!item?.releaseAt || item.releaseAt > now) {
+      return null;
+    }
+
+    const timerExpiresAt = item.stockType === "timer" && item.timerDuration ? now + item.timerDuration : null;
+    transaction.update(itemRef, {
+      releaseAt: FieldValue.delete(),
+      ...(timerExpiresAt && { timerExpiresAt }),
+    });
+
+    return { ...item, releaseAt: null, ...(timerExpiresAt && { timerExpiresAt }) };
+  });
+}
+
+async function announceRelease(item: Item): Promise<void> {
+  try {
+    await sendItemReleaseWebhook({
+      name: item.name,
+      rarity: item.rarity,
+      value: item.value,
+      stock: item.stockType === "limited"
+        ? item.totalStock
+        : item.stockType === "timer"
+        ? `Timer - ${formatTimerDuration(item.timerDuration || 0)}`
+        : null,
+      imageUrl: item.imageUrl,
+    });
+  } catch (error) {
+    console.error(`Error sending release webhook for item ${item.id}:`, error);
+  }
+
+  await notify("Item Released", "System", "", [
+    `**Item:** ${item.name}`,
+    `**Rarity:** ${RARITY_TIERS[item.rarity].name}`,
+    `**Value:** ${item.value.toLocaleString()}`,
+    `**Status:** Scheduled drop went live`,
+  ], 0x5865F2);
+}
+
+// Releases every item whose releaseAt has passed. Releasing removes `releaseAt`,
+// so each item only matches this query once.
+export async function releaseScheduledItems(db: Firestore): Promise<number> {
+  const now = Date.now();
+  const snapshot = await db.collection("items").where("releaseAt", "<=", now).get();
+  const released: Item[] = [];
+
+  for (const itemDoc of snapshot.docs) {
+    try {
+      const item = await releaseItem(db, itemDoc.id, now);
+      if (item) {
+        released.push(item);
+      }
+    } catch (error) {
+      console.error(`Error releasing scheduled item ${itemDoc.id}:`, error);
+    }
+  }
+
+  if (released.length > 0) {
+    rollableItemsCache.invalidate();
+  }
+
+  for (const item of released) {
+    await announceRelease(item);
+  }
+
+  return released.length;
+}
+
+export function startItemReleases(db: Firestore): void {
+  let running = false;
+
+  const check = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const released = await releaseScheduledItems(db);
+      if (released > 0) {
+        console.log(`Item releases: released ${released} scheduled item(s)`);
+      }
+    } catch (error) {
+      console.error("Error releasing scheduled items:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  check();
+  setInterval(check, RELEASE_CHECK_INTERVAL);
+}
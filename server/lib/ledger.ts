@@ -0,0 +1,47 @@
+import type { DocumentSnapshot, Firestore, Transaction } from "firebase-admin/firestore";
+import type { InsertLedgerEntry, InventoryEntry, LedgerEntry, LedgerItemDelta, LedgerPage } from "@shared/schema";
+import { markStatsStale } from "./inventory-stats";
+
+// Appends a ledger entry as part of the caller's transaction. Write-only, so it
+// can be called after the transaction's reads. Every inventory change is recorded
+// here, so it also queues the player's inventory stats to be recomputed.
+export function recordLedgerEntry(transaction: Transaction, db: Firestore, entry: InsertLedgerEntry): void {
+  transaction.set(db.collection("ledger").doc(), entry);
+  if (entry.items.length > 0) {
+    markStatsStale(transaction, db, entry.userId);
+  }
+}
+
+// Deltas for whole inventory entries moving in (sign 1) or out (sign -1) of an inventory
+export function entryDeltas(entries: Array<DocumentSnapshot | InventoryEntry>, sign: 1 | -1): LedgerItemDelta[] {
+  return entries.map((entry) => {
+    const data = "data" in entry ? entry.data() || {} : entry;
+    return {
+      itemId: data.itemId,
+      serialNumber: data.serialNumber ?? null,
+      entryId: entry.id,
+      amount: sign * (data.amount || 1),
+    };
+  });
+}
+
+export async function getLedger(db: Firestore, userId: string, pageSize: number, cursor?: string): Promise<LedgerPage> {
+  let query = db.collection("ledger").where("userId", "==", userId).orderBy("timestamp", "desc");
+
+  if (cursor) {
+    const cursorDoc = await db.collection("ledger").doc(cursor).get();
+    if (!cursorDoc.exists) {
+      throw new Error("Invalid page cursor");
+    }
+    query = query.startAfter(cursorDoc);
+  }
+
+  // Read one extra entry to know whether another page follows
+  const snapshot = await query.limit(pageSize + 1).get();
+  const docs = snapshot.docs.slice(0, pageSize);
+
+  return {
+    entries: docs.map((doc) => ({ id: doc.id, ...doc.data() }) as LedgerEntry),
+    nextCursor: snapshot.docs.length > pageSize ? docs[docs.length - 1].id : null,
+  };
+}
@@ -0,0 +1,306 @@
+import type { Firestore } from "firebase-admin/firestore";
+import {
+  describeLuckEvent,
+  isLuckEventLive,
+  raritiesFrom,
+  type CreateLuckEventRequest,
+  type LuckEvent,
+} from "@shared/schema";
+import type { RollBoost } from "@shared/fairness";
+import { createAuditLog } from "./audit-log";
+import { sendLuckEventWebhook } from "./discord-webhooks";
+import { notify } from "./moderation";
+
+const LUCK_EVENT_CHECK_INTERVAL = 15 * 1000; // 15 seconds
+
+// Cached read of the scheduled and active luck events. Whether an event applies to a
+// roll is decided from its start and end times, so the boost doesn't wait for the
+// status job and a slightly stale cache can't extend an event past endsAt.
+class LuckEventsCache {
+  private events: LuckEvent[] = [];
+  private lastFetch = 0;
+  private fetchPromise: Promise<void> | null = null;
+  private readonly CACHE_DURATION = 30 * 1000; // 30 seconds
+
+  async getEvents(db: Firestore): Promise<LuckEvent[]> {
+    if (this.lastFetch > 0 && Date.now() - this.lastFetch < this.CACHE_DURATION) {
+      return this.events;
+    }
+
+    if (this.fetchPromise) {
+      await this.fetchPromise;
+      return this.events;
+    }
+
+    this.fetchPromise = this.fetchEvents(db);
+    try {
+      await this.fetchPromise;
+    } finally {
+      this.fetchPromise = null;
+    }
+
+    return this.events;
+  }
+
+  private async fetchEvents(db: Firestore): Promise<void> {
+    const snapshot = await db.collection("luckEvents").where("status", "in", ["scheduled", "active"]).get();
+    this.events = snapshot.docs
+      .map((eventDoc) => ({ id: eventDoc.id, ...eventDoc.data() }) as LuckEvent)
+      .sort((a, b) => a.startsAt - b.startsAt);
+    this.lastFetch = Date.now();
+  }
+
+  invalidate(): void {
+    this.lastFetch = 0;
+  }
+}
+
+export const luckEventsCache = new LuckEventsCache();
+
+function toBoost(event: LuckEvent): RollBoost {
+  return event.minRarity
+    ? { multiplier: event.multiplier, rarities: raritiesFrom(event.minRarity) }
+    : { multiplier: event.multiplier, itemId: event.itemId };
+}
+
+// Boosts from every event live right now, for performRoll
+export async function getActiveBoosts(db: Firestore): Promise<RollBoost[]> {
+  const now = Date.now();
+  const events = await luckEventsCache.getEvents(db);
+  return events.filter((event) => isLuckEventLive(event, now)).map(toBoost);
+}
+
+// Live and upcoming events, for the RollScreen banner and the admin list
+export async function getCurrentLuckEvents(db: Firestore): Promise<LuckEvent[]> {
+  const now = Date.now();
+  const events = await luckEventsCache.getEvents(db);
+  return events.filter((event) => event.endsAt > now);
+}
+
+export async function createLuckEvent(db: Firestore, adminId: string, request: CreateLuckEventRequest): Promise<LuckEvent> {
+  const now = Date.now();
+  const startsAt = Math.max(request.startsAt ?? now, now);
+  const endsAt = startsAt + request.durationMinutes * 60 * 1000;
+  const eventRef = db.collection("luckEvents").doc();
+  const adminRef = db.collection("users").doc(adminId);
+
+  const event = await db.runTransaction(async (transaction) => {
+    const [adminDoc, itemDoc] = await Promise.all([
+      transaction.get(adminRef),
+      request.itemId ? transaction.get(db.collection("items").doc(request.itemId)) : Promise.resolve(null),
+    ]);
+
+    if (itemDoc && !itemDoc.exists) {
+      throw new Error("Item not found");
+    }
+
+    const adminUsername = adminDoc.data()?.username || "Unknown";
+    const event: LuckEvent = {
+      id: eventRef.id,
+      name: request.name,
+      multiplier: request.multiplier,
+      ...(request.minRarity && { minRarity: request.minRarity }),
+      ...(itemDoc && { itemId: itemDoc.id, itemName: itemDoc.data()?.name || itemDoc.id }),
+      startsAt,
+      endsAt,
+      status: "scheduled",
+      createdBy: adminId,
+      createdByUsername: adminUsername,
+      createdAt: now,
+    };
+
+    const { id, ...data } = event;
+    transaction.set(eventRef, data);
+
+    await createAuditLog(db, {
+      timestamp: now,
+      adminId,
+      adminUsername,
+      actionType: "luck_event_create",
+      details: {
+        eventId: event.id,
+        name: event.name,
+        description: describeLuckEvent(event),
+        startsAt,
+        endsAt,
+      },
+    }, transaction);
+
+    return event;
+  });
+
+  luckEventsCache.invalidate();
+
+  await notify("Luck Event Created", event.createdByUsername, "", [
+    `**Event:** ${event.name}`,
+    `**Boost:** ${describeLuckEvent(event)}`,
+    `**Starts:** <t:${Math.floor(startsAt / 1000)}:f>`,
+    `**Ends:** <t:${Math.floor(endsAt / 1000)}:f>`,
+  ], 0x22C55E);
+
+  return event;
+}
+
+export async function cancelLuckEvent(db: Firestore, adminId: string, eventId: string): Promise<void> {
+  const eventRef = db.collection("luckEvents").doc(eventId);
+  const adminRef = db.collection("users").doc(adminId);
+
+  const { event, adminUsername } = await db.runTransaction(async (transaction) => {
+    const [eventDoc, adminDoc] = await Promise.all([
+      transaction.get(eventRef),
+      transaction.get(adminRef),
+    ]);
+
+    if (!eventDoc.exists) {
+      throw new Error("Luck event not found");
+    }
+
+    const event = { id: eventDoc.id, ...eventDoc.data() } as LuckEvent;
+    if (event.status === "ended" || event.status === "cancelled") {
+      throw new Error("Luck event has already ended");
+    }
+
+    const now = Date.now();
+    const adminUsername = adminDoc.data()?.username || "Unknown";
+    transaction.update(eventRef, {
+      status: "cancelled",
+      cancelledAt: now,
+      cancelledByUsername: adminUsername,
+    });
+
+    await createAuditLog(db, {
+      timestamp: now,
+      adminId,
+      adminUsername,
+      actionType: "luck_event_cancel",
+      details: {
+        eventId,
+        name: event.name,
+        description: describeLuckEvent(event),
+        previousStatus: event.status,
+      },
+    }, transaction);
+
+    return { event, adminUsername };
+  });
+
+  luckEventsCache.invalidate();
+
+  // Players were told about events that already started, so tell them it's over
+  if (event.status === "active") {
+    await announce(event, "ended");
+  }
+
+  await notify("Luck Event Cancelled", adminUsername, "", [
+    `**Event:** ${event.name}`,
+    `**Boost:** ${describeLuckEvent(event)}`,
+  ], 0xED4245);
+}
+
+async function announce(event: LuckEvent, phase: "started" | "ended"): Promise<void> {
+  try {
+    await sendLuckEventWebhook({
+      name: event.name,
+      description: describeLuckEvent(event),
+      phase,
+      endsAt: event.endsAt,
+    });
+  } catch (error) {
+    console.error(`Error sending luck event webhook for ${event.id}:`, error);
+  }
+
+  await notify(phase === "started" ? "Luck Event Started" : "Luck Event Ended", "System", "", [
+    `**Event:** ${event.name}`,
+    `**Boost:** ${describeLuckEvent(event)}`,
+  ], phase === "started" ? 0x22C55E : 0x99AAB5);
+}
+
+// Moves one event to its next status. Re-reads it so an event cancelled in the
+// meantime isn't announced.
+async function advanceLuckEvent(db: Firestore, eventId: string, now: number): Promise<{ event: LuckEvent; status: LuckEvent["status"] } | null> {
+  const eventRef = db.collection("luckEvents").doc(eventId);
+
+  return db.runTransaction(async (transaction) => {
+    const eventDoc = await transaction.get(eventRef);
+    if (!eventDoc.exists) {
+      return null;
+    }
+
+    const event = { id: eventDoc.id, ...eventDoc.data() } as LuckEvent;
+    const status = event.status !== "scheduled" && event.status !== "active"
+      ? null
+      : event.endsAt <= now
+      ? "ended"
+      : event.status === "scheduled" && event.startsAt <= now
+      ? "active"
+      : null;
+
+    if (!status) {
+      return null;
+    }
+
+    transaction.update(eventRef, { status });
+    return { event, status };
+  });
+}
+
+// Starts and ends events as their times pass, announcing each change. An event
+// whose whole window passed while the server was down ends without announcements.
+export async function advanceLuckEvents(db: Firestore): Promise<number> {
+  const now = Date.now();
+  const snapshot = await db.collection("luckEvents").where("status", "in", ["scheduled", "active"]).get();
+  const changes: Array<{ event: LuckEvent; status: LuckEvent["status"] }> = [];
+
+  for (const eventDoc of snapshot.docs) {
+    const data = eventDoc.data() as LuckEvent;
+    if (data.endsAt > now && (data.status === "active" || data.startsAt > now)) {
+      continue;
+    }
+
+    try {
+      const change = await advanceLuckEvent(db, eventDoc.id, now);
+      if (change) {
+        changes.push(change);
+      }
+    } catch (error) {
+      console.error(`Error advancing luck event ${eventDoc.id}:`, error);
+    }
+  }
+
+  if (changes.length > 0) {
+    luckEventsCache.invalidate();
+  }
+
+  for (const { event, status } of changes) {
+    if (status === "active") {
+      await announce(event, "started");
+    } else if (event.status === "active") {
+      await announce(event, "ended");
+    }
+  }
+
+  return changes.length;
+}
+
+export function startLuckEvents(db: Firestore): void {
+  let running = false;
+
+  const check = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const changed = await advanceLuckEvents(db);
+      if (changed > 0) {
+        console.log(`Luck events: updated ${changed} event(s)`);
+      }
+    } catch (error) {
+      console.error("Error updating luck events:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  check();
+  setInterval(check, LUCK_EVENT_CHECK_INTERVAL);
+}
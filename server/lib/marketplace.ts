@@ -0,0 +1,315 @@
+import type { DocumentSnapshot, Firestore } from "firebase-admin/firestore";
+import { calculateSellSplit, type CreateListingRequest, type MarketListing } from "@shared/schema";
+import { recordEconomyFlow } from "./economy";
+import { getAdminDocId } from "./firebase-admin";
+import { gameConfigCache } from "./game-config";
+import { createInventoryEntryId, inventoryCollection, markInventoryChanged } from "./inventory";
+import { readSaleItems, recordSales } from "./item-rap";
+import { recordLedgerEntry } from "./ledger";
+
+const MAX_ACTIVE_LISTINGS = 10;
+
+function isBanned(userData: Record<string, any>): boolean {
+  return !!userData.isBanned && (userData.isPermanentBan || !userData.banExpiresAt || userData.banExpiresAt > Date.now());
+}
+
+// A listing can only be bought while the seller still holds the exact serial, unlocked
+function entryAvailable(listing: Pick<MarketListing, "itemId" | "serialNumber">, entryDoc: DocumentSnapshot): boolean {
+  const entryData = entryDoc.data();
+  return !!entryData
+    && !entryData.nftLocked
+    && entryData.itemId === listing.itemId
+    && entryData.serialNumber === listing.serialNumber;
+}
+
+export async function createListing(db: Firestore, userId: string, { inventoryId, price }: CreateListingRequest): Promise<string> {
+  const userRef = db.collection("users").doc(userId);
+  const entryRef = inventoryCollection(db, userId).doc(inventoryId);
+  const listingRef = db.collection("marketListings").doc();
+
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const userData = userDoc.data();
+
+    if (!userData) {
+      throw new Error("User not found");
+    }
+
+    if (isBanned(userData)) {
+      throw new Error("Banned users cannot list items");
+    }
+
+    const entryDoc = await transaction.get(entryRef);
+    const entryData = entryDoc.data();
+
+    if (!entryData) {
+      throw new Error("Item is no longer in your inventory");
+    }
+
+    if (entryData.nftLocked) {
+      throw new Error("NFT-locked items cannot be listed");
+    }
+
+    if (entryData.serialNumber === null || entryData.serialNumber === undefined) {
+      throw new Error("Only serialed items can be listed on the marketplace");
+    }
+
+    const activeListings = await transaction.get(
+      db.collection("marketListings")
+        .where("sellerId", "==", userId)
+        .where("status", "==", "active")
+    );
+
+    if (activeListings.docs.some((doc) => doc.data().inventoryId === inventoryId)) {
+      throw new Error("This item is already listed");
+    }
+
+    if (activeListings.size >= MAX_ACTIVE_LISTINGS) {
+      throw new Error(`You can have at most ${MAX_ACTIVE_LISTINGS} active listings`);
+    }
+
+    const itemDoc = await transaction.get(db.collection("items").doc(entryData.itemId));
+    const itemData = itemDoc.data();
+
+    if (!itemData) {
+      throw new Error("Item not found");
+    }
+
+    const now = Date.now();
+    const listing: Omit<MarketListing, "id"> = {
+      sellerId: userId,
+      sellerUsername: userData.username,
+      inventoryId,
+      itemId: entryData.itemId,
+      itemName: itemData.name,
+      itemImageUrl: itemData.imageUrl,
+      itemValue: itemData.value,
+      itemRarity: itemData.rarity,
+      serialNumber: entryData.serialNumber,
+      price,
+      status: "active",
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    transaction.set(listingRef, listing);
+  });
+
+  return listingRef.id;
+}
+
+export async function cancelListing(db: Firestore, listingId: string, userId: string): Promise<void> {
+  const listingRef = db.collection("marketListings").doc(listingId);
+
+  await db.runTransaction(async (transaction) => {
+    const listingDoc = await transaction.get(listingRef);
+    const listing = listingDoc.data() as MarketListing | undefined;
+
+    if (!listing) {
+      throw new Error("Listing not found");
+    }
+
+    if (listing.sellerId !== userId) {
+      throw new Error("You can only cancel your own listings");
+    }
+
+    if (listing.status !== "active") {
+      throw new Error("Listing is no longer active");
+    }
+
+    transaction.update(listingRef, {
+      status: "cancelled",
+      cancelledReason: "seller",
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+// Settles a purchase the same way an accepted trade is settled: everything is
+// re-read in one transaction, the serial moves to a new entry in the buyer's
+// inventory and the price is split between the seller and the admin account.
+export async function buyListing(db: Firestore, listingId: string, buyerId: string): Promise<MarketListing> {
+  const listingRef = db.collection("marketListings").doc(listingId);
+
+  const [adminDocId, config] = await Promise.all([
+    getAdminDocId(),
+    gameConfigCache.getConfig(db),
+  ]);
+
+  if (!adminDocId) {
+    throw new Error("Admin user not found");
+  }
+
+  const listing = await db.runTransaction(async (transaction) => {
+    const listingDoc = await transaction.get(listingRef);
+    const listing = listingDoc.data() as MarketListing | undefined;
+
+    if (!listing) {
+      throw new Error("Listing not found");
+    }
+
+    if (listing.status !== "active") {
+      throw new Error("Listing is no longer active");
+    }
+
+    if (listing.sellerId === buyerId) {
+      throw new Error("You cannot buy your own listing");
+    }
+
+    const buyerRef = db.collection("users").doc(buyerId);
+    const sellerRef = db.collection("users").doc(listing.sellerId);
+    const adminRef = db.collection("users").doc(adminDocId);
+    const entryRef = inventoryCollection(db, listing.sellerId).doc(listing.inventoryId);
+
+    // Firestore requires every read before the first write
+    const [buyerDoc, sellerDoc, adminDoc, entryDoc] = await transaction.getAll(buyerRef, sellerRef, adminRef, entryRef);
+    const sales = [{ itemId: listing.itemId, price: listing.price, amount: 1 }];
+    const saleItems = await readSaleItems(transaction, db, sales);
+
+    const buyerData = buyerDoc.data();
+    if (!buyerData || !sellerDoc.exists) {
+      throw new Error("One or both users not found");
+    }
+
+    if (!adminDoc.exists) {
+      throw new Error("Admin user not found");
+    }
+
+    if (isBanned(buyerData)) {
+      throw new Error("Banned users cannot buy items");
+    }
+
+    if ((buyerData.cash || 0) < listing.price) {
+      throw new Error("You don't have enough cash");
+    }
+
+    if (!entryAvailable(listing, entryDoc)) {
+      throw new Error(`${listing.sellerUsername} no longer has this item`);
+    }
+
+    const { playerEarned, adminEarned } = calculateSellSplit(listing.price, config.marketFeeRate);
+
+    // The admin can be the buyer or the seller, so cash changes are summed per user
+    const cashChanges = new Map<string, { doc: DocumentSnapshot; delta: number }>();
+    const addCash = (doc: DocumentSnapshot, delta: number) => {
+      const existing = cashChanges.get(doc.id);
+      if (existing) {
+        existing.delta += delta;
+      } else {
+        cashChanges.set(doc.id, { doc, delta });
+      }
+    };
+    addCash(buyerDoc, -listing.price);
+    addCash(sellerDoc, playerEarned);
+    addCash(adminDoc, adminEarned);
+
+    for (const { doc, delta } of Array.from(cashChanges.values())) {
+      transaction.update(doc.ref, { cash: (doc.data()?.cash || 0) + delta });
+    }
+
+    const cashOf = (doc: DocumentSnapshot) => {
+      const cashBefore = doc.data()?.cash || 0;
+      return { cashBefore, cashAfter: cashBefore + cashChanges.get(doc.id)!.delta };
+    };
+
+    transaction.delete(entryRef);
+
+    const newEntryRef = inventoryCollection(db, buyerId).doc(createInventoryEntryId(listing.itemId));
+    transaction.set(newEntryRef, {
+      id: newEntryRef.id,
+      itemId: listing.itemId,
+      serialNumber: listing.serialNumber,
+      rolledAt: Date.now(),
+      amount: 1,
+      nftLocked: false,
+    });
+
+    const now = Date.now();
+    const sold = {
+      status: "sold" as const,
+      buyerId,
+      buyerUsername: buyerData.username,
+      fee: adminEarned,
+      sellerEarned: playerEarned,
+      soldAt: now,
+      updatedAt: now,
+    };
+    transaction.update(listingRef, sold);
+
+    recordSales(transaction, saleItems, sales, "marketplace", listingId);
+    recordEconomyFlow(transaction, db, { marketVolume: listing.price, marketFees: adminEarned });
+
+    const soldItem = { itemId: listing.itemId, itemName: listing.itemName, serialNumber: listing.serialNumber };
+    recordLedgerEntry(transaction, db, {
+      userId: buyerId,
+      type: "market_buy",
+      timestamp: now,
+      ...cashOf(buyerDoc),
+      items: [{ ...soldItem, entryId: newEntryRef.id, amount: 1 }],
+      counterpartyId: listing.sellerId,
+      counterpartyUsername: listing.sellerUsername,
+      referenceId: listingId,
+    });
+    recordLedgerEntry(transaction, db, {
+      userId: listing.sellerId,
+      type: "market_sell",
+      timestamp: now,
+      ...cashOf(sellerDoc),
+      items: [{ ...soldItem, entryId: listing.inventoryId, amount: -1 }],
+      counterpartyId: buyerId,
+      counterpartyUsername: buyerData.username,
+      referenceId: listingId,
+      details: { price: listing.price, fee: adminEarned },
+    });
+
+    return { ...listing, ...sold, id: listingId };
+  });
+
+  // Pending trades and ads of either user may rely on what just changed hands
+  markInventoryChanged(listing.sellerId, buyerId);
+  return listing;
+}
+
+// Cancels active listings whose serial has left the seller's inventory (sold, traded,
+// wiped) or was NFT-locked. Checks only the given users' listings, or every one when null.
+export async function closeStaleListings(db: Firestore, userIds: Set<string> | null): Promise<number> {
+  if (userIds && userIds.size === 0) {
+    return 0;
+  }
+
+  const activeListings = db.collection("marketListings").where("status", "==", "active");
+  const snapshots = userIds
+    ? await Promise.all(Array.from(userIds).map((userId) => activeListings.where("sellerId", "==", userId).get()))
+    : [await activeListings.get()];
+  let closed = 0;
+
+  for (const listingDoc of snapshots.flatMap((snapshot) => snapshot.docs)) {
+    // Re-read in a transaction so a listing bought in the meantime stays sold
+    const wasClosed = await db.runTransaction(async (transaction) => {
+      const currentDoc = await transaction.get(listingDoc.ref);
+      const listing = currentDoc.data() as MarketListing | undefined;
+
+      if (!listing || listing.status !== "active") {
+        return false;
+      }
+
+      const entryDoc = await transaction.get(inventoryCollection(db, listing.sellerId).doc(listing.inventoryId));
+      if (entryAvailable(listing, entryDoc)) {
+        return false;
+      }
+
+      transaction.update(listingDoc.ref, {
+        status: "cancelled",
+        cancelledReason: "unavailable",
+        updatedAt: Date.now(),
+      });
+      return true;
+    });
+
+    if (wasClosed) {
+      closed++;
+    }
+  }
+
+  return closed;
+}
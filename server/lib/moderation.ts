@@ -0,0 +1,506 @@
+import { FieldValue, type DocumentData, type Firestore, type QuerySnapshot, type Transaction } from "firebase-admin/firestore";
+import { MODERATOR_MAX_BAN_DAYS, WARNING_SEVERITIES, canModerate, getActiveWarningPoints, getStaffRole, type AuditSnapshot, type BanUserRequest, type GameConfig, type InventoryEntry, type ModerationAction, type StaffRole, type Warning, type WarnUserRequest } from "@shared/schema";
+import { createAuditLog } from "./audit-log";
+import { sendAdminLogWebhook } from "./discord-webhooks";
+import { getAdminDocId } from "./firebase-admin";
+import { gameConfigCache } from "./game-config";
+import { inventoryCollection, markInventoryChanged } from "./inventory";
+import { entryDeltas, recordLedgerEntry } from "./ledger";
+
+const DAY = 24 * 60 * 60 * 1000;
+const BAN_EXPIRY_INTERVAL = 60 * 1000; // 1 minute
+
+const ACTION_DESCRIPTIONS: Record<ModerationAction, string> = {
+  warn: "warn users",
+  temp_ban: "give temporary bans",
+  lift_temp_ban: "lift temporary bans",
+  permanent_ban: "give permanent bans",
+  lift_permanent_ban: "lift permanent bans",
+  wipe: "wipe inventories",
+};
+
+interface Parties {
+  actor: DocumentData;
+  target: DocumentData;
+  role: StaffRole | null;
+}
+
+// Reads the acting user and the target. Nobody can act on themselves or the Admin
+// account, and moderators can't act on other staff.
+export async function readParties(transaction: Transaction, db: Firestore, actorId: string, targetId: string): Promise<Parties> {
+  if (actorId === targetId) {
+    throw new Error("You cannot take moderation actions on yourself");
+  }
+
+  const [actorDoc, targetDoc] = await transaction.getAll(
+    db.collection("users").doc(actorId),
+    db.collection("users").doc(targetId),
+  );
+  const actor = actorDoc.data();
+  const target = targetDoc.data();
+
+  if (!actor) {
+    throw new Error("User not found");
+  }
+
+  if (!target) {
+    throw new Error("Target user not found");
+  }
+
+  const role = getStaffRole(actor);
+  if (!role) {
+    throw new Error("Forbidden - Staff access required");
+  }
+
+  if (target.userId === 1) {
+    throw new Error("The Admin account cannot be moderated");
+  }
+
+  if (role !== "admin" && getStaffRole(target)) {
+    throw new Error("Moderators cannot take action against other staff");
+  }
+
+  return { actor, target, role };
+}
+
+export function assertAllowed(role: StaffRole | null, ...actions: ModerationAction[]): void {
+  const denied = actions.find((action) => !canModerate(role, action));
+  if (denied) {
+    throw new Error(`Only admins can ${ACTION_DESCRIPTIONS[denied]}`);
+  }
+}
+
+// Written to a user's document whenever a ban is lifted
+export function liftedBanFields() {
+  return {
+    isBanned: false,
+    isPermanentBan: false,
+    banReason: "",
+    banNotes: FieldValue.delete(),
+    banExpiresAt: FieldValue.delete(),
+  };
+}
+
+async function requireAdminDocId(): Promise<string> {
+  const adminId = await getAdminDocId();
+  if (!adminId) {
+    throw new Error("Admin user not found. Cannot wipe inventory.");
+  }
+  return adminId;
+}
+
+// Ban fields of a user before an action changes them, for the audit log snapshot
+function captureBanState(user: DocumentData): Extract<AuditSnapshot, { type: "user_ban" }>["user"] {
+  return {
+    isBanned: user.isBanned === true,
+    isPermanentBan: user.isPermanentBan === true,
+    banReason: user.banReason || "",
+    ...(user.banNotes && { banNotes: user.banNotes }),
+    ...(user.banExpiresAt && { banExpiresAt: user.banExpiresAt }),
+  };
+}
+
+function captureEntries(entries: QuerySnapshot): InventoryEntry[] {
+  return entries.docs.map((entryDoc) => ({ ...entryDoc.data(), id: entryDoc.id }) as InventoryEntry);
+}
+
+// Moves every entry the transaction read from the target's inventory to the admin
+// account, and records the loss on the target's ledger
+function moveInventoryToAdmin(transaction: Transaction, db: Firestore, entries: QuerySnapshot, adminId: string, { actor, target }: Parties, targetId: string, actorId: string): void {
+  for (const entryDoc of entries.docs) {
+    transaction.set(inventoryCollection(db, adminId).doc(entryDoc.id), entryDoc.data());
+    transaction.delete(entryDoc.ref);
+  }
+
+  if (entries.empty) {
+    return;
+  }
+
+  recordLedgerEntry(transaction, db, {
+    userId: targetId,
+    type: "admin_wipe",
+    timestamp: Date.now(),
+    cashBefore: target.cash || 0,
+    cashAfter: target.cash || 0,
+    items: entryDeltas(entries.docs, -1),
+    counterpartyId: actorId,
+    counterpartyUsername: actor.username,
+  });
+}
+
+export async function notify(action: string, adminUsername: string, targetUsername: string, details: string[], color: number): Promise<void> {
+  try {
+    await sendAdminLogWebhook({ action, adminUsername, targetUsername, details, color });
+  } catch (error) {
+    console.error("Error sending moderation webhook:", error);
+  }
+}
+
+export async function banUser(db: Firestore, actorId: string, targetId: string, request: BanUserRequest): Promise<{ itemsWiped: number }> {
+  const adminId = request.wipeInventory ? await requireAdminDocId() : null;
+
+  const reason = request.reason || "No reason provided";
+  const userRef = db.collection("users").doc(targetId);
+
+  const { actor, target, itemsWiped } = await db.runTransaction(async (transaction) => {
+    const parties = await readParties(transaction, db, actorId, targetId);
+    assertAllowed(parties.role, request.isPermanent ? "permanent_ban" : "temp_ban", ...(adminId ? ["wipe" as const] : []));
+
+    if (!request.isPermanent && request.days > MODERATOR_MAX_BAN_DAYS && !canModerate(parties.role, "permanent_ban")) {
+      throw new Error(`Temporary bans can last at most ${MODERATOR_MAX_BAN_DAYS} days`);
+    }
+
+    // Banning again replaces the current ban, which would lift a permanent one
+    if (parties.target.isBanned && parties.target.isPermanentBan) {
+      assertAllowed(parties.role, "lift_permanent_ban");
+    }
+
+    const entries = adminId ? await transaction.get(inventoryCollection(db, targetId)) : null;
+
+    transaction.update(userRef, {
+      isBanned: true,
+      isPermanentBan: request.isPermanent,
+      banReason: reason,
+      banNotes: request.notes || FieldValue.delete(),
+      banExpiresAt: request.isPermanent ? FieldValue.delete() : Date.now() + request.days * DAY,
+    });
+
+    if (entries && adminId) {
+      moveInventoryToAdmin(transaction, db, entries, adminId, parties, targetId, actorId);
+    }
+
+    await createAuditLog(db, {
+      timestamp: Date.now(),
+      adminId: actorId,
+      adminUsername: parties.actor.username,
+      actionType: "user_ban",
+      targetUserId: targetId,
+      targetUsername: parties.target.username,
+      details: {
+        reason,
+        isPermanent: request.isPermanent,
+        duration: request.isPermanent ? 0 : request.days,
+        wipeInventory: request.wipeInventory,
+        ...(request.notes && { banNotes: request.notes }),
+        ...(request.reportId && { reportId: request.reportId }),
+      },
+      metadata: {
+        banReason: reason,
+        isPermanentBan: request.isPermanent,
+        ...(!request.isPermanent && { banDuration: request.days * DAY }),
+        ...(entries && { itemsWiped: entries.size }),
+      },
+      snapshot: {
+        type: "user_ban",
+        user: captureBanState(parties.target),
+        wipedEntries: entries ? captureEntries(entries) : [],
+        ...(adminId && { adminId }),
+      },
+    }, transaction);
+
+    return { ...parties, itemsWiped: entries?.size ?? 0 };
+  });
+
+  if (adminId) {
+    markInventoryChanged(targetId, adminId);
+  }
+
+  const details = [
+    `**User:** ${target.username}`,
+    `**Reason:** ${reason}`,
+    `**Type:** ${request.isPermanent ? "Permanent Ban" : `Temporary (${request.days} days)`}`,
+  ];
+  if (request.wipeInventory) {
+    details.push(`**Inventory:** Wiped (${itemsWiped} items)`);
+  }
+  await notify("User Banned", actor.username, target.username, details, 0xED4245);
+
+  return { itemsWiped };
+}
+
+export async function unbanUser(db: Firestore, actorId: string, targetId: string): Promise<void> {
+  const userRef = db.collection("users").doc(targetId);
+
+  const { actor, target } = await db.runTransaction(async (transaction) => {
+    const parties = await readParties(transaction, db, actorId, targetId);
+
+    if (!parties.target.isBanned) {
+      throw new Error("User is not banned");
+    }
+    assertAllowed(parties.role, parties.target.isPermanentBan ? "lift_permanent_ban" : "lift_temp_ban");
+
+    transaction.update(userRef, liftedBanFields());
+
+    await createAuditLog(db, {
+      timestamp: Date.now(),
+      adminId: actorId,
+      adminUsername: parties.actor.username,
+      actionType: "user_unban",
+      targetUserId: targetId,
+      targetUsername: parties.target.username,
+      details: {
+        action: "User unbanned",
+        wasPermanent: parties.target.isPermanentBan === true,
+      },
+    }, transaction);
+
+    return parties;
+  });
+
+  await notify("User Unbanned", actor.username, target.username, [`**User:** ${target.username}`, `**Status:** Unbanned`], 0x57F287);
+}
+
+// Highest escalation step crossed by going from `before` to `after` active points
+function findEscalation(escalations: GameConfig["warningEscalations"], before: number, after: number): GameConfig["warningEscalations"][number] | null {
+  return escalations
+    .filter((step) => before < step.points && step.points <= after)
+    .reduce<GameConfig["warningEscalations"][number] | null>((highest, step) => (!highest || step.points > highest.points ? step : highest), null);
+}
+
+// Stores a warning on the user. If their active points cross an escalation
+// threshold they are temp-banned automatically, unless a longer ban is already running.
+export async function warnUser(db: Firestore, actorId: string, targetId: string, request: WarnUserRequest): Promise<{ points: number; banDays: number | null }> {
+  const reason = request.reason || "No reason provided";
+  const severity = WARNING_SEVERITIES[request.severity];
+  const config = await gameConfigCache.getConfig(db);
+  const userRef = db.collection("users").doc(targetId);
+  const warningsRef = userRef.collection("warnings");
+
+  const { actor, target, points, banDays } = await db.runTransaction(async (transaction) => {
+    const parties = await readParties(transaction, db, actorId, targetId);
+    assertAllowed(parties.role, "warn");
+
+    const now = Date.now();
+    const activeWarnings = await transaction.get(warningsRef.where("expiresAt", ">", now));
+    const previousPoints = getActiveWarningPoints(activeWarnings.docs.map((doc) => doc.data() as Warning), now);
+    const points = previousPoints + severity.points;
+
+    const escalation = findEscalation(config.warningEscalations, previousPoints, points);
+    const banExpiresAt = escalation ? now + escalation.banDays * DAY : 0;
+    const alreadyBanned = parties.target.isBanned && (parties.target.isPermanentBan || !parties.target.banExpiresAt || parties.target.banExpiresAt >= banExpiresAt);
+    const banDays = escalation && !alreadyBanned ? escalation.banDays : null;
+
+    const warning: Omit<Warning, "id"> = {
+      reason,
+      ...(request.message && { message: request.message }),
+      severity: request.severity,
+      points: severity.points,
+      issuedAt: now,
+      expiresAt: now + severity.expiryDays * DAY,
+      issuedBy: actorId,
+      issuedByUsername: parties.actor.username,
+      ...(request.reportId && { reportId: request.reportId }),
+      ...(banDays && { escalationBanDays: banDays }),
+    };
+    transaction.set(warningsRef.doc(), warning);
+
+    await createAuditLog(db, {
+      timestamp: now,
+      adminId: actorId,
+      adminUsername: parties.actor.username,
+      actionType: "user_warn",
+      targetUserId: targetId,
+      targetUsername: parties.target.username,
+      details: {
+        action: "User warned",
+        reason,
+        message: request.message || "",
+        severity: request.severity,
+        activePoints: points,
+        ...(request.reportId && { reportId: request.reportId }),
+      },
+    }, transaction);
+
+    if (banDays) {
+      const banReason = `Reached ${points} warning points (latest: ${reason})`;
+      transaction.update(userRef, {
+        isBanned: true,
+        isPermanentBan: false,
+        banReason,
+        banNotes: FieldValue.delete(),
+        banExpiresAt,
+      });
+
+      await createAuditLog(db, {
+        timestamp: now,
+        adminId: "system",
+        adminUsername: "System",
+        actionType: "user_ban",
+        targetUserId: targetId,
+        targetUsername: parties.target.username,
+        details: {
+          reason: banReason,
+          isPermanent: false,
+          duration: banDays,
+          wipeInventory: false,
+          escalation: true,
+          activePoints: points,
+          warnedBy: parties.actor.username,
+        },
+        metadata: {
+          banReason,
+          isPermanentBan: false,
+          banDuration: banDays * DAY,
+        },
+        snapshot: {
+          type: "user_ban",
+          user: captureBanState(parties.target),
+          wipedEntries: [],
+        },
+      }, transaction);
+    }
+
+    return { ...parties, points, banDays };
+  });
+
+  const details = [
+    `**User:** ${target.username}`,
+    `**Reason:** ${reason}`,
+    `**Type:** ${severity.label} Warning (${points} active points)`,
+  ];
+  if (request.message) {
+    details.push(`**Message:** ${request.message}`);
+  }
+  await notify("User Warned", actor.username, target.username, details, 0xFEE75C);
+
+  if (banDays) {
+    await notify("User Banned (Automatic)", "System", target.username, [
+      `**User:** ${target.username}`,
+      `**Reason:** Reached ${points} warning points`,
+      `**Type:** Temporary (${banDays} days)`,
+    ], 0xED4245);
+  }
+
+  return { points, banDays };
+}
+
+export async function wipeUserInventory(db: Firestore, actorId: string, targetId: string): Promise<{ itemsWiped: number }> {
+  const adminId = await requireAdminDocId();
+
+  const { actor, target, itemsWiped } = await db.runTransaction(async (transaction) => {
+    const parties = await readParties(transaction, db, actorId, targetId);
+    assertAllowed(parties.role, "wipe");
+
+    const entries = await transaction.get(inventoryCollection(db, targetId));
+    moveInventoryToAdmin(transaction, db, entries, adminId, parties, targetId, actorId);
+
+    await createAuditLog(db, {
+      timestamp: Date.now(),
+      adminId: actorId,
+      adminUsername: parties.actor.username,
+      actionType: "user_wipe_inventory",
+      targetUserId: targetId,
+      targetUsername: parties.target.username,
+      details: {
+        action: "Inventory wiped",
+        itemsTransferred: entries.size,
+      },
+      metadata: {
+        itemsWiped: entries.size,
+      },
+      snapshot: {
+        type: "user_wipe_inventory",
+        wipedEntries: captureEntries(entries),
+        adminId,
+      },
+    }, transaction);
+
+    return { ...parties, itemsWiped: entries.size };
+  });
+
+  markInventoryChanged(targetId, adminId);
+
+  await notify("Inventory Wiped", actor.username, target.username, [
+    `**User:** ${target.username}`,
+    `**Items Wiped:** ${itemsWiped}`,
+    `**Transferred to:** Admin`,
+  ], 0xFEE75C);
+
+  return { itemsWiped };
+}
+
+// Lifts one expired temporary ban. Re-reads the user in a transaction so a ban
+// extended or made permanent in the meantime is left alone.
+async function liftExpiredBan(db: Firestore, userId: string, now: number): Promise<DocumentData | null> {
+  const userRef = db.collection("users").doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const user = userDoc.data();
+
+    if (!user?.isBanned || user.isPermanentBan || !user.banExpiresAt || user.banExpiresAt > now) {
+      return null;
+    }
+
+    transaction.update(userRef, liftedBanFields());
+
+    await createAuditLog(db, {
+      timestamp: now,
+      adminId: "system",
+      adminUsername: "System",
+      actionType: "user_unban",
+      targetUserId: userId,
+      targetUsername: user.username,
+      details: {
+        action: "Temporary ban expired",
+        wasPermanent: false,
+        banReason: user.banReason || "",
+        expiredAt: user.banExpiresAt,
+      },
+    }, transaction);
+
+    return user;
+  });
+}
+
+// Unbans every user whose temporary ban has run out. Only banned users are
+// read, so an unbanned user with a leftover `banExpiresAt` never matches.
+export async function expireTemporaryBans(db: Firestore): Promise<number> {
+  const now = Date.now();
+  const snapshot = await db.collection("users")
+    .where("isBanned", "==", true)
+    .where("banExpiresAt", "<=", now)
+    .get();
+  let lifted = 0;
+
+  for (const userDoc of snapshot.docs) {
+    try {
+      const user = await liftExpiredBan(db, userDoc.id, now);
+      if (!user) continue;
+
+      lifted++;
+      await notify("Temporary Ban Expired", "System", user.username, [
+        `**User:** ${user.username}`,
+        `**Reason:** ${user.banReason || "No reason provided"}`,
+        `**Status:** Unbanned automatically`,
+      ], 0x57F287);
+    } catch (error) {
+      console.error(`Error lifting expired ban for user ${userDoc.id}:`, error);
+    }
+  }
+
+  return lifted;
+}
+
+export function startBanExpiry(db: Firestore): void {
+  let running = false;
+
+  const check = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const lifted = await expireTemporaryBans(db);
+      if (lifted > 0) {
+        console.log(`Ban expiry: lifted ${lifted} expired temporary ban(s)`);
+      }
+    } catch (error) {
+      console.error("Error expiring temporary bans:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  check();
+  setInterval(check, BAN_EXPIRY_INTERVAL);
+}
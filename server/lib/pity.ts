@@ -0,0 +1,20 @@
+import { PITY_RARITIES, RARITY_TIERS, raritiesFrom, type GameConfig, type RarityTier } from "@shared/schema";
+import type { RollBoost } from "@shared/fairness";
+
+const RARITY_ORDER = Object.keys(RARITY_TIERS) as RarityTier[];
+
+// One boost per configured threshold the player's dry streak has reached.
+// Thresholds stack, so a player past both the EPIC and MYTHIC steps gets both on MYTHIC items.
+export function getPityBoosts(counters: Record<string, number> | undefined, thresholds: GameConfig["pityThresholds"]): RollBoost[] {
+  return thresholds
+    .filter((threshold) => (counters?.[threshold.rarity] ?? 0) >= threshold.rolls)
+    .map((threshold) => ({ multiplier: threshold.multiplier, rarities: raritiesFrom(threshold.rarity) }));
+}
+
+// Counters after rolling an item of `rolled`: every tier at or below it resets, the rest count up
+export function advancePityCounters(counters: Record<string, number> | undefined, rolled: RarityTier): Record<string, number> {
+  const rolledIndex = RARITY_ORDER.indexOf(rolled);
+  return Object.fromEntries(
+    PITY_RARITIES.map((rarity) => [rarity, rolledIndex >= RARITY_ORDER.indexOf(rarity) ? 0 : (counters?.[rarity] ?? 0) + 1])
+  );
+}
@@ -0,0 +1,167 @@
+import { FieldValue, type Firestore } from "firebase-admin/firestore";
+import type { CreateReportRequest, InsertTrade, Report, UpdateReportRequest } from "@shared/schema";
+import { createAuditLog } from "./audit-log";
+
+const MAX_OPEN_REPORTS = 5;
+
+function isOpen(report: Report): boolean {
+  return report.status === "open" || report.status === "investigating";
+}
+
+export async function createReport(db: Firestore, reporterId: string, { targetUserId, category, description, tradeId }: CreateReportRequest): Promise<string> {
+  if (targetUserId === reporterId) {
+    throw new Error("You cannot report yourself");
+  }
+
+  const [reporterDoc, targetDoc, tradeDoc, reporterReports] = await Promise.all([
+    db.collection("users").doc(reporterId).get(),
+    db.collection("users").doc(targetUserId).get(),
+    tradeId ? db.collection("trades").doc(tradeId).get() : Promise.resolve(null),
+    db.collection("reports").where("reporterId", "==", reporterId).get(),
+  ]);
+
+  const reporterData = reporterDoc.data();
+  const targetData = targetDoc.data();
+
+  if (!reporterData) {
+    throw new Error("User not found");
+  }
+
+  if (!targetData) {
+    throw new Error("Reported player not found");
+  }
+
+  if (reporterData.isBanned && (reporterData.isPermanentBan || !reporterData.banExpiresAt || reporterData.banExpiresAt > Date.now())) {
+    throw new Error("Banned users cannot file reports");
+  }
+
+  const openReports = reporterReports.docs.map((doc) => doc.data() as Report).filter(isOpen);
+  if (openReports.length >= MAX_OPEN_REPORTS) {
+    throw new Error(`You can have at most ${MAX_OPEN_REPORTS} open reports at once`);
+  }
+
+  const duplicate = openReports.some((report) =>
+    report.targetUserId === targetUserId &&
+    (report.evidence.type === "trade" ? report.evidence.tradeId === tradeId : !tradeId)
+  );
+  if (duplicate) {
+    throw new Error("You already have an open report about this");
+  }
+
+  let evidence: Report["evidence"];
+  if (tradeDoc) {
+    const trade = tradeDoc.data() as InsertTrade | undefined;
+    if (!trade) {
+      throw new Error("Trade not found");
+    }
+
+    const parties = [trade.senderId, trade.receiverId];
+    if (!parties.includes(reporterId) || !parties.includes(targetUserId)) {
+      throw new Error("You can only report trades between you and the reported player");
+    }
+
+    evidence = { type: "trade", tradeId: tradeDoc.id, trade };
+  } else {
+    evidence = {
+      type: "profile",
+      profile: {
+        userId: targetData.userId,
+        customStatus: targetData.customStatus || "",
+        description: targetData.description || "",
+        showcaseMetadata: targetData.showcaseMetadata || [],
+        inventoryValue: targetData.inventoryValue || 0,
+        cash: targetData.cash ?? 1000,
+        rollCount: targetData.rollCount || 0,
+      },
+    };
+  }
+
+  const now = Date.now();
+  const report: Omit<Report, "id"> = {
+    reporterId,
+    reporterUsername: reporterData.username,
+    targetUserId,
+    targetUsername: targetData.username,
+    category,
+    description,
+    evidence,
+    status: "open",
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const reportRef = await db.collection("reports").add(report);
+  return reportRef.id;
+}
+
+// Changes a report's status or assignee, audit-logged in the same transaction
+export async function updateReport(db: Firestore, reportId: string, adminId: string, { status, assigneeId, actionTaken }: UpdateReportRequest): Promise<Report> {
+  const reportRef = db.collection("reports").doc(reportId);
+  const adminRef = db.collection("users").doc(adminId);
+  const assigneeRef = assigneeId ? db.collection("users").doc(assigneeId) : null;
+
+  return db.runTransaction(async (transaction) => {
+    const [reportDoc, adminDoc, assigneeDoc] = await transaction.getAll(reportRef, adminRef, ...(assigneeRef ? [assigneeRef] : []));
+    const report = reportDoc.data() as Omit<Report, "id"> | undefined;
+    const adminData = adminDoc.data();
+
+    if (!report) {
+      throw new Error("Report not found");
+    }
+
+    if (!adminData) {
+      throw new Error("Admin not found");
+    }
+
+    const updates: Partial<Report> = { updatedAt: Date.now() };
+    const removed: Array<keyof Report> = [];
+    const changes: Record<string, unknown> = {};
+
+    if (status && status !== report.status) {
+      updates.status = status;
+      changes.status = { from: report.status, to: status };
+    }
+
+    if (actionTaken) {
+      updates.actionTaken = actionTaken;
+      changes.actionTaken = actionTaken;
+    }
+
+    if (assigneeId !== undefined && assigneeId !== (report.assigneeId ?? null)) {
+      const assigneeData = assigneeDoc?.data();
+      if (assigneeId && (!assigneeData || (!assigneeData.isAdmin && !assigneeData.isModerator))) {
+        throw new Error("Reports can only be assigned to admins or moderators");
+      }
+
+      if (assigneeId && assigneeData) {
+        updates.assigneeId = assigneeId;
+        updates.assigneeUsername = assigneeData.username;
+      } else {
+        removed.push("assigneeId", "assigneeUsername");
+      }
+      changes.assignee = assigneeData?.username ?? null;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { id: reportDoc.id, ...report };
+    }
+
+    transaction.update(reportRef, {
+      ...updates,
+      ...Object.fromEntries(removed.map((field) => [field, FieldValue.delete()])),
+    });
+    await createAuditLog(db, {
+      timestamp: Date.now(),
+      adminId,
+      adminUsername: adminData.username,
+      actionType: "report_update",
+      targetUserId: report.targetUserId,
+      targetUsername: report.targetUsername,
+      details: { reportId: reportDoc.id, ...changes },
+    }, transaction);
+
+    const updated: Report = { id: reportDoc.id, ...report, ...updates };
+    removed.forEach((field) => delete updated[field]);
+    return updated;
+  });
+}
@@ -0,0 +1,447 @@
+import type { DocumentReference, Firestore } from "firebase-admin/firestore";
+import { MAX_BATCH_ROLLS, calculateBundlePrice, calculateSellSplit, type Item, type RollBatchResult, type RollResult, type User } from "@shared/schema";
+import { pickWeightedItem, type RollBoost, type RollProof } from "@shared/fairness";
+import { rollableItemsCache } from "./rollable-items-cache";
+import { getAdminDocId } from "./firebase-admin";
+import { recordEconomyFlow } from "./economy";
+import { recordLedgerEntry } from "./ledger";
+import { gameConfigCache } from "./game-config";
+import { getActiveBoosts } from "./luck-events";
+import { advancePityCounters, getPityBoosts } from "./pity";
+import { createInventoryEntryId, getInfiniteStack, inventoryCollection, markInventoryChanged } from "./inventory";
+import { computeRollFloat, createSeedState, type SeedState } from "./fairness";
+
+// An item touched by a batch. `updates` accumulates over the batch so later rolls
+// see the stock and serials taken by earlier ones.
+interface RolledItemState {
+  ref: DocumentReference;
+  item: Item;
+  updates: Record<string, any>;
+  ownsItem?: boolean; // Ownership marker, read the first time a limited or timer item comes up
+  setOwnership: boolean;
+}
+
+// The infinite-item entry a batch stacks onto, created if the player has none yet
+interface InfiniteStack {
+  ref: DocumentReference;
+  entryId: string;
+  amount: number;
+  isNew: boolean;
+}
+
+interface RollOutcome extends RollResult {
+  entryId: string | null;
+  cashBefore: number;
+  cashAfter: number;
+  nonce: number;
+  boosts: RollBoost[];
+}
+
+// Resolves up to `count` rolls in one transaction: one read and one write of the
+// user document, one read and write of each item rolled, and the per-roll proofs
+// and ledger entries. Each roll is picked from the state the previous ones left
+// behind, so pity counters, stock and serial numbers carry through the batch.
+// `costs` overrides the configured roll price per roll; bundles pass each roll's share.
+// `reserve` is the cash the user must hold before the first roll, or nothing is rolled.
+//
+// If a roll can't go through (item sold out, cash runs out...) the batch stops
+// there and the rolls before it are kept; only a failure on the first roll throws.
+export async function performRolls(db: Firestore, userId: string, count: number, costs?: number[], reserve?: number): Promise<RollBatchResult> {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_ROLLS) {
+    throw new Error(`Rolls per batch must be between 1 and ${MAX_BATCH_ROLLS}`);
+  }
+
+  const userRef = db.collection("users").doc(userId);
+  const seedRef = db.collection("rollSeeds").doc(userId);
+
+  const snapshot = await rollableItemsCache.getSnapshot(db);
+  if (snapshot.items.length === 0) {
+    throw new Error("No items available to roll");
+  }
+
+  const [adminDocId, config, eventBoosts] = await Promise.all([
+    getAdminDocId(),
+    gameConfigCache.getConfig(db),
+    getActiveBoosts(db),
+  ]);
+
+  // Items to drop from the rollable cache and expired timer items to take off sale
+  // once the transaction has settled
+  let staleItemIds = new Set<string>();
+  let expiredItemIds = new Set<string>();
+
+  try {
+    const batch = await db.runTransaction(async (transaction) => {
+      staleItemIds = new Set();
+      expiredItemIds = new Set();
+
+      // Luck and auto-sell settings come from the stored user document, never the request
+      const userDoc = await transaction.get(userRef);
+      if (!userDoc.exists) {
+        throw new Error("User document not found");
+      }
+      const userData = userDoc.data() || {};
+      const user = { id: userDoc.id, ...userData } as User;
+
+      if (user.isBanned && (user.isPermanentBan || !user.banExpiresAt || user.banExpiresAt > Date.now())) {
+        throw new Error("Banned users cannot roll");
+      }
+
+      const seedDoc = await transaction.get(seedRef);
+      const seed: SeedState = seedDoc.exists ? (seedDoc.data() as SeedState) : createSeedState();
+      const adminRef = adminDocId ? db.collection("users").doc(adminDocId) : null;
+      const adminDoc = adminRef ? await transaction.get(adminRef) : null;
+
+      const now = Date.now();
+      const luckMultiplier = user.luckMultiplier ?? 1;
+      const startingCash = userData.cash || 0;
+      if (reserve !== undefined && startingCash < reserve) {
+        throw new Error("Not enough cash for this bundle");
+      }
+      let cash = startingCash;
+      let pityCounters = user.pityCounters;
+      let adminEarned = 0;
+      let sellPayouts = 0;
+      let sellFees = 0;
+      let rollSpend = 0;
+
+      const itemStates = new Map<string, RolledItemState | null>(); // null when the item doc is gone
+      const stacks = new Map<string, InfiniteStack>();
+      const outcomes: RollOutcome[] = [];
+      let failure: Error | null = null;
+
+      // Reads and selection only; every write happens after the loop
+      for (let index = 0; index < count; index++) {
+        const rollCost = costs?.[index] ?? config.rollPrice;
+        if (cash < rollCost) {
+          failure = new Error("Not enough cash to roll");
+          break;
+        }
+
+        // Provably-fair selection: HMAC(serverSeed, clientSeed:nonce) against the live snapshot
+        const nonce = seed.nonce + index;
+        const boosts = [...eventBoosts, ...getPityBoosts(pityCounters, config.pityThresholds)];
+        const random = computeRollFloat(seed.serverSeed, seed.clientSeed, nonce);
+        const itemId = pickWeightedItem(snapshot.items, luckMultiplier, random, boosts).id;
+
+        let state = itemStates.get(itemId);
+        if (state === undefined) {
+          const itemRef = db.collection("items").doc(itemId);
+          const itemDoc = await transaction.get(itemRef);
+          state = itemDoc.exists
+            ? { ref: itemRef, item: { id: itemDoc.id, ...itemDoc.data() } as Item, updates: {}, setOwnership: false }
+            : null;
+          itemStates.set(itemId, state);
+        }
+
+        // A failed roll doesn't consume its nonce, so stale entries must leave the
+        // snapshot or the same nonce would keep landing on them
+        if (!state) {
+          staleItemIds.add(itemId);
+          failure = new Error("Item not found");
+          break;
+        }
+
+        const current = { ...state.item, ...state.updates } as Item;
+
+        if (current.offSale) {
+          staleItemIds.add(itemId);
+          failure = new Error("Item is off-sale and cannot be rolled");
+          break;
+        }
+
+        if (current.stockType === "timer" && current.timerExpiresAt && current.timerExpiresAt <= now) {
+          staleItemIds.add(itemId);
+          expiredItemIds.add(itemId);
+          failure = new Error("Timer item has expired and can no longer be rolled");
+          break;
+        }
+
+        // Earlier rolls in the batch may have taken the last of the stock
+        if (current.stockType === "limited" && (!current.remainingStock || current.remainingStock <= 0)) {
+          staleItemIds.add(itemId);
+          failure = new Error("Item is out of stock");
+          break;
+        }
+
+        const isMythicOrHigher = current.rarity === "MYTHIC" || current.rarity === "INSANE";
+        const shouldAutoSell = !isMythicOrHigher && (userData.settings?.autoSellRarities?.includes(current.rarity) || false);
+        if (shouldAutoSell && (!adminRef || !adminDoc)) {
+          failure = new Error("Admin user not found. Cannot process auto-sell.");
+          break;
+        }
+
+        // Only read ownership marker for limited and timer items
+        const tracksOwners = current.stockType === "limited" || current.stockType === "timer";
+        if (tracksOwners && state.ownsItem === undefined) {
+          const ownershipDoc = await transaction.get(state.ref.collection("owners").doc(user.firebaseUid));
+          state.ownsItem = ownershipDoc.exists;
+        }
+
+        let serialNumber: number | null = null;
+
+        if (current.stockType === "limited") {
+          state.updates.remainingStock = current.remainingStock! - 1;
+          serialNumber = (current.totalStock || 0) - current.remainingStock! + 1;
+        } else if (current.stockType === "timer") {
+          serialNumber = current.nextSerialNumber || 1;
+          state.updates.nextSerialNumber = serialNumber + 1;
+        }
+
+        if (!tracksOwners) {
+          // For infinite items, always increment totalOwners (tracks total times owned, not unique owners)
+          state.updates.totalOwners = (current.totalOwners || 0) + 1;
+        } else if (!state.ownsItem) {
+          state.updates.totalOwners = (current.totalOwners || 0) + 1;
+          state.ownsItem = true;
+          state.setOwnership = true;
+        }
+
+        const cashBefore = cash;
+        cash -= rollCost;
+        rollSpend += rollCost;
+        let playerEarned = 0;
+        let entryId: string | null = null;
+
+        if (shouldAutoSell) {
+          // Same fee rule as POST /api/inventory/sell
+          const split = calculateSellSplit(current.value, config.sellFeeRate);
+          playerEarned = split.playerEarned;
+          sellPayouts += split.playerEarned;
+          sellFees += split.adminEarned;
+
+          if (adminRef!.id === userRef.id) {
+            cash += split.playerEarned + split.adminEarned;
+          } else {
+            cash += split.playerEarned;
+            adminEarned += split.adminEarned;
+          }
+        } else if (serialNumber === null) {
+          // Infinite items stack onto the existing entry
+          let stack = stacks.get(itemId);
+          if (!stack) {
+            const existingStack = await getInfiniteStack(transaction, db, userId, itemId);
+            const newEntryId = createInventoryEntryId(user.firebaseUid);
+            stack = existingStack
+              ? { ref: existingStack.ref, entryId: existingStack.id, amount: existingStack.data()?.amount || 1, isNew: false }
+              : { ref: inventoryCollection(db, userId).doc(newEntryId), entryId: newEntryId, amount: 0, isNew: true };
+            stacks.set(itemId, stack);
+          }
+          stack.amount += 1;
+          entryId = stack.entryId;
+        } else {
+          entryId = createInventoryEntryId(user.firebaseUid);
+        }
+
+        pityCounters = advancePityCounters(pityCounters, current.rarity);
+        outcomes.push({
+          item: { ...state.item, ...state.updates },
+          serialNumber,
+          autoSold: shouldAutoSell,
+          playerEarned: shouldAutoSell ? playerEarned : undefined,
+          proof: {
+            serverSeedHash: seed.serverSeedHash,
+            clientSeed: seed.clientSeed,
+            nonce,
+          },
+          entryId,
+          cashBefore,
+          cashAfter: cash,
+          nonce,
+          boosts,
+        });
+      }
+
+      if (outcomes.length === 0) {
+        throw failure ?? new Error("Failed to roll");
+      }
+
+      // Kept items are added to the inventory stats straight away so the roll screen
+      // is current; the stats job recomputes them exactly from the ledger entries below
+      const kept = outcomes.filter((outcome) => !outcome.autoSold);
+      transaction.update(userRef, {
+        rollCount: (userData.rollCount || 0) + outcomes.length,
+        pityCounters,
+        ...(cash !== startingCash && { cash }),
+        ...(kept.length > 0 && {
+          inventoryValue: (userData.inventoryValue || 0) + kept.reduce((sum, outcome) => sum + outcome.item.value, 0),
+          itemCount: (userData.itemCount || 0) + kept.length,
+        }),
+      });
+
+      if (adminEarned > 0 && adminRef && adminDoc) {
+        transaction.update(adminRef, {
+          cash: (adminDoc.data()?.cash || 0) + adminEarned,
+        });
+      }
+
+      // The roll price leaves the economy rather than going to the admin account
+      recordEconomyFlow(transaction, db, { sellPayouts, sellFees, rollSpend });
+
+      for (const state of Array.from(itemStates.values())) {
+        if (!state || Object.keys(state.updates).length === 0) continue;
+
+        transaction.update(state.ref, state.updates);
+
+        // If limited item stock reached zero, drop it from the cache after commit
+        if (state.item.stockType === "limited" && state.updates.remainingStock === 0) {
+          staleItemIds.add(state.item.id);
+        }
+
+        if (state.setOwnership) {
+          transaction.set(state.ref.collection("owners").doc(user.firebaseUid), { ownedAt: now });
+        }
+      }
+
+      for (const [itemId, stack] of Array.from(stacks.entries())) {
+        if (stack.isNew) {
+          transaction.set(stack.ref, {
+            id: stack.entryId,
+            itemId,
+            serialNumber: null,
+            rolledAt: now,
+            amount: stack.amount,
+            nftLocked: false,
+          });
+        } else {
+          transaction.update(stack.ref, { amount: stack.amount });
+        }
+      }
+
+      outcomes.forEach((outcome, index) => {
+        const { item, serialNumber, entryId } = outcome;
+
+        if (entryId && serialNumber !== null) {
+          transaction.set(inventoryCollection(db, userId).doc(entryId), {
+            id: entryId,
+            itemId: item.id,
+            serialNumber,
+            rolledAt: now,
+            amount: 1,
+            nftLocked: false,
+          });
+        }
+
+        if (item.value >= 2500000) {
+          transaction.set(db.collection("globalRolls").doc(), {
+            username: user.username,
+            itemId: item.id,
+            itemName: item.name,
+            itemImageUrl: item.imageUrl,
+            itemValue: item.value,
+            rarity: item.rarity,
+            timestamp: now,
+            serialNumber,
+          });
+        }
+
+        // An auto-sold roll never reaches the inventory, so the item goes in the details.
+        // Entries are 1ms apart so the ledger lists a batch in roll order.
+        recordLedgerEntry(transaction, db, {
+          userId,
+          type: outcome.autoSold ? "auto_sell" : "roll",
+          timestamp: now + index,
+          cashBefore: outcome.cashBefore,
+          cashAfter: outcome.cashAfter,
+          items: entryId
+            ? [{ itemId: item.id, itemName: item.name, serialNumber, entryId, amount: 1 }]
+            : [],
+          ...(outcome.autoSold && {
+            details: { itemId: item.id, itemName: item.name, serialNumber, playerEarned: outcome.playerEarned },
+          }),
+        });
+
+        // Record what is needed to replay this roll after the seed is revealed
+        const proof: RollProof = {
+          userId,
+          serverSeedHash: seed.serverSeedHash,
+          clientSeed: seed.clientSeed,
+          nonce: outcome.nonce,
+          snapshotId: snapshot.id,
+          luckMultiplier,
+          ...(outcome.boosts.length > 0 && { boosts: outcome.boosts }),
+          itemId: item.id,
+          timestamp: now,
+        };
+        transaction.set(db.collection("rollProofs").doc(), proof);
+      });
+
+      // Consume one nonce per roll made
+      transaction.set(seedRef, { ...seed, nonce: seed.nonce + outcomes.length });
+
+      return {
+        results: outcomes.map(({ entryId, cashBefore, cashAfter, nonce, boosts, ...result }) => result),
+        totalCost: rollSpend,
+        ...(failure && { error: failure.message }),
+      };
+    });
+
+    // Open trades offering cash may no longer be affordable
+    if (batch.totalCost > 0) {
+      markInventoryChanged(userId);
+    }
+    return batch;
+  } finally {
+    for (const itemId of Array.from(staleItemIds)) {
+      rollableItemsCache.removeItem(itemId);
+    }
+
+    // Mark expired timer items as offSale outside the transaction
+    for (const itemId of Array.from(expiredItemIds)) {
+      try {
+        await db.collection("items").doc(itemId).update({ offSale: true });
+      } catch (updateError) {
+        console.error("Failed to mark expired timer item as offSale:", updateError);
+      }
+    }
+  }
+}
+
+// `cost` overrides the configured roll price
+export async function performRoll(db: Firestore, userId: string, cost?: number): Promise<RollResult> {
+  const { results } = await performRolls(db, userId, 1, cost === undefined ? undefined : [cost]);
+  return results[0];
+}
+
+// Runs a configured bundle in batches, each roll paying its share of the discounted
+// bundle price. Each batch checks in its transaction that the user still holds
+// the price of the rest of the bundle, so a bundle only starts when it can be paid
+// in full. If a batch fails the rolls already made are returned, only those were
+// paid for, and no further batch runs.
+export async function performRollBundle(db: Firestore, userId: string, rolls: number): Promise<RollBatchResult> {
+  const config = await gameConfigCache.getConfig(db);
+  const bundle = config.rollBundles.find((candidate) => candidate.rolls === rolls);
+  if (!bundle) {
+    throw new Error("Roll bundle not available");
+  }
+
+  const price = calculateBundlePrice(config.rollPrice, bundle);
+
+  // Spread the price so the shares add up to exactly the bundle price
+  const shares = Array.from({ length: bundle.rolls }, (_, index) => Math.floor(price / bundle.rolls) + (index < price % bundle.rolls ? 1 : 0));
+  const results: RollResult[] = [];
+  let totalCost = 0;
+
+  for (let start = 0; start < shares.length; start += MAX_BATCH_ROLLS) {
+    const chunk = shares.slice(start, start + MAX_BATCH_ROLLS);
+    const remaining = price - totalCost;
+
+    try {
+      const batch = await performRolls(db, userId, chunk.length, chunk, remaining);
+      results.push(...batch.results);
+      totalCost += batch.totalCost;
+
+      if (batch.error) {
+        return { results, totalCost, error: batch.error };
+      }
+    } catch (error: any) {
+      if (results.length === 0) {
+        throw error;
+      }
+      console.error(`Roll bundle for ${userId} stopped after ${results.length} roll(s):`, error);
+      return { results, totalCost, error: error.message || "Failed to roll" };
+    }
+  }
+
+  return { results, totalCost };
+}
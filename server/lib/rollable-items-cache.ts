@@ -0,0 +1,93 @@
+import { createHash } from "crypto";
+import type { Firestore } from "firebase-admin/firestore";
+import { isUnreleased, type Item } from "@shared/schema";
+import type { RollSnapshotItem } from "@shared/fairness";
+
+export interface RollSnapshot {
+  id: string;
+  items: RollSnapshotItem[];
+}
+
+export function isRollable(item: Item, now: number = Date.now()): boolean {
+  if (item.offSale || isUnreleased(item)) return false;
+  return (
+    item.stockType === "infinite" ||
+    (item.stockType === "limited" && !!item.remainingStock && item.remainingStock > 0) ||
+    (item.stockType === "timer" && !!item.timerExpiresAt && item.timerExpiresAt > now)
+  );
+}
+
+// Server-side counterpart of the client's rollableItemsCache. The roll transaction
+// re-reads the selected item, so a slightly stale list only costs a retry.
+class RollableItemsCache {
+  private items: Item[] = [];
+  private lastFetch = 0;
+  private fetchPromise: Promise<void> | null = null;
+  private snapshot: RollSnapshot | null = null;
+  private readonly CACHE_DURATION = 60 * 1000; // 1 minute
+
+  async getItems(db: Firestore): Promise<Item[]> {
+    if (this.lastFetch > 0 && Date.now() - this.lastFetch < this.CACHE_DURATION) {
+      return this.items;
+    }
+
+    if (this.fetchPromise) {
+      await this.fetchPromise;
+      return this.items;
+    }
+
+    this.fetchPromise = this.fetchItems(db);
+    try {
+      await this.fetchPromise;
+    } finally {
+      this.fetchPromise = null;
+    }
+
+    return this.items;
+  }
+
+  private async fetchItems(db: Firestore): Promise<void> {
+    const snapshot = await db.collection("items").where("offSale", "==", false).get();
+    const now = Date.now();
+
+    this.items = snapshot.docs
+      .map((doc) => ({ id: doc.id, ...doc.data() }) as Item)
+      .filter((item) => isRollable(item, now))
+      .sort((a, b) => a.id.localeCompare(b.id));
+    this.lastFetch = now;
+    this.snapshot = null;
+  }
+
+  // Content-addressed copy of the current item list, persisted to rollSnapshots/{id}
+  // so past rolls can be replayed against exactly the odds that were live.
+  async getSnapshot(db: Firestore): Promise<RollSnapshot> {
+    const items = await this.getItems(db);
+    if (this.snapshot) {
+      return this.snapshot;
+    }
+
+    const snapshotItems: RollSnapshotItem[] = items.map(({ id, name, value, rarity }) => ({ id, name, value, rarity }));
+    const id = createHash("sha256").update(JSON.stringify(snapshotItems)).digest("hex").slice(0, 32);
+
+    const snapshotRef = db.collection("rollSnapshots").doc(id);
+    const existing = await snapshotRef.get();
+    if (!existing.exists) {
+      await snapshotRef.set({ items: snapshotItems, createdAt: Date.now() });
+    }
+
+    this.snapshot = { id, items: snapshotItems };
+    return this.snapshot;
+  }
+
+  // Remove a specific item (called when it sells out or its timer expires)
+  removeItem(itemId: string) {
+    this.items = this.items.filter((item) => item.id !== itemId);
+    this.snapshot = null;
+  }
+
+  invalidate() {
+    this.lastFetch = 0;
+  }
+}
+
+export const rollableItemsCache = new RollableItemsCache();
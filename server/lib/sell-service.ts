@@ -0,0 +1,156 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { calculateSellSplit, type LedgerItemDelta, type SellRequest, type SellResult, type User } from "@shared/schema";
+import { getAdminDocId } from "./firebase-admin";
+import { recordEconomyFlow } from "./economy";
+import { recordLedgerEntry } from "./ledger";
+import { gameConfigCache } from "./game-config";
+import { inventoryCollection, markInventoryChanged } from "./inventory";
+
+// Sells `quantity` copies from the given inventory entries. All entries must be
+// the same item; its value comes from the item document, never the request.
+export async function sellItems(db: Firestore, userId: string, { inventoryIds, quantity }: SellRequest): Promise<SellResult> {
+  const [adminDocId, config] = await Promise.all([
+    getAdminDocId(),
+    gameConfigCache.getConfig(db),
+  ]);
+
+  if (!adminDocId) {
+    throw new Error("Admin user not found");
+  }
+
+  const userRef = db.collection("users").doc(userId);
+  const adminRef = db.collection("users").doc(adminDocId);
+  const entryRefs = Array.from(new Set(inventoryIds)).map((id) => inventoryCollection(db, userId).doc(id));
+
+  const result = await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const adminDoc = await transaction.get(adminRef);
+
+    if (!userDoc.exists) {
+      throw new Error("User not found");
+    }
+
+    if (!adminDoc.exists) {
+      throw new Error("Admin user not found");
+    }
+
+    const userData = userDoc.data() || {};
+    const user = { id: userDoc.id, ...userData } as User;
+
+    if (user.isBanned && (user.isPermanentBan || !user.banExpiresAt || user.banExpiresAt > Date.now())) {
+      throw new Error("Banned users cannot sell items");
+    }
+
+    const entryDocs = await transaction.getAll(...entryRefs);
+    const entries = entryDocs.filter((doc) => doc.exists);
+    const soldItemId: string | undefined = entries[0]?.data()?.itemId;
+
+    if (!soldItemId) {
+      throw new Error("Cannot sell more items than you own");
+    }
+
+    if (entries.some((doc) => doc.data()?.itemId !== soldItemId)) {
+      throw new Error("All sold entries must be the same item");
+    }
+
+    const itemRef = db.collection("items").doc(soldItemId);
+    const ownershipMarkerRef = itemRef.collection("owners").doc(user.firebaseUid);
+    const itemDoc = await transaction.get(itemRef);
+
+    if (!itemDoc.exists) {
+      throw new Error("Item not found");
+    }
+
+    // Limited items need to know whether any other entry of this item remains
+    const itemData = itemDoc.data() || {};
+    const otherEntries = itemData.stockType === "limited"
+      ? await transaction.get(inventoryCollection(db, userId).where("itemId", "==", soldItemId).limit(entries.length + 1))
+      : null;
+
+    let actualRemovedCount = 0;
+    let emptiedEntries = 0;
+    const soldDeltas: LedgerItemDelta[] = [];
+
+    for (const entryDoc of entries) {
+      if (actualRemovedCount >= quantity) break;
+
+      const amount = entryDoc.data()?.amount || 1;
+      const sellAmount = Math.min(amount, quantity - actualRemovedCount);
+      actualRemovedCount += sellAmount;
+      soldDeltas.push({
+        itemId: soldItemId,
+        itemName: itemData.name,
+        serialNumber: entryDoc.data()?.serialNumber ?? null,
+        entryId: entryDoc.id,
+        amount: -sellAmount,
+      });
+
+      if (sellAmount < amount) {
+        transaction.update(entryDoc.ref, { amount: amount - sellAmount });
+      } else {
+        transaction.delete(entryDoc.ref);
+        emptiedEntries++;
+      }
+    }
+
+    if (actualRemovedCount !== quantity) {
+      throw new Error(`Invalid inventory: expected to remove ${quantity} items but only found ${actualRemovedCount}`);
+    }
+
+    const { playerEarned, adminEarned } = calculateSellSplit((itemData.value || 0) * actualRemovedCount, config.sellFeeRate);
+
+    // The admin selling their own items keeps the fee as well
+    const cashBefore = userData.cash || 0;
+    const cashAfter = cashBefore + playerEarned + (userRef.id === adminRef.id ? adminEarned : 0);
+
+    transaction.update(userRef, {
+      cash: cashAfter,
+    });
+
+    if (userRef.id !== adminRef.id) {
+      transaction.update(adminRef, {
+        cash: (adminDoc.data()?.cash || 0) + adminEarned,
+      });
+    }
+
+    recordEconomyFlow(transaction, db, { sellPayouts: playerEarned, sellFees: adminEarned });
+    recordLedgerEntry(transaction, db, {
+      userId,
+      type: "sell",
+      timestamp: Date.now(),
+      cashBefore,
+      cashAfter,
+      items: soldDeltas,
+      details: { playerEarned, fee: adminEarned },
+    });
+
+    const currentOwners = itemData.totalOwners || 0;
+
+    if (itemData.stockType === "limited") {
+      const updateData: Record<string, any> = {
+        remainingStock: (itemData.remainingStock || 0) + actualRemovedCount,
+      };
+
+      const stillOwnsItem = (otherEntries?.size || 0) > emptiedEntries;
+      if (!stillOwnsItem) {
+        updateData.totalOwners = Math.max(0, currentOwners - 1);
+        transaction.delete(ownershipMarkerRef);
+      }
+
+      transaction.update(itemRef, updateData);
+    } else {
+      transaction.update(itemRef, {
+        totalOwners: Math.max(0, currentOwners - actualRemovedCount),
+      });
+    }
+
+    return {
+      soldCount: actualRemovedCount,
+      playerEarned,
+      adminEarned,
+    };
+  });
+
+  markInventoryChanged(userId);
+  return result;
+}
@@ -0,0 +1,136 @@
+import type { DocumentSnapshot, Firestore } from "firebase-admin/firestore";
+import type { CreateTradeAdRequest, TradeAd } from "@shared/schema";
+import { inventoryCollection } from "./inventory";
+
+const MAX_ADS_PER_USER = 3;
+
+// An ad only stays up while every offered entry still holds enough tradeable copies
+function offeringAvailable(offering: Array<{ inventoryId: string; amount?: number }>, entries: Map<string, DocumentSnapshot>): boolean {
+  return offering.every((offered) => {
+    const entryData = entries.get(offered.inventoryId)?.data();
+    if (!entryData || entryData.nftLocked) return false;
+
+    const requested = offering
+      .filter((other) => other.inventoryId === offered.inventoryId)
+      .reduce((sum, other) => sum + (other.amount || 1), 0);
+    return (entryData.amount || 1) >= requested;
+  });
+}
+
+export async function createTradeAd(db: Firestore, userId: string, { offering, lookingFor, note }: CreateTradeAdRequest): Promise<string> {
+  const userRef = db.collection("users").doc(userId);
+  const adRef = db.collection("tradeAds").doc();
+
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const userData = userDoc.data();
+
+    if (!userData) {
+      throw new Error("User not found");
+    }
+
+    if (userData.isBanned && (userData.isPermanentBan || !userData.banExpiresAt || userData.banExpiresAt > Date.now())) {
+      throw new Error("Banned users cannot post trade ads");
+    }
+
+    const existingAds = await transaction.get(db.collection("tradeAds").where("userId", "==", userId));
+    if (existingAds.size >= MAX_ADS_PER_USER) {
+      throw new Error(`You can have at most ${MAX_ADS_PER_USER} trade ads at once`);
+    }
+
+    const entryRefs = Array.from(new Set(offering.map((offered) => offered.inventoryId)))
+      .map((inventoryId) => inventoryCollection(db, userId).doc(inventoryId));
+    const entries = new Map((await transaction.getAll(...entryRefs)).map((doc) => [doc.id, doc]));
+
+    if (!offeringAvailable(offering, entries)) {
+      throw new Error("Some offered items are no longer in your inventory or are NFT-locked");
+    }
+
+    const itemIds = Array.from(new Set([
+      ...Array.from(entries.values()).map((entry) => entry.data()?.itemId as string),
+      ...lookingFor,
+    ]));
+    const itemDocs = new Map((await transaction.getAll(...itemIds.map((itemId) => db.collection("items").doc(itemId)))).map((doc) => [doc.id, doc]));
+
+    const describe = (itemId: string) => {
+      const itemData = itemDocs.get(itemId)?.data();
+      if (!itemData) {
+        throw new Error("Item not found");
+      }
+      return {
+        itemId,
+        itemName: itemData.name,
+        itemImageUrl: itemData.imageUrl,
+        itemValue: itemData.value,
+        itemRarity: itemData.rarity,
+      };
+    };
+
+    const ad: Omit<TradeAd, "id"> = {
+      userId,
+      username: userData.username,
+      offering: offering.map((offered) => {
+        const entryData = entries.get(offered.inventoryId)!.data()!;
+        return {
+          ...describe(entryData.itemId),
+          inventoryId: offered.inventoryId,
+          serialNumber: entryData.serialNumber ?? null,
+          amount: offered.amount,
+        };
+      }),
+      lookingFor: Array.from(new Set(lookingFor)).map(describe),
+      createdAt: Date.now(),
+    };
+    if (note) {
+      ad.note = note;
+    }
+
+    transaction.set(adRef, ad);
+  });
+
+  return adRef.id;
+}
+
+export async function deleteTradeAd(db: Firestore, adId: string, userId: string): Promise<void> {
+  const adRef = db.collection("tradeAds").doc(adId);
+  const adDoc = await adRef.get();
+
+  if (!adDoc.exists) {
+    throw new Error("Trade ad not found");
+  }
+
+  if (adDoc.data()?.userId !== userId) {
+    throw new Error("You can only remove your own trade ads");
+  }
+
+  await adRef.delete();
+}
+
+// Deletes ads whose offered entries have left the poster's inventory (sold, traded,
+// wiped or NFT-locked). Checks only the given users' ads, or every ad when null.
+export async function removeStaleTradeAds(db: Firestore, userIds: Set<string> | null): Promise<number> {
+  if (userIds && userIds.size === 0) {
+    return 0;
+  }
+
+  const adsCollection = db.collection("tradeAds");
+  const snapshots = userIds
+    ? await Promise.all(Array.from(userIds).map((userId) => adsCollection.where("userId", "==", userId).get()))
+    : [await adsCollection.get()];
+  let removed = 0;
+
+  for (const adDoc of snapshots.flatMap((snapshot) => snapshot.docs)) {
+    const ad = adDoc.data() as TradeAd;
+
+    const entryRefs = Array.from(new Set(ad.offering.map((offered) => offered.inventoryId)))
+      .map((inventoryId) => inventoryCollection(db, ad.userId).doc(inventoryId));
+    const entries = new Map((await db.getAll(...entryRefs)).map((doc) => [doc.id, doc]));
+
+    if (!offeringAvailable(ad.offering, entries)) {
+      await adDoc.ref.delete();
+      removed++;
+    }
+  }
+
+  return removed;
+}
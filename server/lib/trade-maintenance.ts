@@ -0,0 +1,106 @@
+import type { Firestore } from "firebase-admin/firestore";
+import type { Trade } from "@shared/schema";
+import { gameConfigCache } from "./game-config";
+import { markInventoryChanged, takeChangedUsers } from "./inventory";
+import { closeStaleListings } from "./marketplace";
+import { removeStaleTradeAds } from "./trade-ads";
+import { findInactiveReason, type InactiveReason } from "./trade-service";
+
+const CHECK_INTERVAL = 60 * 1000; // 1 minute
+// Inventories can also change outside the server (admin gifts, wipes, NFT locks),
+// so every pending trade is revalidated on this slower cadence as well
+const FULL_CHECK_INTERVAL = 30 * 60 * 1000; // 30 minutes
+
+let lastFullCheck = 0;
+
+// Re-reads the trade in a transaction so a trade accepted or countered in the
+// meantime is never overwritten. Returns true if the trade was made inactive.
+async function deactivateIfInvalid(db: Firestore, tradeId: string, expiresBefore: number): Promise<boolean> {
+  const tradeRef = db.collection("trades").doc(tradeId);
+
+  return db.runTransaction(async (transaction) => {
+    const tradeDoc = await transaction.get(tradeRef);
+    const trade = tradeDoc.data() as Trade | undefined;
+
+    if (!trade || trade.status !== "pending") {
+      return false;
+    }
+
+    const inactive: InactiveReason | null = trade.updatedAt < expiresBefore
+      ? { reason: "expired", detail: "No response before the trade expired" }
+      : await findInactiveReason(transaction, db, trade);
+
+    if (!inactive) {
+      return false;
+    }
+
+    transaction.update(tradeRef, {
+      status: "inactive",
+      inactiveReason: inactive.reason,
+      inactiveDetail: inactive.detail,
+      updatedAt: Date.now(),
+    });
+    return true;
+  });
+}
+
+// Expires pending trades past the configured TTL, deactivates the ones whose
+// items or cash are gone and takes down trade ads and marketplace listings for
+// items that left an inventory
+export async function runTradeMaintenance(db: Firestore): Promise<{ deactivatedTrades: number; removedAds: number; closedListings: number }> {
+  const config = await gameConfigCache.getConfig(db);
+  const now = Date.now();
+  const expiresBefore = now - config.tradeExpiryHours * 60 * 60 * 1000;
+
+  const fullCheck = now - lastFullCheck >= FULL_CHECK_INTERVAL;
+  const usersToCheck = takeChangedUsers();
+
+  const pendingSnapshot = await db.collection("trades").where("status", "==", "pending").get();
+  let deactivated = 0;
+
+  for (const tradeDoc of pendingSnapshot.docs) {
+    const trade = tradeDoc.data() as Trade;
+    const expired = trade.updatedAt < expiresBefore;
+    const affected = usersToCheck.has(trade.senderId) || usersToCheck.has(trade.receiverId);
+
+    if (!expired && !affected && !fullCheck) continue;
+
+    try {
+      if (await deactivateIfInvalid(db, tradeDoc.id, expiresBefore)) {
+        deactivated++;
+      }
+    } catch (error) {
+      console.error(`Error checking trade ${tradeDoc.id}:`, error);
+      markInventoryChanged(trade.senderId, trade.receiverId);
+    }
+  }
+
+  const removedAds = await removeStaleTradeAds(db, fullCheck ? null : usersToCheck);
+  const closedListings = await closeStaleListings(db, fullCheck ? null : usersToCheck);
+
+  if (fullCheck) {
+    lastFullCheck = now;
+  }
+
+  return { deactivatedTrades: deactivated, removedAds, closedListings };
+}
+
+export function startTradeMaintenance(db: Firestore): void {
+  let running = false;
+
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      const { deactivatedTrades, removedAds, closedListings } = await runTradeMaintenance(db);
+      if (deactivatedTrades > 0 || removedAds > 0 || closedListings > 0) {
+        console.log(`Trade maintenance: marked ${deactivatedTrades} trade(s) inactive, removed ${removedAds} trade ad(s), closed ${closedListings} listing(s)`);
+      }
+    } catch (error) {
+      console.error("Error running trade maintenance:", error);
+    } finally {
+      running = false;
+    }
+  }, CHECK_INTERVAL);
+}
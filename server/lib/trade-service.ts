@@ -0,0 +1,531 @@
+import type { DocumentReference, DocumentSnapshot, Firestore, Transaction } from "firebase-admin/firestore";
+import type { CounterTradeRequest, CreateTradeRequest, LedgerItemDelta, Trade, TradeRevision, TradeTerms } from "@shared/schema";
+import { gameConfigCache } from "./game-config";
+import { createInventoryEntryId, getInfiniteStack, inventoryCollection, markInventoryChanged } from "./inventory";
+import { readSaleItems, recordSales, tradeSalePrices } from "./item-rap";
+import { recordLedgerEntry } from "./ledger";
+
+type TradeItem = Trade["senderOffer"]["items"][number];
+
+// Keeps trade documents well below the Firestore size limit
+const MAX_TRADE_REVISIONS = 20;
+
+// Pending change to one inventory entry. Both legs of a trade can touch the same
+// entry (a stack given away and topped up again), so amounts are merged per path.
+interface EntryChange {
+  ref: DocumentReference;
+  amount: number; // Amount before the trade, 0 for entries created by it
+  created: Record<string, any> | null; // Fields for a new entry
+  delta: number;
+}
+
+// Reads the entries one side is giving away and checks they still hold enough
+// tradeable copies of the right item
+async function readOfferedEntries(
+  transaction: Transaction,
+  db: Firestore,
+  ownerId: string,
+  items: TradeItem[],
+  label: string
+): Promise<Map<string, DocumentSnapshot>> {
+  const refs = Array.from(new Set(items.map((item) => item.inventoryId)))
+    .map((inventoryId) => inventoryCollection(db, ownerId).doc(inventoryId));
+  const docs = refs.length > 0 ? await transaction.getAll(...refs) : [];
+  const entries = new Map(docs.map((doc) => [doc.id, doc]));
+
+  for (const tradeItem of items) {
+    const entryDoc = entries.get(tradeItem.inventoryId);
+    if (!entryDoc?.exists || entryDoc.data()?.itemId !== tradeItem.itemId) {
+      throw new Error(`${label} no longer has item: ${tradeItem.itemName}`);
+    }
+
+    if (entryDoc.data()?.nftLocked) {
+      throw new Error(`${tradeItem.itemName} is NFT-locked and cannot be traded`);
+    }
+
+    // A serial is a single copy, so anything but 1 would mint or destroy serials
+    const amount = tradeItem.amount ?? 1;
+    if (!Number.isInteger(amount) || amount < 1) {
+      throw new Error(`Invalid amount for ${tradeItem.itemName}`);
+    }
+    if (entryDoc.data()?.serialNumber != null && amount !== 1) {
+      throw new Error(`${tradeItem.itemName} is a serial item and can only be traded one at a time`);
+    }
+
+    const requested = items
+      .filter((item) => item.inventoryId === tradeItem.inventoryId)
+      .reduce((sum, item) => sum + (item.amount || 1), 0);
+    if ((entryDoc.data()?.amount || 1) < requested) {
+      throw new Error(`${label} doesn't have enough of ${tradeItem.itemName}`);
+    }
+  }
+
+  return entries;
+}
+
+// The recipient's existing infinite-item stacks, keyed by itemId
+async function readRecipientStacks(
+  transaction: Transaction,
+  db: Firestore,
+  recipientId: string,
+  items: TradeItem[]
+): Promise<Map<string, DocumentSnapshot | null>> {
+  const stacks = new Map<string, DocumentSnapshot | null>();
+  for (const tradeItem of items) {
+    if (tradeItem.serialNumber === null && !stacks.has(tradeItem.itemId)) {
+      stacks.set(tradeItem.itemId, await getInfiniteStack(transaction, db, recipientId, tradeItem.itemId));
+    }
+  }
+  return stacks;
+}
+
+// Rebuilds the items of one side from the entries and item documents, so the
+// names, values and serial numbers stored on the trade can't be made up by the client
+async function resolveTradeItems(
+  transaction: Transaction,
+  db: Firestore,
+  items: TradeItem[],
+  entries: Map<string, DocumentSnapshot>
+): Promise<TradeItem[]> {
+  const itemRefs = Array.from(new Set(items.map((item) => item.itemId)))
+    .map((itemId) => db.collection("items").doc(itemId));
+  const itemDocs = new Map((await transaction.getAll(...itemRefs)).map((doc) => [doc.id, doc]));
+
+  return items.map((tradeItem) => {
+    const itemData = itemDocs.get(tradeItem.itemId)?.data();
+    if (!itemData) {
+      throw new Error(`Item not found: ${tradeItem.itemName}`);
+    }
+
+    return {
+      inventoryId: tradeItem.inventoryId,
+      itemId: tradeItem.itemId,
+      itemName: itemData.name,
+      itemImageUrl: itemData.imageUrl,
+      itemValue: itemData.value,
+      itemRarity: itemData.rarity,
+      serialNumber: entries.get(tradeItem.inventoryId)!.data()?.serialNumber ?? null,
+      nftLocked: false,
+      amount: tradeItem.amount,
+    };
+  });
+}
+
+function isBanned(userData: Record<string, any>): boolean {
+  return !!userData.isBanned && (userData.isPermanentBan || !userData.banExpiresAt || userData.banExpiresAt > Date.now());
+}
+
+export interface InactiveReason {
+  reason: NonNullable<Trade["inactiveReason"]>;
+  detail: string;
+}
+
+// Why a pending trade could no longer be accepted, or null if it still could
+export async function findInactiveReason(transaction: Transaction, db: Firestore, trade: Trade): Promise<InactiveReason | null> {
+  const senderDoc = await transaction.get(db.collection("users").doc(trade.senderId));
+  const receiverDoc = await transaction.get(db.collection("users").doc(trade.receiverId));
+
+  if (trade.senderOffer.cash > (senderDoc.data()?.cash || 0)) {
+    return { reason: "cash_unavailable", detail: `${trade.senderUsername} no longer has the offered cash` };
+  }
+
+  if (trade.receiverRequest.cash > (receiverDoc.data()?.cash || 0)) {
+    return { reason: "cash_unavailable", detail: `${trade.receiverUsername} no longer has the requested cash` };
+  }
+
+  try {
+    await readOfferedEntries(transaction, db, trade.senderId, trade.senderOffer.items, trade.senderUsername);
+    await readOfferedEntries(transaction, db, trade.receiverId, trade.receiverRequest.items, trade.receiverUsername);
+  } catch (error: any) {
+    return { reason: "items_unavailable", detail: error.message };
+  }
+
+  return null;
+}
+
+function addChange(changes: Map<string, EntryChange>, change: EntryChange) {
+  const existing = changes.get(change.ref.path);
+  if (existing) {
+    existing.delta += change.delta;
+  } else {
+    changes.set(change.ref.path, change);
+  }
+}
+
+// Queues one leg of a trade and returns the ledger deltas of the giver and the recipient
+function transferItems(
+  db: Firestore,
+  changes: Map<string, EntryChange>,
+  items: TradeItem[],
+  offered: Map<string, DocumentSnapshot>,
+  recipientId: string,
+  recipientStacks: Map<string, DocumentSnapshot | null>
+): { given: LedgerItemDelta[]; received: LedgerItemDelta[] } {
+  // Stacks created by this trade, so repeated legs of the same item land together
+  const createdStacks = new Map<string, DocumentReference>();
+  const given: LedgerItemDelta[] = [];
+  const received: LedgerItemDelta[] = [];
+
+  for (const tradeItem of items) {
+    const entryDoc = offered.get(tradeItem.inventoryId)!;
+    const tradeAmount = tradeItem.amount || entryDoc.data()?.amount || 1;
+    const delta = { itemId: tradeItem.itemId, itemName: tradeItem.itemName, serialNumber: tradeItem.serialNumber };
+
+    // Reduce the giver's amount or remove the entry entirely
+    addChange(changes, { ref: entryDoc.ref, amount: entryDoc.data()?.amount || 1, created: null, delta: -tradeAmount });
+    given.push({ ...delta, entryId: entryDoc.id, amount: -tradeAmount });
+
+    // Merge infinite items into the recipient's stack, otherwise create a new entry
+    if (tradeItem.serialNumber === null) {
+      const stack = recipientStacks.get(tradeItem.itemId);
+      if (stack) {
+        addChange(changes, { ref: stack.ref, amount: stack.data()?.amount || 1, created: null, delta: tradeAmount });
+        received.push({ ...delta, entryId: stack.id, amount: tradeAmount });
+        continue;
+      }
+
+      const createdStack = createdStacks.get(tradeItem.itemId);
+      if (createdStack) {
+        addChange(changes, { ref: createdStack, amount: 0, created: null, delta: tradeAmount });
+        received.push({ ...delta, entryId: createdStack.id, amount: tradeAmount });
+        continue;
+      }
+    }
+
+    const newRef = inventoryCollection(db, recipientId).doc(createInventoryEntryId(tradeItem.itemId));
+    if (tradeItem.serialNumber === null) {
+      createdStacks.set(tradeItem.itemId, newRef);
+    }
+
+    addChange(changes, {
+      ref: newRef,
+      amount: 0,
+      created: {
+        id: newRef.id,
+        itemId: tradeItem.itemId,
+        serialNumber: tradeItem.serialNumber,
+        rolledAt: Date.now(),
+        nftLocked: false,
+      },
+      delta: tradeAmount,
+    });
+    received.push({ ...delta, entryId: newRef.id, amount: tradeAmount });
+  }
+
+  return { given, received };
+}
+
+export async function acceptTrade(db: Firestore, tradeId: string, userId: string): Promise<void> {
+  const tradeRef = db.collection("trades").doc(tradeId);
+  const config = await gameConfigCache.getConfig(db);
+
+  const trade = await db.runTransaction(async (transaction) => {
+    // Get trade document
+    const tradeDoc = await transaction.get(tradeRef);
+
+    if (!tradeDoc.exists) {
+      throw new Error("Trade not found");
+    }
+
+    const trade = tradeDoc.data() as Trade | undefined;
+    if (!trade) {
+      throw new Error("Trade data not found");
+    }
+
+    // Verify the user is the receiver
+    if (trade.receiverId !== userId) {
+      throw new Error("You are not the receiver of this trade");
+    }
+
+    // Verify trade is pending
+    if (trade.status !== "pending") {
+      throw new Error("Trade is not pending");
+    }
+
+    // The maintenance job only marks expired trades inactive once a minute
+    if (trade.updatedAt + config.tradeExpiryHours * 60 * 60 * 1000 < Date.now()) {
+      throw new Error("This trade has expired");
+    }
+
+    // Get both user documents
+    const senderRef = db.collection("users").doc(trade.senderId);
+    const receiverRef = db.collection("users").doc(trade.receiverId);
+
+    const senderDoc = await transaction.get(senderRef);
+    const receiverDoc = await transaction.get(receiverRef);
+
+    if (!senderDoc.exists || !receiverDoc.exists) {
+      throw new Error("One or both users not found");
+    }
+
+    const senderData = senderDoc.data();
+    const receiverData = receiverDoc.data();
+
+    if (!senderData || !receiverData) {
+      throw new Error("User data not found");
+    }
+
+    let senderCash = senderData.cash || 0;
+    let receiverCash = receiverData.cash || 0;
+
+    // Validate sender has enough cash
+    if (trade.senderOffer.cash > senderCash) {
+      throw new Error("Sender does not have enough cash");
+    }
+
+    // Validate receiver has enough cash
+    if (trade.receiverRequest.cash > receiverCash) {
+      throw new Error("Receiver does not have enough cash");
+    }
+
+    // Firestore requires every read before the first write
+    const senderOffered = await readOfferedEntries(transaction, db, trade.senderId, trade.senderOffer.items, "Sender");
+    const receiverOffered = await readOfferedEntries(transaction, db, trade.receiverId, trade.receiverRequest.items, "Receiver");
+    const receiverStacks = await readRecipientStacks(transaction, db, trade.receiverId, trade.senderOffer.items);
+    const senderStacks = await readRecipientStacks(transaction, db, trade.senderId, trade.receiverRequest.items);
+    const sales = tradeSalePrices(trade);
+    const saleItems = await readSaleItems(transaction, db, sales);
+
+    const changes = new Map<string, EntryChange>();
+    const senderLeg = transferItems(db, changes, trade.senderOffer.items, senderOffered, trade.receiverId, receiverStacks);
+    const receiverLeg = transferItems(db, changes, trade.receiverRequest.items, receiverOffered, trade.senderId, senderStacks);
+
+    for (const change of Array.from(changes.values())) {
+      const newAmount = change.amount + change.delta;
+
+      if (change.created) {
+        if (newAmount > 0) transaction.set(change.ref, { ...change.created, amount: newAmount });
+      } else if (newAmount <= 0) {
+        transaction.delete(change.ref);
+      } else {
+        transaction.update(change.ref, { amount: newAmount });
+      }
+    }
+
+    // Transfer cash
+    senderCash -= trade.senderOffer.cash;
+    receiverCash += trade.senderOffer.cash;
+    senderCash += trade.receiverRequest.cash;
+    receiverCash -= trade.receiverRequest.cash;
+
+    transaction.update(senderRef, { cash: senderCash });
+    transaction.update(receiverRef, { cash: receiverCash });
+
+    const completedAt = Date.now();
+    recordLedgerEntry(transaction, db, {
+      userId: trade.senderId,
+      type: "trade",
+      timestamp: completedAt,
+      cashBefore: senderData.cash || 0,
+      cashAfter: senderCash,
+      items: [...senderLeg.given, ...receiverLeg.received],
+      counterpartyId: trade.receiverId,
+      counterpartyUsername: trade.receiverUsername,
+      referenceId: tradeId,
+    });
+    recordLedgerEntry(transaction, db, {
+      userId: trade.receiverId,
+      type: "trade",
+      timestamp: completedAt,
+      cashBefore: receiverData.cash || 0,
+      cashAfter: receiverCash,
+      items: [...receiverLeg.given, ...senderLeg.received],
+      counterpartyId: trade.senderId,
+      counterpartyUsername: trade.senderUsername,
+      referenceId: tradeId,
+    });
+
+    recordSales(transaction, saleItems, sales, "trade", tradeId);
+
+    // Update trade status
+    transaction.update(tradeRef, {
+      status: "completed",
+      updatedAt: completedAt,
+      completedAt,
+    });
+
+    return trade;
+  });
+
+  // Other pending trades of either user may rely on what just changed hands
+  markInventoryChanged(trade.senderId, trade.receiverId);
+}
+
+// Validates one version of a trade between two users and builds its terms.
+// `ignoreTradeId` lets a counter-offer pass the one-pending-trade check for itself.
+async function buildTradeTerms(
+  transaction: Transaction,
+  db: Firestore,
+  senderId: string,
+  receiverId: string,
+  { senderOffer, receiverRequest }: CounterTradeRequest,
+  ignoreTradeId?: string
+): Promise<TradeTerms> {
+  const senderDoc = await transaction.get(db.collection("users").doc(senderId));
+  const receiverDoc = await transaction.get(db.collection("users").doc(receiverId));
+
+  const senderData = senderDoc.data();
+  const receiverData = receiverDoc.data();
+
+  if (!senderData || !receiverData) {
+    throw new Error("One or both users not found");
+  }
+
+  if (isBanned(senderData)) {
+    throw new Error("Banned users cannot trade");
+  }
+
+  if (isBanned(receiverData)) {
+    throw new Error(`${receiverData.username} is banned and cannot trade`);
+  }
+
+  // One open offer per sender and receiver; the old one has to be cancelled first
+  const pendingTrades = await transaction.get(
+    db.collection("trades")
+      .where("senderId", "==", senderId)
+      .where("receiverId", "==", receiverId)
+      .where("status", "==", "pending")
+      .limit(2)
+  );
+
+  if (pendingTrades.docs.some((doc) => doc.id !== ignoreTradeId)) {
+    throw new Error(`You already have a pending trade with ${receiverData.username}`);
+  }
+
+  if (senderOffer.cash > (senderData.cash || 0)) {
+    throw new Error("You don't have enough cash to offer");
+  }
+
+  const senderOffered = await readOfferedEntries(transaction, db, senderId, senderOffer.items, senderData.username);
+  const receiverOffered = await readOfferedEntries(transaction, db, receiverId, receiverRequest.items, receiverData.username);
+
+  return {
+    senderId,
+    senderUsername: senderData.username,
+    receiverId,
+    receiverUsername: receiverData.username,
+    senderOffer: {
+      items: await resolveTradeItems(transaction, db, senderOffer.items, senderOffered),
+      cash: senderOffer.cash,
+    },
+    receiverRequest: {
+      items: await resolveTradeItems(transaction, db, receiverRequest.items, receiverOffered),
+      cash: receiverRequest.cash,
+    },
+  };
+}
+
+export async function createTrade(db: Firestore, senderId: string, request: CreateTradeRequest): Promise<string> {
+  const { receiverId } = request;
+
+  if (receiverId === senderId) {
+    throw new Error("You cannot trade with yourself");
+  }
+
+  const tradeRef = db.collection("trades").doc();
+
+  await db.runTransaction(async (transaction) => {
+    const terms = await buildTradeTerms(transaction, db, senderId, receiverId, request);
+
+    const now = Date.now();
+    transaction.set(tradeRef, {
+      ...terms,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  return tradeRef.id;
+}
+
+// The receiver answers with new terms on the same document. The current terms are
+// pushed onto `revisions` and the two sides swap, so the trade lands in the
+// original sender's inbound list.
+export async function counterTrade(db: Firestore, tradeId: string, userId: string, request: CounterTradeRequest): Promise<void> {
+  const tradeRef = db.collection("trades").doc(tradeId);
+
+  await db.runTransaction(async (transaction) => {
+    const tradeDoc = await transaction.get(tradeRef);
+    const trade = tradeDoc.data() as Trade | undefined;
+
+    if (!trade) {
+      throw new Error("Trade not found");
+    }
+
+    if (trade.receiverId !== userId) {
+      throw new Error("You are not the receiver of this trade");
+    }
+
+    if (trade.status !== "pending") {
+      throw new Error("Trade is not pending");
+    }
+
+    const revisions = trade.revisions || [];
+    if (revisions.length >= MAX_TRADE_REVISIONS) {
+      throw new Error("This trade has been countered too many times");
+    }
+
+    const terms = await buildTradeTerms(transaction, db, trade.receiverId, trade.senderId, request, tradeId);
+
+    const previous: TradeRevision = {
+      senderId: trade.senderId,
+      senderUsername: trade.senderUsername,
+      receiverId: trade.receiverId,
+      receiverUsername: trade.receiverUsername,
+      senderOffer: trade.senderOffer,
+      receiverRequest: trade.receiverRequest,
+      revision: revisions.length,
+      createdAt: revisions.length === 0 ? trade.createdAt : trade.updatedAt,
+    };
+    if (trade.parentRevision !== undefined) {
+      previous.parentRevision = trade.parentRevision;
+    }
+
+    transaction.update(tradeRef, {
+      ...terms,
+      revisions: [...revisions, previous],
+      parentRevision: previous.revision,
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+// Declining is the receiver's call, cancelling the sender's; either way only while pending
+async function closeTrade(db: Firestore, tradeId: string, userId: string, status: "declined" | "cancelled"): Promise<void> {
+  const tradeRef = db.collection("trades").doc(tradeId);
+
+  await db.runTransaction(async (transaction) => {
+    const tradeDoc = await transaction.get(tradeRef);
+    const trade = tradeDoc.data() as Trade | undefined;
+
+    if (!trade) {
+      throw new Error("Trade not found");
+    }
+
+    if (status === "declined" && trade.receiverId !== userId) {
+      throw new Error("You are not the receiver of this trade");
+    }
+
+    if (status === "cancelled" && trade.senderId !== userId) {
+      throw new Error("You are not the sender of this trade");
+    }
+
+    if (trade.status !== "pending") {
+      throw new Error("Trade is not pending");
+    }
+
+    transaction.update(tradeRef, {
+      status,
+      updatedAt: Date.now(),
+    });
+  });
+}
+
+export async function declineTrade(db: Firestore, tradeId: string, userId: string): Promise<void> {
+  await closeTrade(db, tradeId, userId, "declined");
+}
+
+export async function cancelTrade(db: Firestore, tradeId: string, userId: string): Promise<void> {
+  await closeTrade(db, tradeId, userId, "cancelled");
+}
@@ -2,8 +2,28 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { sendItemReleaseWebhook, sendAdminLogWebhook } from "./lib/discord-webhooks";
-import { verifyIdToken, checkIsAdmin, initializeFirebaseAdmin, getFirebaseAdmin } from "./lib/firebase-admin";
-import { type User, type Item } from "@shared/schema";
+import { verifyIdToken, checkIsAdmin, checkIsStaff, initializeFirebaseAdmin, getFirebaseAdmin } from "./lib/firebase-admin";
+import { performRoll, performRollBundle, performRolls } from "./lib/roll-service";
+import { getSeedState, getVerificationData, rotateSeed } from "./lib/fairness";
+import { sellItems } from "./lib/sell-service";
+import { acceptTrade, cancelTrade, counterTrade, createTrade, declineTrade } from "./lib/trade-service";
+import { gameConfigCache, updateGameConfig } from "./lib/game-config";
+import { startTradeMaintenance } from "./lib/trade-maintenance";
+import { startInventoryStats } from "./lib/inventory-stats";
+import { migrateLegacyInventories } from "./lib/inventory";
+import { createTradeAd, deleteTradeAd } from "./lib/trade-ads";
+import { buyListing, cancelListing, createListing } from "./lib/marketplace";
+import { getEconomySnapshots, startEconomySnapshots, takeEconomySnapshot } from "./lib/economy";
+import { createReport, updateReport } from "./lib/reports";
+import { acknowledgeAppeal, createAppeal, reviewAppeal } from "./lib/appeals";
+import { createItem, giveItem, updateItem } from "./lib/admin-items";
+import { exportAuditLogs, getAuditLogs } from "./lib/audit-log";
+import { getLedger } from "./lib/ledger";
+import { revertAuditLog } from "./lib/audit-revert";
+import { startItemReleases } from "./lib/item-releases";
+import { cancelLuckEvent, createLuckEvent, getCurrentLuckEvents, startLuckEvents } from "./lib/luck-events";
+import { banUser, startBanExpiry, unbanUser, warnUser, wipeUserInventory } from "./lib/moderation";
+import { type User, type Item, sellRequestSchema, updateGameConfigSchema, createTradeRequestSchema, counterTradeRequestSchema, createTradeAdRequestSchema, createListingRequestSchema, createReportRequestSchema, updateReportRequestSchema, createAppealRequestSchema, reviewAppealRequestSchema, banUserRequestSchema, warnUserRequestSchema, giveItemRequestSchema, createItemRequestSchema, updateItemRequestSchema, auditLogPageQuerySchema, auditLogExportQuerySchema, ledgerPageQuerySchema, createLuckEventRequestSchema, rollBundleRequestSchema, rollBatchRequestSchema } from "@shared/schema";
 import { z } from "zod";
 
 const requireAuth = async (req: any, res: any, next: any) => {
@@ -55,6 +75,34 @@ const requireAdmin = async (req: any, res: any, next: any) => {
   }
 };
 
+// Admins and moderators. Each moderation action checks the permission matrix itself.
+const requireStaff = async (req: any, res: any, next: any) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ error: "Unauthorized - No token provided" });
+    }
+
+    const idToken = authHeader.split('Bearer ')[1];
+    const decodedToken = await verifyIdToken(idToken);
+    
+    if (!decodedToken) {
+      return res.status(401).json({ error: "Unauthorized - Invalid token" });
+    }
+
+    const isStaff = await checkIsStaff(decodedToken.uid);
+    if (!isStaff) {
+      return res.status(403).json({ error: "Forbidden - Staff access required" });
+    }
+
+    req.user = decodedToken;
+    next();
+  } catch (error) {
+    console.error('Auth middleware error:', error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize Firebase Admin SDK
   initializeFirebaseAdmin();
@@ -68,6 +116,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   const db = admin.firestore();
 
+  // Expires stale trades and deactivates ones whose items or cash are gone
+  startTradeMaintenance(db);
+
+  // Daily economy snapshots for the admin Economy tab
+  startEconomySnapshots(db);
+
+  // Lifts temporary bans once they run out
+  startBanExpiry(db);
+
+  // Puts scheduled item drops live at their release time
+  startItemReleases(db);
+
+  // Starts and ends global luck events and announces them
+  startLuckEvents(db);
+
+  // Keeps the inventory value and item counts on user documents up to date
+  startInventoryStats(db);
+
+  // Moves inventory arrays left over from before the subcollection into it
+  migrateLegacyInventories(db)
+    .then((migrated) => {
+      if (migrated > 0) {
+        console.log(`Migrated legacy inventories of ${migrated} user(s)`);
+      }
+    })
+    .catch((error) => console.error("Error migrating legacy inventories:", error));
+
   // Webhook endpoint for item releases (admin only)
   app.post("/api/webhooks/item-release", requireAdmin, async (req, res) => {
     try {
@@ -92,203 +167,236 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Accept trade endpoint (requires authentication)
-  app.post("/api/trades/:tradeId/accept", requireAuth, async (req: any, res) => {
+  // Roll endpoint (requires authentication) - item selection happens server-side
+  app.post("/api/roll", requireAuth, async (req: any, res) => {
     try {
-      const { tradeId } = req.params;
-      const userId = req.user.uid;
+      const result = await performRoll(db, req.user.uid);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error performing roll:", error);
+      res.status(400).json({ error: error.message || "Failed to roll" });
+    }
+  });
 
-      // Use Firestore transaction with admin privileges
-      await db.runTransaction(async (transaction) => {
-        // Get trade document
-        const tradeRef = db.collection("trades").doc(tradeId);
-        const tradeDoc = await transaction.get(tradeRef);
+  // Batch roll endpoint (requires authentication) - several rolls in one transaction, used by auto-roll
+  app.post("/api/roll/batch", requireAuth, async (req: any, res) => {
+    try {
+      const { count } = rollBatchRequestSchema.parse(req.body);
+      const result = await performRolls(db, req.user.uid, count);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error performing batch roll:", error);
+      res.status(400).json({ error: error.message || "Failed to roll" });
+    }
+  });
 
-        if (!tradeDoc.exists) {
-          throw new Error("Trade not found");
-        }
+  // Roll bundle endpoint (requires authentication) - several rolls at a discounted price
+  app.post("/api/roll/bundle", requireAuth, async (req: any, res) => {
+    try {
+      const { rolls } = rollBundleRequestSchema.parse(req.body);
+      const result = await performRollBundle(db, req.user.uid, rolls);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error performing roll bundle:", error);
+      res.status(400).json({ error: error.message || "Failed to roll bundle" });
+    }
+  });
 
-        const trade = tradeDoc.data();
-        if (!trade) {
-          throw new Error("Trade data not found");
-        }
+  // Sell endpoint (requires authentication) - value and fee are resolved server-side
+  app.post("/api/inventory/sell", requireAuth, async (req: any, res) => {
+    try {
+      const request = sellRequestSchema.parse(req.body);
+      const result = await sellItems(db, req.user.uid, request);
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error selling items:", error);
+      res.status(400).json({ error: error.message || "Failed to sell items" });
+    }
+  });
 
-        // Verify the user is the receiver
-        if (trade.receiverId !== userId) {
-          throw new Error("You are not the receiver of this trade");
-        }
+  // Game config (requires authentication) - read-only for players
+  app.get("/api/game-config", requireAuth, async (req, res) => {
+    try {
+      const config = await gameConfigCache.getConfig(db);
+      res.json(config);
+    } catch (error: any) {
+      console.error("Error loading game config:", error);
+      res.status(400).json({ error: error.message || "Failed to load game config" });
+    }
+  });
 
-        // Verify trade is pending
-        if (trade.status !== "pending") {
-          throw new Error("Trade is not pending");
-        }
+  // Update game config (admin only)
+  app.patch("/api/admin/game-config", requireAdmin, async (req: any, res) => {
+    try {
+      const updates = updateGameConfigSchema.parse(req.body);
+      const config = await updateGameConfig(db, updates, req.user.uid);
+      res.json(config);
+    } catch (error: any) {
+      console.error("Error updating game config:", error);
+      res.status(400).json({ error: error.message || "Failed to update game config" });
+    }
+  });
+
+  // Live and upcoming luck events (requires authentication)
+  app.get("/api/luck-events", requireAuth, async (req, res) => {
+    try {
+      const events = await getCurrentLuckEvents(db);
+      res.json(events);
+    } catch (error: any) {
+      console.error("Error loading luck events:", error);
+      res.status(400).json({ error: error.message || "Failed to load luck events" });
+    }
+  });
 
-        // Get both user documents
-        const senderRef = db.collection("users").doc(trade.senderId);
-        const receiverRef = db.collection("users").doc(trade.receiverId);
+  // Create a luck event (admin only)
+  app.post("/api/admin/luck-events", requireAdmin, async (req: any, res) => {
+    try {
+      const request = createLuckEventRequestSchema.parse(req.body);
+      const event = await createLuckEvent(db, req.user.uid, request);
+      res.json(event);
+    } catch (error: any) {
+      console.error("Error creating luck event:", error);
+      res.status(400).json({ error: error.message || "Failed to create luck event" });
+    }
+  });
 
-        const senderDoc = await transaction.get(senderRef);
-        const receiverDoc = await transaction.get(receiverRef);
+  // Cancel a scheduled or live luck event (admin only)
+  app.post("/api/admin/luck-events/:eventId/cancel", requireAdmin, async (req: any, res) => {
+    try {
+      await cancelLuckEvent(db, req.user.uid, req.params.eventId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error cancelling luck event:", error);
+      res.status(400).json({ error: error.message || "Failed to cancel luck event" });
+    }
+  });
 
-        if (!senderDoc.exists || !receiverDoc.exists) {
-          throw new Error("One or both users not found");
-        }
+  // Economy snapshots for the admin Economy tab, oldest first (admin only)
+  app.get("/api/admin/economy", requireAdmin, async (req, res) => {
+    try {
+      const { days } = z.object({
+        days: z.coerce.number().int().min(1).max(365).default(30),
+      }).parse(req.query);
 
-        const senderData = senderDoc.data();
-        const receiverData = receiverDoc.data();
+      const snapshots = await getEconomySnapshots(db, days);
+      res.json(snapshots);
+    } catch (error: any) {
+      console.error("Error loading economy snapshots:", error);
+      res.status(400).json({ error: error.message || "Failed to load economy snapshots" });
+    }
+  });
 
-        if (!senderData || !receiverData) {
-          throw new Error("User data not found");
-        }
+  // Retake today's economy snapshot now (admin only)
+  app.post("/api/admin/economy/snapshot", requireAdmin, async (req, res) => {
+    try {
+      const snapshot = await takeEconomySnapshot(db);
+      res.json(snapshot);
+    } catch (error: any) {
+      console.error("Error taking economy snapshot:", error);
+      res.status(400).json({ error: error.message || "Failed to take economy snapshot" });
+    }
+  });
 
-        // Get current inventories and cash
-        const senderInventory = [...(senderData.inventory || [])];
-        const receiverInventory = [...(receiverData.inventory || [])];
-        let senderCash = senderData.cash || 0;
-        let receiverCash = receiverData.cash || 0;
+  // Current provably-fair seed pair - only the hash of the server seed is ever sent
+  app.get("/api/fairness", requireAuth, async (req: any, res) => {
+    try {
+      const { serverSeedHash, clientSeed, nonce } = await getSeedState(db, req.user.uid);
+      res.json({ serverSeedHash, clientSeed, nonce });
+    } catch (error: any) {
+      console.error("Error loading seed state:", error);
+      res.status(400).json({ error: error.message || "Failed to load seeds" });
+    }
+  });
 
-        // Validate sender has enough cash
-        if (trade.senderOffer.cash > senderCash) {
-          throw new Error("Sender does not have enough cash");
-        }
+  // Reveal the current server seed and start a new pair (optionally with a new client seed)
+  app.post("/api/fairness/rotate", requireAuth, async (req: any, res) => {
+    try {
+      const { clientSeed } = z.object({
+        clientSeed: z.string().trim().min(1).max(64).optional(),
+      }).parse(req.body || {});
+
+      const { revealed, current } = await rotateSeed(db, req.user.uid, clientSeed);
+      res.json({
+        revealed,
+        serverSeedHash: current.serverSeedHash,
+        clientSeed: current.clientSeed,
+        nonce: current.nonce,
+      });
+    } catch (error: any) {
+      console.error("Error rotating seed:", error);
+      res.status(400).json({ error: error.message || "Failed to rotate seed" });
+    }
+  });
 
-        // Validate receiver has enough cash
-        if (trade.receiverRequest.cash > receiverCash) {
-          throw new Error("Receiver does not have enough cash");
-        }
+  // Public verification data for a server seed hash (no auth - anyone can audit rolls)
+  app.get("/api/fairness/verify/:serverSeedHash", async (req, res) => {
+    try {
+      const { serverSeedHash } = req.params;
+      if (!/^[0-9a-f]{64}$/.test(serverSeedHash)) {
+        return res.status(400).json({ error: "Invalid server seed hash" });
+      }
 
-        // Process sender's offered items (reduce/remove from sender, add to receiver)
-        const senderNewInventory = [...senderInventory];
-        const receiverNewInventory = [...receiverInventory];
-
-        // Transfer sender's offered items
-        for (const tradeItem of trade.senderOffer.items) {
-          const invIndex = senderNewInventory.findIndex(inv => inv.id === tradeItem.inventoryId);
-          
-          if (invIndex === -1) {
-            throw new Error(`Sender no longer has item: ${tradeItem.itemName}`);
-          }
-
-          const inventoryItem = senderNewInventory[invIndex];
-          const tradeAmount = tradeItem.amount || inventoryItem.amount;
-
-          // Validate sender has enough quantity
-          if (inventoryItem.amount < tradeAmount) {
-            throw new Error(`Sender doesn't have enough of ${tradeItem.itemName}`);
-          }
-
-          // Reduce sender's amount or remove item entirely
-          if (inventoryItem.amount === tradeAmount) {
-            senderNewInventory.splice(invIndex, 1);
-          } else {
-            senderNewInventory[invIndex] = {
-              ...inventoryItem,
-              amount: inventoryItem.amount - tradeAmount,
-            };
-          }
-
-          // Add to receiver's inventory (merge with existing or create new)
-          const existingReceiverItem = receiverNewInventory.find(
-            inv => inv.itemId === tradeItem.itemId && inv.serialNumber === tradeItem.serialNumber
-          );
-
-          if (existingReceiverItem) {
-            // Merge with existing stack
-            const existingIndex = receiverNewInventory.indexOf(existingReceiverItem);
-            receiverNewInventory[existingIndex] = {
-              ...existingReceiverItem,
-              amount: existingReceiverItem.amount + tradeAmount,
-            };
-          } else {
-            // Create new inventory entry
-            receiverNewInventory.push({
-              id: `${tradeItem.itemId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              itemId: tradeItem.itemId,
-              serialNumber: tradeItem.serialNumber,
-              rolledAt: Date.now(),
-              amount: tradeAmount,
-              nftLocked: false,
-            });
-          }
-        }
+      const data = await getVerificationData(db, serverSeedHash);
+      if (!data.revealed) {
+        return res.status(404).json({ error: "Seed has not been revealed yet" });
+      }
 
-        // Transfer receiver's requested items (same logic, reversed)
-        for (const tradeItem of trade.receiverRequest.items) {
-          const invIndex = receiverNewInventory.findIndex(inv => inv.id === tradeItem.inventoryId);
-          
-          if (invIndex === -1) {
-            throw new Error(`Receiver no longer has item: ${tradeItem.itemName}`);
-          }
-
-          const inventoryItem = receiverNewInventory[invIndex];
-          const tradeAmount = tradeItem.amount || inventoryItem.amount;
-
-          // Validate receiver has enough quantity
-          if (inventoryItem.amount < tradeAmount) {
-            throw new Error(`Receiver doesn't have enough of ${tradeItem.itemName}`);
-          }
-
-          // Reduce receiver's amount or remove item entirely
-          if (inventoryItem.amount === tradeAmount) {
-            receiverNewInventory.splice(invIndex, 1);
-          } else {
-            receiverNewInventory[invIndex] = {
-              ...inventoryItem,
-              amount: inventoryItem.amount - tradeAmount,
-            };
-          }
-
-          // Add to sender's inventory (merge with existing or create new)
-          const existingSenderItem = senderNewInventory.find(
-            inv => inv.itemId === tradeItem.itemId && inv.serialNumber === tradeItem.serialNumber
-          );
-
-          if (existingSenderItem) {
-            // Merge with existing stack
-            const existingIndex = senderNewInventory.indexOf(existingSenderItem);
-            senderNewInventory[existingIndex] = {
-              ...existingSenderItem,
-              amount: existingSenderItem.amount + tradeAmount,
-            };
-          } else {
-            // Create new inventory entry
-            senderNewInventory.push({
-              id: `${tradeItem.itemId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              itemId: tradeItem.itemId,
-              serialNumber: tradeItem.serialNumber,
-              rolledAt: Date.now(),
-              amount: tradeAmount,
-              nftLocked: false,
-            });
-          }
-        }
+      res.json(data);
+    } catch (error: any) {
+      console.error("Error loading verification data:", error);
+      res.status(400).json({ error: error.message || "Failed to load verification data" });
+    }
+  });
 
-        // Transfer cash
-        senderCash -= trade.senderOffer.cash;
-        receiverCash += trade.senderOffer.cash;
-        senderCash += trade.receiverRequest.cash;
-        receiverCash -= trade.receiverRequest.cash;
-
-        // Update sender document
-        transaction.update(senderRef, {
-          inventory: senderNewInventory,
-          cash: senderCash,
-        });
-
-        // Update receiver document
-        transaction.update(receiverRef, {
-          inventory: receiverNewInventory,
-          cash: receiverCash,
-        });
-
-        // Update trade status
-        transaction.update(tradeRef, {
-          status: "completed",
-          updatedAt: Date.now(),
-          completedAt: Date.now(),
-        });
-      });
+  // Create trade endpoint (requires authentication) - ownership, NFT locks and duplicates are checked server-side
+  app.post("/api/trades", requireAuth, async (req: any, res) => {
+    try {
+      const request = createTradeRequestSchema.parse(req.body);
+      const tradeId = await createTrade(db, req.user.uid, request);
+      res.json({ success: true, tradeId });
+    } catch (error: any) {
+      console.error("Error creating trade:", error);
+      res.status(400).json({ error: error.message || "Failed to create trade" });
+    }
+  });
+
+  // Counter-offer endpoint (receiver only) - stores the current terms as a revision and swaps the sides
+  app.post("/api/trades/:tradeId/counter", requireAuth, async (req: any, res) => {
+    try {
+      const request = counterTradeRequestSchema.parse(req.body);
+      await counterTrade(db, req.params.tradeId, req.user.uid, request);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error countering trade:", error);
+      res.status(400).json({ error: error.message || "Failed to counter trade" });
+    }
+  });
 
+  // Decline (receiver) and cancel (sender) endpoints - only pending trades
+  app.post("/api/trades/:tradeId/decline", requireAuth, async (req: any, res) => {
+    try {
+      await declineTrade(db, req.params.tradeId, req.user.uid);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error declining trade:", error);
+      res.status(400).json({ error: error.message || "Failed to decline trade" });
+    }
+  });
+
+  app.post("/api/trades/:tradeId/cancel", requireAuth, async (req: any, res) => {
+    try {
+      await cancelTrade(db, req.params.tradeId, req.user.uid);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error cancelling trade:", error);
+      res.status(400).json({ error: error.message || "Failed to cancel trade" });
+    }
+  });
+
+  // Accept trade endpoint (requires authentication)
+  app.post("/api/trades/:tradeId/accept", requireAuth, async (req: any, res) => {
+    try {
+      await acceptTrade(db, req.params.tradeId, req.user.uid);
       res.json({ success: true });
     } catch (error: any) {
       console.error("Error accepting trade:", error);
@@ -296,6 +404,268 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Post a trade ad (requires authentication) - offered entries must be owned and not NFT-locked
+  app.post("/api/trade-ads", requireAuth, async (req: any, res) => {
+    try {
+      const request = createTradeAdRequestSchema.parse(req.body);
+      const adId = await createTradeAd(db, req.user.uid, request);
+      res.json({ success: true, adId });
+    } catch (error: any) {
+      console.error("Error creating trade ad:", error);
+      res.status(400).json({ error: error.message || "Failed to post trade ad" });
+    }
+  });
+
+  app.delete("/api/trade-ads/:adId", requireAuth, async (req: any, res) => {
+    try {
+      await deleteTradeAd(db, req.params.adId, req.user.uid);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting trade ad:", error);
+      res.status(400).json({ error: error.message || "Failed to remove trade ad" });
+    }
+  });
+
+  // List a serial for a fixed price (requires authentication) - NFT-locked entries are rejected
+  app.post("/api/market/listings", requireAuth, async (req: any, res) => {
+    try {
+      const request = createListingRequestSchema.parse(req.body);
+      const listingId = await createListing(db, req.user.uid, request);
+      res.json({ success: true, listingId });
+    } catch (error: any) {
+      console.error("Error creating listing:", error);
+      res.status(400).json({ error: error.message || "Failed to list item" });
+    }
+  });
+
+  // Buy a listing - settled in one transaction, the fee goes to the admin account
+  app.post("/api/market/listings/:listingId/buy", requireAuth, async (req: any, res) => {
+    try {
+      const listing = await buyListing(db, req.params.listingId, req.user.uid);
+      res.json(listing);
+    } catch (error: any) {
+      console.error("Error buying listing:", error);
+      res.status(400).json({ error: error.message || "Failed to buy item" });
+    }
+  });
+
+  app.post("/api/market/listings/:listingId/cancel", requireAuth, async (req: any, res) => {
+    try {
+      await cancelListing(db, req.params.listingId, req.user.uid);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error cancelling listing:", error);
+      res.status(400).json({ error: error.message || "Failed to cancel listing" });
+    }
+  });
+
+  // Report another player (requires authentication) - the profile or trade is attached as evidence
+  app.post("/api/reports", requireAuth, async (req: any, res) => {
+    try {
+      const request = createReportRequestSchema.parse(req.body);
+      const reportId = await createReport(db, req.user.uid, request);
+      res.json({ success: true, reportId });
+    } catch (error: any) {
+      console.error("Error creating report:", error);
+      res.status(400).json({ error: error.message || "Failed to submit report" });
+    }
+  });
+
+  // Update a report's status or assignee (admins and moderators) - audit-logged
+  app.post("/api/admin/reports/:reportId", requireStaff, async (req: any, res) => {
+    try {
+      const request = updateReportRequestSchema.parse(req.body);
+      const report = await updateReport(db, req.params.reportId, req.user.uid, request);
+      res.json(report);
+    } catch (error: any) {
+      console.error("Error updating report:", error);
+      res.status(400).json({ error: error.message || "Failed to update report" });
+    }
+  });
+
+  // File a ban appeal (banned users only, one pending at a time)
+  app.post("/api/appeals", requireAuth, async (req: any, res) => {
+    try {
+      const request = createAppealRequestSchema.parse(req.body);
+      const appealId = await createAppeal(db, req.user.uid, request);
+      res.json({ success: true, appealId });
+    } catch (error: any) {
+      console.error("Error creating appeal:", error);
+      res.status(400).json({ error: error.message || "Failed to submit appeal" });
+    }
+  });
+
+  // Dismiss the outcome of a reviewed appeal
+  app.post("/api/appeals/:appealId/acknowledge", requireAuth, async (req: any, res) => {
+    try {
+      await acknowledgeAppeal(db, req.user.uid, req.params.appealId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error acknowledging appeal:", error);
+      res.status(400).json({ error: error.message || "Failed to acknowledge appeal" });
+    }
+  });
+
+  // Approve (unban) or deny a ban appeal (admins and moderators) - audit-logged
+  app.post("/api/admin/appeals/:appealId", requireStaff, async (req: any, res) => {
+    try {
+      const request = reviewAppealRequestSchema.parse(req.body);
+      const appeal = await reviewAppeal(db, req.params.appealId, req.user.uid, request);
+      res.json(appeal);
+    } catch (error: any) {
+      console.error("Error reviewing appeal:", error);
+      res.status(400).json({ error: error.message || "Failed to review appeal" });
+    }
+  });
+
+  // Moderation actions (admins and moderators) - permissions per MODERATION_PERMISSIONS, audit-logged on the server
+  app.post("/api/admin/users/:userId/ban", requireStaff, async (req: any, res) => {
+    try {
+      const request = banUserRequestSchema.parse(req.body);
+      const result = await banUser(db, req.user.uid, req.params.userId, request);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("Error banning user:", error);
+      res.status(400).json({ error: error.message || "Failed to ban user" });
+    }
+  });
+
+  app.post("/api/admin/users/:userId/unban", requireStaff, async (req: any, res) => {
+    try {
+      await unbanUser(db, req.user.uid, req.params.userId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error unbanning user:", error);
+      res.status(400).json({ error: error.message || "Failed to unban user" });
+    }
+  });
+
+  app.post("/api/admin/users/:userId/warn", requireStaff, async (req: any, res) => {
+    try {
+      const request = warnUserRequestSchema.parse(req.body);
+      const result = await warnUser(db, req.user.uid, req.params.userId, request);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("Error warning user:", error);
+      res.status(400).json({ error: error.message || "Failed to warn user" });
+    }
+  });
+
+  app.post("/api/admin/users/:userId/wipe", requireStaff, async (req: any, res) => {
+    try {
+      const result = await wipeUserInventory(db, req.user.uid, req.params.userId);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("Error wiping inventory:", error);
+      res.status(400).json({ error: error.message || "Failed to wipe inventory" });
+    }
+  });
+
+  // A player's cash and item history, newest first, one page per request (staff only)
+  app.get("/api/admin/users/:userId/ledger", requireStaff, async (req, res) => {
+    try {
+      const { cursor, limit } = ledgerPageQuerySchema.parse(req.query);
+      const page = await getLedger(db, req.params.userId, limit, cursor);
+      res.json(page);
+    } catch (error: any) {
+      console.error("Error loading ledger:", error);
+      res.status(400).json({ error: error.message || "Failed to load ledger" });
+    }
+  });
+
+  // Give an item to a user (admin only) - audit-logged with a snapshot so it can be reverted
+  app.post("/api/admin/users/:userId/give", requireAdmin, async (req: any, res) => {
+    try {
+      const request = giveItemRequestSchema.parse(req.body);
+      await giveItem(db, req.user.uid, req.params.userId, request);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error giving item:", error);
+      res.status(400).json({ error: error.message || "Failed to give item" });
+    }
+  });
+
+  // Create an item (admin only) - the Admin account receives copy #0
+  app.post("/api/admin/items", requireAdmin, async (req: any, res) => {
+    try {
+      const request = createItemRequestSchema.parse(req.body);
+      const item = await createItem(db, req.user.uid, request);
+      res.json(item);
+    } catch (error: any) {
+      console.error("Error creating item:", error);
+      res.status(400).json({ error: error.message || "Failed to create item" });
+    }
+  });
+
+  // Edit an item (admin only) - audit-logged with the previous state so it can be reverted
+  app.patch("/api/admin/items/:itemId", requireAdmin, async (req: any, res) => {
+    try {
+      const request = updateItemRequestSchema.parse(req.body);
+      const item = await updateItem(db, req.user.uid, req.params.itemId, request);
+      res.json(item);
+    } catch (error: any) {
+      console.error("Error updating item:", error);
+      res.status(400).json({ error: error.message || "Failed to update item" });
+    }
+  });
+
+  // Filtered audit log, newest first, one page per request (admin only)
+  app.get("/api/admin/audit-logs", requireAdmin, async (req, res) => {
+    try {
+      const { cursor, limit, ...filters } = auditLogPageQuerySchema.parse(req.query);
+      const page = await getAuditLogs(db, filters, limit, cursor);
+      res.json(page);
+    } catch (error: any) {
+      console.error("Error loading audit logs:", error);
+      res.status(400).json({ error: error.message || "Failed to load audit logs" });
+    }
+  });
+
+  // Stream every audit log entry matching the filters as CSV or NDJSON (admin only)
+  app.get("/api/admin/audit-logs/export", requireAdmin, async (req, res) => {
+    let query: z.infer<typeof auditLogExportQuerySchema>;
+    try {
+      query = auditLogExportQuerySchema.parse(req.query);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message || "Invalid export filters" });
+    }
+
+    const { format, ...filters } = query;
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson");
+    res.setHeader("Content-Disposition", `attachment; filename="audit-log-${date}.${format === "csv" ? "csv" : "ndjson"}"`);
+
+    try {
+      for await (const line of exportAuditLogs(db, filters, format)) {
+        if (!res.write(line)) {
+          await new Promise((resolve) => res.once("drain", resolve));
+        }
+      }
+      res.end();
+    } catch (error: any) {
+      console.error("Error exporting audit logs:", error);
+      // Headers are already sent once the first line is written, so cut the download short
+      if (res.headersSent) {
+        res.destroy(error);
+      } else {
+        res.removeHeader("Content-Disposition");
+        res.status(500).json({ error: error.message || "Failed to export audit logs" });
+      }
+    }
+  });
+
+  // Revert a ban, wipe, item gift or item edit from the snapshot on its audit log entry (admin only)
+  app.post("/api/admin/audit-logs/:logId/revert", requireAdmin, async (req: any, res) => {
+    try {
+      const details = await revertAuditLog(db, req.params.logId, req.user.uid);
+      res.json({ success: true, details });
+    } catch (error: any) {
+      console.error("Error reverting audit log entry:", error);
+      res.status(400).json({ error: error.message || "Failed to revert action" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
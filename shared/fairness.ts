@@ -0,0 +1,94 @@
+import type { Item } from "./schema";
+
+// Provably-fair rolling (commit–reveal)
+// 1. The server commits to a secret server seed by publishing SHA-256(serverSeed) up front.
+// 2. The player controls a client seed; every roll consumes the next nonce.
+// 3. roll = HMAC-SHA256(key = serverSeed, message = `${clientSeed}:${nonce}`)
+// 4. When the seed is rotated the server seed is revealed, and anyone can recompute each roll
+//    against the rollable-items snapshot that was live when it happened.
+//
+// HMAC/SHA-256 are computed with node:crypto on the server and WebCrypto in the browser;
+// everything after the digest lives here so both sides pick items identically.
+
+// Ultra rare and higher rarities that are affected by luck multiplier
+export const LUCK_AFFECTED_RARITIES = ["ULTRA_RARE", "EPIC", "ULTRA_EPIC", "MYTHIC", "INSANE"];
+
+// Minimal item data needed to replay a roll. Snapshots are stored sorted by id.
+export type RollSnapshotItem = Pick<Item, "id" | "name" | "value" | "rarity">;
+
+// A luck event's or pity threshold's effect on item weights, recorded with each roll it applied to
+export type RollBoost = {
+  multiplier: number;
+  rarities?: string[]; // Boosted rarities, for rarity events
+  itemId?: string; // Boosted item, for item events
+};
+
+export type RollProof = {
+  userId: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  snapshotId: string;
+  luckMultiplier: number;
+  boosts?: RollBoost[]; // Luck event and pity boosts applied to this roll; absent when none were
+  itemId: string;
+  timestamp: number;
+};
+
+export type RevealedSeed = {
+  userId: string;
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  finalNonce: number; // Number of rolls made with this seed pair
+  createdAt: number;
+  revealedAt: number;
+};
+
+export function rollMessage(clientSeed: string, nonce: number): string {
+  return `${clientSeed}:${nonce}`;
+}
+
+// Uses the first 52 bits of the digest so the result is exactly representable as a double in [0, 1)
+export function hashToFloat(hexDigest: string): number {
+  return parseInt(hexDigest.slice(0, 13), 16) / Math.pow(2, 52);
+}
+
+export function pickWeightedItem<T extends Pick<Item, "id" | "value" | "rarity">>(
+  items: T[],
+  luckMultiplier: number,
+  random: number,
+  boosts: RollBoost[] = []
+): T {
+  let totalWeight = 0;
+  const weights = items.map((item) => {
+    let weight = 1 / item.value;
+
+    // Apply luck multiplier only to ULTRA_RARE or higher
+    if (LUCK_AFFECTED_RARITIES.includes(item.rarity)) {
+      weight *= luckMultiplier;
+    }
+
+    // Boosts stack with each other and with the player's own luck
+    for (const boost of boosts) {
+      if (boost.itemId === item.id || boost.rarities?.includes(item.rarity)) {
+        weight *= boost.multiplier;
+      }
+    }
+
+    totalWeight += weight;
+    return weight;
+  });
+
+  const target = random * totalWeight;
+  let cumulative = 0;
+
+  for (let i = 0; i < items.length; i++) {
+    cumulative += weights[i];
+    if (target <= cumulative) {
+      return items[i];
+    }
+  }
+
+  return items[items.length - 1];
+}
@@ -34,19 +34,26 @@ export function calculateRollChance(value: number): number {
   return Math.max(0.000001, Math.min(100, baseChance));
 }
 
+// Inventory entry, stored one document per entry at users/{userId}/inventory/{entryId}.
+// Infinite items stack into a single entry (serialNumber null, amount > 1);
+// limited and timer items get one entry per serial.
+export const inventoryEntrySchema = z.object({
+  id: z.string(),
+  itemId: z.string(),
+  serialNumber: z.number().nullable(), // null for infinite items, 0 for admin's special copy, 1+ for user copies
+  rolledAt: z.number(),
+  amount: z.number().default(1),
+  nftLocked: z.boolean().default(false), // NFT (Not For Trade) marking
+});
+
+export type InventoryEntry = z.infer<typeof inventoryEntrySchema>;
+
 // User Schema
-// PERFORMANCE OPTIMIZATION: Inventory is stored as an array in the user document
-// Benefits:
-// 1. Single document read instead of N+1 queries (1 user doc + N inventory docs)
-// 2. Atomic updates with Firestore transactions
-// 3. Reduced read costs (1 read vs. potentially hundreds per user)
-// 4. Inventory cached with user data, reducing latency
-// 
-// LIMITATION: Firestore documents have a 1 MB size limit. Each inventory item is ~100-200 bytes,
-// so this supports ~5000-10000 items per user. For users with larger inventories, consider:
-// - Implementing inventory pagination/chunking
-// - Using a subcollection for overflow items
-// - Adding auto-cleanup of old/low-value items
+// Inventory used to live in an array on this document, which hit Firestore's 1 MB document
+// limit for heavy rollers and made every roll rewrite the whole array. It now lives in the
+// users/{userId}/inventory subcollection; `inventory` below is only present on documents
+// that haven't been migrated yet (see migrateAllUsersInventory) and is read as a fallback.
+// Players can't write it; the server moves any that are left at startup (migrateLegacyInventories).
 export const userSchema = z.object({
   id: z.string(), // Firestore document ID
   firebaseUid: z.string(),
@@ -65,6 +72,7 @@ export const userSchema = z.object({
   rollCount: z.number().default(0), // Total number of rolls performed
   cash: z.number().default(1000), // User's currency
   luckMultiplier: z.number().default(1), // Luck multiplier for rolling (only affects ULTRA_RARE and higher)
+  pityCounters: z.record(z.number()).optional(), // Rolls since the last hit at or above each PITY_RARITIES tier, written by the server
   customStatus: z.string().max(120).default(""), // User's custom status message
   description: z.string().max(1000).default(""), // User's profile description
   showcaseItems: z.array(z.string()).max(5).default([]), // Array of inventory item IDs (max 5)
@@ -76,20 +84,17 @@ export const userSchema = z.object({
     itemValue: z.number(),
     serialNumber: z.number().nullable(),
   })).max(5).default([]), // Denormalized showcase data to avoid item fetches
+  // Inventory aggregates kept up to date by the server, so nothing has to read whole inventories
   inventoryValue: z.number().default(0), // Cached total inventory value
+  itemCount: z.number().default(0), // Copies held, counting every item in a stack
+  uniqueItemCount: z.number().default(0), // Distinct items held
+  inventoryStatsStale: z.boolean().optional(), // Set with each inventory change until the server recomputes the stats above
   timeSpentOnSite: z.number().default(0), // Total time spent on site in milliseconds
   lastActive: z.number().default(Date.now), // Last activity timestamp for online/offline tracking
   settings: z.object({
     autoSellRarities: z.array(z.enum(["COMMON", "UNCOMMON", "RARE", "ULTRA_RARE", "EPIC", "ULTRA_EPIC", "MYTHIC", "INSANE"])).default([]),
   }).default({ autoSellRarities: [] }),
-  inventory: z.array(z.object({
-    id: z.string(),
-    itemId: z.string(),
-    serialNumber: z.number().nullable(), // null for infinite items, 0 for admin's special copy, 1+ for user copies
-    rolledAt: z.number(),
-    amount: z.number().default(1),
-    nftLocked: z.boolean().default(false), // NFT (Not For Trade) marking
-  })).default([]),
+  inventory: z.array(inventoryEntrySchema).optional(), // Legacy, pre-subcollection inventory
   bestRolls: z.array(z.object({
     itemId: z.string(),
     itemName: z.string(),
@@ -140,6 +145,10 @@ export const itemSchema = z.object({
   timerExpiresAt: z.number().nullable(), // timestamp when timer items expire and become unavailable
   timerDuration: z.number().nullable(), // duration in milliseconds for timer items
   nextSerialNumber: z.number().optional(), // Next serial number to assign for limited/timer items (only set for those types)
+  rap: z.number().optional(), // Recent average price from completed trades and marketplace sales, set by the server
+  lastSoldAt: z.number().optional(),
+  releaseAt: z.number().nullable().optional(), // Scheduled drop time; removed by the server when the item goes live
+  holdersStatsStaleAt: z.number().optional(), // Set when the value changes until every holder's inventory stats are flagged
   createdAt: z.number(),
   createdBy: z.string(), // userId who created it
 });
@@ -153,12 +162,64 @@ export const insertItemSchema = z.object({
   stockType: z.enum(["limited", "infinite", "timer"]),
   totalStock: z.number().positive().nullable(),
   timerDuration: z.number().positive().nullable(), // duration in milliseconds for timer items
+  releaseAt: z.number().nullable().optional(),
   createdBy: z.string(),
 });
 
 export type Item = z.infer<typeof itemSchema>;
 export type InsertItem = z.infer<typeof insertItemSchema>;
 
+// Scheduled items stay out of rolls and the Item Index until the server releases them,
+// even if the scheduler runs a little after releaseAt
+export function isUnreleased(item: Pick<Item, "releaseAt">): boolean {
+  return !!item.releaseAt;
+}
+
+// Body of POST /api/admin/items. The creating admin comes from the auth token.
+export const createItemRequestSchema = insertItemSchema.omit({ createdBy: true });
+
+export type CreateItemRequest = z.infer<typeof createItemRequestSchema>;
+
+// Body of PATCH /api/admin/items/:itemId
+export const updateItemRequestSchema = insertItemSchema.pick({
+  name: true,
+  description: true,
+  imageUrl: true,
+  value: true,
+  offSale: true,
+  stockType: true,
+  totalStock: true,
+});
+
+export type UpdateItemRequest = z.infer<typeof updateItemRequestSchema>;
+
+// One admin change of an item's value, stored at items/{itemId}/valueHistory/{changeId}.
+// Item creation writes the first entry with previousValue null.
+export const itemValueChangeSchema = z.object({
+  id: z.string(),
+  value: z.number(),
+  previousValue: z.number().nullable(),
+  changedAt: z.number(),
+  changedBy: z.string(), // Firestore ID of the admin
+  changedByUsername: z.string().optional(),
+});
+
+export type ItemValueChange = z.infer<typeof itemValueChangeSchema>;
+
+// One copy changing hands, stored at items/{itemId}/sales/{saleId} by the server.
+// Trade prices are implied: what a side received, split over the items it gave by value.
+export const itemSaleSchema = z.object({
+  id: z.string(),
+  price: z.number(), // Per copy
+  amount: z.number(),
+  source: z.enum(["trade", "marketplace"]),
+  sourceId: z.string(), // Trade or listing ID
+  rap: z.number(), // Item RAP after this sale
+  soldAt: z.number(),
+});
+
+export type ItemSale = z.infer<typeof itemSaleSchema>;
+
 // Inventory Item Schema (individual rolled items)
 export const inventoryItemSchema = z.object({
   id: z.string(),
@@ -184,11 +245,75 @@ export type GlobalRollEvent = {
   serialNumber?: number;
 };
 
+// Result of a single roll as returned by POST /api/roll
+export type RollResult = {
+  item: Item;
+  serialNumber: number | null;
+  autoSold?: boolean;
+  playerEarned?: number;
+  proof?: { serverSeedHash: string; clientSeed: string; nonce: number }; // see shared/fairness.ts
+};
+
 // Combined inventory item with full item details
 export type InventoryItemWithDetails = InventoryItem & {
   item: Item;
 };
 
+// State captured before a revertible admin action, stored on its audit log entry
+// so POST /api/admin/audit-logs/:logId/revert can put things back.
+const banStateSchema = z.object({
+  isBanned: z.boolean(),
+  isPermanentBan: z.boolean(),
+  banReason: z.string(),
+  banNotes: z.string().optional(),
+  banExpiresAt: z.number().optional(),
+});
+
+const editableItemStateSchema = itemSchema.pick({
+  name: true,
+  description: true,
+  imageUrl: true,
+  value: true,
+  rarity: true,
+  offSale: true,
+  stockType: true,
+  totalStock: true,
+  remainingStock: true,
+});
+
+export const auditSnapshotSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("user_ban"),
+    user: banStateSchema, // Ban fields before the ban
+    wipedEntries: z.array(inventoryEntrySchema), // Moved to the admin account if the ban wiped the inventory
+    adminId: z.string().optional(), // Admin account that received the wiped entries
+  }),
+  z.object({
+    type: z.literal("user_wipe_inventory"),
+    wipedEntries: z.array(inventoryEntrySchema),
+    adminId: z.string(),
+  }),
+  z.object({
+    type: z.literal("user_give_items"),
+    itemId: z.string(),
+    entryId: z.string(), // Inventory entry created, stacked onto or transferred
+    amount: z.number(), // Copies added to that entry
+    serialNumber: z.number().nullable(),
+    createdSerial: z.boolean(), // A new serial was minted (totalStock was raised)
+    sourceUserId: z.string().optional(), // Previous owner when an existing serial was transferred
+  }),
+  z.object({
+    type: z.literal("item_edit"),
+    itemId: z.string(),
+    before: editableItemStateSchema,
+    after: editableItemStateSchema,
+  }),
+]);
+
+export type AuditSnapshot = z.infer<typeof auditSnapshotSchema>;
+
+export const REVERTIBLE_AUDIT_ACTIONS = ["user_ban", "user_wipe_inventory", "user_give_items", "item_edit"] as const;
+
 // Audit Log Schema
 export const auditLogSchema = z.object({
   id: z.string(), // Firestore document ID
@@ -205,6 +330,12 @@ export const auditLogSchema = z.object({
     "item_edit",
     "item_delete",
     "game_reset_economy",
+    "game_config_update",
+    "report_update",
+    "appeal_review",
+    "audit_revert",
+    "luck_event_create",
+    "luck_event_cancel",
   ]),
   targetUserId: z.string().optional(), // Firestore ID of the affected user (if applicable)
   targetUsername: z.string().optional(), // Username of the affected user
@@ -227,6 +358,10 @@ export const auditLogSchema = z.object({
       stock: z.number().nullable(),
     }).optional(),
   }).optional(),
+  snapshot: auditSnapshotSchema.optional(), // Pre-action state for revertible actions
+  revertedAt: z.number().optional(),
+  revertedBy: z.string().optional(), // Firestore ID of the admin who reverted it
+  revertedByUsername: z.string().optional(),
 });
 
 export const insertAuditLogSchema = auditLogSchema.omit({ id: true });
@@ -234,50 +369,612 @@ export const insertAuditLogSchema = auditLogSchema.omit({ id: true });
 export type AuditLog = z.infer<typeof auditLogSchema>;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 
+// Filters for the admin audit log search and export. Admin and target are matched by
+// the username stored on the entry, so renamed accounts keep their old entries.
+export const auditLogFilterSchema = z.object({
+  actionType: auditLogSchema.shape.actionType.optional(),
+  adminUsername: z.string().trim().min(1).optional(),
+  targetUsername: z.string().trim().min(1).optional(),
+  from: z.coerce.number().int().nonnegative().optional(), // Inclusive timestamp
+  to: z.coerce.number().int().nonnegative().optional(), // Inclusive timestamp
+});
+
+export const auditLogPageQuerySchema = auditLogFilterSchema.extend({
+  cursor: z.string().optional(), // ID of the last entry on the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const auditLogExportQuerySchema = auditLogFilterSchema.extend({
+  format: z.enum(["csv", "ndjson"]).default("csv"),
+});
+
+export type AuditLogFilters = z.infer<typeof auditLogFilterSchema>;
+export type AuditLogExportFormat = z.infer<typeof auditLogExportQuerySchema>["format"];
+
+export interface AuditLogPage {
+  logs: AuditLog[];
+  nextCursor: string | null; // null on the last page
+}
+
 // Trade Schema
-export const tradeSchema = z.object({
-  id: z.string(), // Firestore document ID
-  status: z.enum(["pending", "accepted", "declined", "cancelled", "completed", "inactive"]),
+const tradeItemSchema = z.object({
+  inventoryId: z.string(),
+  itemId: z.string(),
+  itemName: z.string(),
+  itemImageUrl: z.string(),
+  itemValue: z.number(),
+  itemRarity: z.enum(["COMMON", "UNCOMMON", "RARE", "ULTRA_RARE", "EPIC", "ULTRA_EPIC", "MYTHIC", "INSANE"]),
+  serialNumber: z.number().nullable(),
+  nftLocked: z.boolean().default(false),
+  amount: z.number().int().positive().default(1), // Quantity of this item being traded; always 1 for serials
+});
+
+// Who gives what in one version of a trade. A counter-offer swaps sender and receiver.
+export const tradeTermsSchema = z.object({
   senderId: z.string(), // User ID of the trade initiator
   senderUsername: z.string(),
   receiverId: z.string(), // User ID of the trade recipient
   receiverUsername: z.string(),
   senderOffer: z.object({
-    items: z.array(z.object({
-      inventoryId: z.string(),
-      itemId: z.string(),
-      itemName: z.string(),
-      itemImageUrl: z.string(),
-      itemValue: z.number(),
-      itemRarity: z.enum(["COMMON", "UNCOMMON", "RARE", "ULTRA_RARE", "EPIC", "ULTRA_EPIC", "MYTHIC", "INSANE"]),
-      serialNumber: z.number().nullable(),
-      nftLocked: z.boolean().default(false),
-      amount: z.number().positive().default(1), // Quantity of this item being traded
-    })).min(1).max(7),
+    items: z.array(tradeItemSchema).min(1).max(7),
     cash: z.number().min(0).max(50000).default(0),
   }),
   receiverRequest: z.object({
-    items: z.array(z.object({
-      inventoryId: z.string(),
-      itemId: z.string(),
-      itemName: z.string(),
-      itemImageUrl: z.string(),
-      itemValue: z.number(),
-      itemRarity: z.enum(["COMMON", "UNCOMMON", "RARE", "ULTRA_RARE", "EPIC", "ULTRA_EPIC", "MYTHIC", "INSANE"]),
-      serialNumber: z.number().nullable(),
-      nftLocked: z.boolean().default(false),
-      amount: z.number().positive().default(1), // Quantity of this item being traded
-    })).min(1).max(7),
+    items: z.array(tradeItemSchema).min(1).max(7),
     cash: z.number().min(0).max(10000).default(0),
   }),
+});
+
+// A superseded version of a trade, kept when it is countered
+export const tradeRevisionSchema = tradeTermsSchema.extend({
+  revision: z.number(), // 0 for the original offer
+  parentRevision: z.number().optional(), // Revision this version countered
+  createdAt: z.number(),
+});
+
+export const tradeSchema = tradeTermsSchema.extend({
+  id: z.string(), // Firestore document ID
+  status: z.enum(["pending", "accepted", "declined", "cancelled", "completed", "inactive"]),
+  revisions: z.array(tradeRevisionSchema).optional(), // Earlier versions, oldest first; the current one is revision `revisions.length`
+  parentRevision: z.number().optional(), // Revision the current terms counter
   createdAt: z.number(),
   updatedAt: z.number(),
   completedAt: z.number().optional(),
   declinedReason: z.string().optional(),
+  inactiveReason: z.enum(["expired", "items_unavailable", "cash_unavailable"]).optional(), // Set by the server's trade maintenance job
+  inactiveDetail: z.string().optional(), // e.g. which item or whose cash went missing
 });
 
 export const insertTradeSchema = tradeSchema.omit({ id: true });
 
 export type Trade = z.infer<typeof tradeSchema>;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
+export type TradeTerms = z.infer<typeof tradeTermsSchema>;
+export type TradeRevision = z.infer<typeof tradeRevisionSchema>;
+
+// Body of POST /api/trades. The sender, usernames, status and timestamps come from the
+// server, and item details are re-read from the inventory entries and item documents.
+export const createTradeRequestSchema = insertTradeSchema.pick({
+  receiverId: true,
+  senderOffer: true,
+  receiverRequest: true,
+});
+
+export type CreateTradeRequest = z.infer<typeof createTradeRequestSchema>;
+
+// Body of POST /api/trades/:tradeId/counter, from the countering user's side: what they give and what they want
+export const counterTradeRequestSchema = createTradeRequestSchema.omit({ receiverId: true });
+
+export type CounterTradeRequest = z.infer<typeof counterTradeRequestSchema>;
+
+// Trade Ad Schema - public "offering X, looking for Y" posts on the Trade Ads board
+const tradeAdWantedItemSchema = tradeItemSchema.pick({
+  itemId: true,
+  itemName: true,
+  itemImageUrl: true,
+  itemValue: true,
+  itemRarity: true,
+});
+
+export const tradeAdSchema = z.object({
+  id: z.string(), // Firestore document ID
+  userId: z.string(), // Poster's user document ID
+  username: z.string(),
+  offering: z.array(tradeItemSchema.omit({ nftLocked: true })).min(1).max(7), // Inventory entries the poster is offering
+  lookingFor: z.array(tradeAdWantedItemSchema).max(7), // Items wanted in return, by itemId
+  note: z.string().max(200).optional(),
+  createdAt: z.number(),
+});
+
+export type TradeAd = z.infer<typeof tradeAdSchema>;
+
+// Body of POST /api/trade-ads. Item details are filled in by the server.
+export const createTradeAdRequestSchema = z.object({
+  offering: z.array(z.object({
+    inventoryId: z.string(),
+    amount: z.number().int().positive().default(1),
+  })).min(1).max(7),
+  lookingFor: z.array(z.string()).max(7), // itemIds
+  note: z.string().trim().max(200).optional(),
+});
+
+export type CreateTradeAdRequest = z.infer<typeof createTradeAdRequestSchema>;
+
+// Marketplace Listing Schema - one serial offered for a fixed cash price. The entry stays in
+// the seller's inventory until it is bought; sold listings double as the purchase history.
+export const marketListingSchema = tradeItemSchema.pick({
+  inventoryId: true,
+  itemId: true,
+  itemName: true,
+  itemImageUrl: true,
+  itemValue: true,
+  itemRarity: true,
+}).extend({
+  id: z.string(), // Firestore document ID
+  sellerId: z.string(),
+  sellerUsername: z.string(),
+  serialNumber: z.number(),
+  price: z.number().int().positive(),
+  status: z.enum(["active", "sold", "cancelled"]),
+  cancelledReason: z.enum(["seller", "unavailable"]).optional(), // "unavailable" when the entry left the seller's inventory or got NFT-locked
+  buyerId: z.string().optional(),
+  buyerUsername: z.string().optional(),
+  fee: z.number().optional(), // Paid to the admin account out of the price
+  sellerEarned: z.number().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  soldAt: z.number().optional(),
+});
+
+export type MarketListing = z.infer<typeof marketListingSchema>;
+
+// Body of POST /api/market/listings. Item details are filled in by the server.
+export const createListingRequestSchema = z.object({
+  inventoryId: z.string(),
+  price: z.number().int().positive().max(1_000_000_000),
+});
+
+export type CreateListingRequest = z.infer<typeof createListingRequestSchema>;
+
+// Moderation permission matrix. Admins can do everything; moderators can warn, give
+// temporary bans and lift them. Enforced by server/lib/moderation.ts, and used by the
+// admin panel to hide actions the current user can't take.
+export type StaffRole = "admin" | "moderator";
+
+export const MODERATION_PERMISSIONS = {
+  warn: ["admin", "moderator"],
+  temp_ban: ["admin", "moderator"],
+  lift_temp_ban: ["admin", "moderator"],
+  permanent_ban: ["admin"],
+  lift_permanent_ban: ["admin"],
+  wipe: ["admin"],
+} as const satisfies Record<string, readonly StaffRole[]>;
+
+export type ModerationAction = keyof typeof MODERATION_PERMISSIONS;
+
+// Longest temporary ban staff without the permanent_ban permission can give,
+// so a multi-year "temporary" ban can't stand in for a permanent one
+export const MODERATOR_MAX_BAN_DAYS = 30;
+
+export function getStaffRole(user: { isAdmin?: boolean; isModerator?: boolean }): StaffRole | null {
+  if (user.isAdmin) return "admin";
+  if (user.isModerator) return "moderator";
+  return null;
+}
+
+export function canModerate(role: StaffRole | null, action: ModerationAction): boolean {
+  return role !== null && (MODERATION_PERMISSIONS[action] as readonly StaffRole[]).includes(role);
+}
+
+// Body of POST /api/admin/users/:userId/ban. A ban that wipes the inventory needs the wipe permission too.
+export const banUserRequestSchema = z.object({
+  reason: z.string().trim().max(200).default(""),
+  notes: z.string().trim().max(500).optional(), // Visible to the banned user
+  isPermanent: z.boolean().default(false),
+  days: z.number().int().min(1).max(3650).default(7), // Ignored for permanent bans
+  wipeInventory: z.boolean().default(false),
+  reportId: z.string().optional(), // Report the ban was issued from, recorded on the audit log
+});
+
+export type BanUserRequest = z.infer<typeof banUserRequestSchema>;
+
+// Warning severities. Each warning adds its points to the player's total until it
+// expires; crossing a threshold in GameConfig.warningEscalations triggers a temporary ban.
+export const WARNING_SEVERITIES = {
+  minor: { label: "Minor", points: 1, expiryDays: 30 },
+  moderate: { label: "Moderate", points: 2, expiryDays: 60 },
+  severe: { label: "Severe", points: 3, expiryDays: 90 },
+} as const;
+
+export type WarningSeverity = keyof typeof WARNING_SEVERITIES;
+
+const warningSeveritySchema = z.enum(Object.keys(WARNING_SEVERITIES) as [WarningSeverity, ...WarningSeverity[]]);
 
+// Warning Schema (users/{userId}/warnings/{warningId}, written by the server only)
+export const warningSchema = z.object({
+  id: z.string(), // Firestore document ID
+  reason: z.string(),
+  message: z.string().optional(), // Extra message shown to the player
+  severity: warningSeveritySchema,
+  points: z.number(),
+  issuedAt: z.number(),
+  expiresAt: z.number(),
+  issuedBy: z.string(), // Firestore ID of the staff member who issued it
+  issuedByUsername: z.string(),
+  reportId: z.string().optional(),
+  escalationBanDays: z.number().optional(), // Set when this warning triggered an automatic ban
+});
+
+export type Warning = z.infer<typeof warningSchema>;
+
+export function getActiveWarningPoints(warnings: Pick<Warning, "points" | "expiresAt">[], now: number): number {
+  return warnings.reduce((total, warning) => total + (warning.expiresAt > now ? warning.points : 0), 0);
+}
+
+// Body of POST /api/admin/users/:userId/warn
+export const warnUserRequestSchema = z.object({
+  reason: z.string().trim().max(200).default(""),
+  message: z.string().trim().max(500).optional(),
+  severity: warningSeveritySchema.default("minor"),
+  reportId: z.string().optional(),
+});
+
+export type WarnUserRequest = z.infer<typeof warnUserRequestSchema>;
+
+// Body of POST /api/admin/users/:userId/give. Infinite items stack `quantity` copies;
+// other items mint a new serial, or move an existing one when `transfer` is set.
+export const giveItemRequestSchema = z.object({
+  itemId: z.string(),
+  quantity: z.number().int().min(1).max(1000).default(1),
+  transfer: z.object({
+    fromUserId: z.string(),
+    entryId: z.string(),
+  }).optional(),
+});
+
+export type GiveItemRequest = z.infer<typeof giveItemRequestSchema>;
+
+// Report Schema - a player reporting another player. The reported profile or trade is
+// copied into `evidence` when the report is filed, so later edits can't hide it.
+export const REPORT_CATEGORIES = {
+  scamming: "Scamming",
+  harassment: "Harassment",
+  exploiting: "Exploiting / Glitch Abuse",
+  alt_account: "Alt Account",
+  inappropriate_profile: "Inappropriate Profile",
+  other: "Other",
+} as const;
+
+export type ReportCategory = keyof typeof REPORT_CATEGORIES;
+
+const reportCategorySchema = z.enum(Object.keys(REPORT_CATEGORIES) as [ReportCategory, ...ReportCategory[]]);
+
+export const reportSchema = z.object({
+  id: z.string(), // Firestore document ID
+  reporterId: z.string(),
+  reporterUsername: z.string(),
+  targetUserId: z.string(),
+  targetUsername: z.string(),
+  category: reportCategorySchema,
+  description: z.string().min(10).max(1000),
+  evidence: z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("profile"),
+      profile: userSchema.pick({
+        userId: true,
+        customStatus: true,
+        description: true,
+        showcaseMetadata: true,
+        inventoryValue: true,
+        cash: true,
+        rollCount: true,
+      }),
+    }),
+    z.object({
+      type: z.literal("trade"),
+      tradeId: z.string(),
+      trade: insertTradeSchema,
+    }),
+  ]),
+  status: z.enum(["open", "investigating", "resolved", "dismissed"]),
+  assigneeId: z.string().optional(), // Admin handling the report
+  assigneeUsername: z.string().optional(),
+  actionTaken: z.enum(["ban", "warn"]).optional(), // Set when the report was resolved by banning or warning the target
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export type Report = z.infer<typeof reportSchema>;
+export type ReportStatus = Report["status"];
+
+// Body of POST /api/reports. Pass tradeId to attach a trade the reporter took part in;
+// otherwise the target's profile is attached.
+export const createReportRequestSchema = z.object({
+  targetUserId: z.string(),
+  category: reportCategorySchema,
+  description: z.string().trim().min(10, "Please describe what happened (at least 10 characters)").max(1000),
+  tradeId: z.string().optional(),
+});
+
+export type CreateReportRequest = z.infer<typeof createReportRequestSchema>;
+
+// Body of POST /api/admin/reports/:reportId. assigneeId null unassigns the report.
+export const updateReportRequestSchema = z.object({
+  status: reportSchema.shape.status.optional(),
+  assigneeId: z.string().nullable().optional(),
+  actionTaken: reportSchema.shape.actionTaken,
+});
+
+export type UpdateReportRequest = z.infer<typeof updateReportRequestSchema>;
+
+// Ban Appeal Schema - a banned player asking for their ban to be lifted. The ban is
+// copied into the appeal so reviewers see what was appealed even after it changes.
+export const appealSchema = z.object({
+  id: z.string(), // Firestore document ID
+  userId: z.string(),
+  username: z.string(),
+  statement: z.string().min(20).max(2000),
+  banReason: z.string(),
+  isPermanentBan: z.boolean(),
+  banExpiresAt: z.number().optional(),
+  status: z.enum(["pending", "approved", "denied"]),
+  reply: z.string().optional(), // Reviewer's reply, shown to the player
+  reviewerId: z.string().optional(),
+  reviewerUsername: z.string().optional(),
+  acknowledged: z.boolean().optional(), // Set once the player has seen an approval after logging back in
+  createdAt: z.number(),
+  reviewedAt: z.number().optional(),
+});
+
+export type Appeal = z.infer<typeof appealSchema>;
+
+// How long a player has to wait to appeal again after a denial
+export const APPEAL_DENIAL_COOLDOWN = 7 * 24 * 60 * 60 * 1000; // 7 days
+export type AppealStatus = Appeal["status"];
+
+// Body of POST /api/appeals
+export const createAppealRequestSchema = z.object({
+  statement: z.string().trim().min(20, "Please explain your appeal (at least 20 characters)").max(2000),
+});
+
+export type CreateAppealRequest = z.infer<typeof createAppealRequestSchema>;
+
+// Body of POST /api/admin/appeals/:appealId. Approving lifts the ban.
+export const reviewAppealRequestSchema = z.object({
+  decision: z.enum(["approved", "denied"]),
+  reply: z.string().trim().max(1000).default(""),
+});
+
+export type ReviewAppealRequest = z.infer<typeof reviewAppealRequestSchema>;
+
+// Rarities that can have a pity threshold. Every roll updates the player's dry-roll
+// counter for each of them, so progress is kept when a threshold is added later.
+export const PITY_RARITIES = ["ULTRA_RARE", "EPIC", "ULTRA_EPIC", "MYTHIC", "INSANE"] as const;
+
+// Game Config Schema (single document at config/game, written by the server only)
+export const gameConfigSchema = z.object({
+  sellFeeRate: z.number().min(0).max(1).default(0.2), // Share of every sale (manual and auto-sell) paid to the admin account
+  tradeExpiryHours: z.number().min(1).max(720).default(72), // Pending trades go inactive this long after their last revision
+  lowballThreshold: z.number().min(0.05).max(0.95).default(0.5), // Share of its value one side can lose before a trade is flagged; below 1 so giving something for nearly nothing still is
+  marketFeeRate: z.number().min(0).max(1).default(0.1), // Share of every marketplace sale paid to the admin account
+  warningEscalations: z.array(z.object({
+    points: z.number().int().min(1).max(100), // Active warning points that trigger this step
+    banDays: z.number().int().min(1).max(3650), // Length of the automatic temporary ban
+  })).max(10).default([{ points: 3, banDays: 1 }, { points: 5, banDays: 7 }]),
+  rollPrice: z.number().int().min(0).max(1000000000).default(0), // Cash charged per roll; 0 keeps rolling free
+  rollBundles: z.array(z.object({
+    rolls: z.number().int().min(2).max(100),
+    discountRate: z.number().min(0).max(0.9), // Share of the full price taken off the bundle
+  })).max(5).default([{ rolls: 10, discountRate: 0.1 }]),
+  pityThresholds: z.array(z.object({
+    rarity: z.enum(PITY_RARITIES), // Boosts this tier and everything above it
+    rolls: z.number().int().min(10).max(1000000), // Dry rolls before the boost applies
+    multiplier: z.number().min(1.1).max(100), // Weight multiplier until the player hits the tier
+  })).max(PITY_RARITIES.length).default([{ rarity: "EPIC", rolls: 1000, multiplier: 2 }, { rarity: "MYTHIC", rolls: 5000, multiplier: 3 }]),
+  updatedAt: z.number().optional(),
+  updatedBy: z.string().optional(), // Firestore ID of the admin who last changed it
+});
+
+export const updateGameConfigSchema = gameConfigSchema.omit({ updatedAt: true, updatedBy: true }).partial();
+
+export type GameConfig = z.infer<typeof gameConfigSchema>;
+export type UpdateGameConfig = z.infer<typeof updateGameConfigSchema>;
+
+export const DEFAULT_GAME_CONFIG: GameConfig = gameConfigSchema.parse({});
+
+export type RollBundle = GameConfig["rollBundles"][number];
+
+// Rounded down, so any rounding goes in the player's favour
+export function calculateBundlePrice(rollPrice: number, bundle: RollBundle): number {
+  return Math.floor(rollPrice * bundle.rolls * (1 - bundle.discountRate));
+}
+
+export const rollBundleRequestSchema = z.object({
+  rolls: z.number().int().positive(), // Must match a configured bundle
+});
+
+// Most rolls resolved in one transaction, keeping its writes well under Firestore's limit
+export const MAX_BATCH_ROLLS = 50;
+
+export const rollBatchRequestSchema = z.object({
+  count: z.number().int().min(1).max(MAX_BATCH_ROLLS),
+});
+
+// Result of POST /api/roll/batch and POST /api/roll/bundle
+export type RollBatchResult = {
+  results: RollResult[]; // In roll order; shorter than requested if a roll failed part way
+  totalCost: number; // Cash charged for the rolls in `results`
+  error?: string; // Why the batch stopped early, if it did
+};
+
+// Luck Event Schema - a timed global roll boost, stored at luckEvents/{eventId}.
+// Live events stack with each player's own luckMultiplier.
+export const luckEventSchema = z.object({
+  id: z.string(), // Firestore document ID
+  name: z.string(),
+  multiplier: z.number(), // Weight multiplier for the boosted items
+  minRarity: itemSchema.shape.rarity.optional(), // Rarity events boost this tier and everything above it
+  itemId: z.string().optional(), // Item events boost a single item
+  itemName: z.string().optional(),
+  startsAt: z.number(),
+  endsAt: z.number(),
+  status: z.enum(["scheduled", "active", "ended", "cancelled"]), // Advanced by the server, which announces each change
+  createdBy: z.string(), // Firestore ID of the admin who created it
+  createdByUsername: z.string(),
+  createdAt: z.number(),
+  cancelledAt: z.number().optional(),
+  cancelledByUsername: z.string().optional(),
+});
+
+export type LuckEvent = z.infer<typeof luckEventSchema>;
+
+export const createLuckEventRequestSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  multiplier: z.number().min(1.1).max(10),
+  minRarity: itemSchema.shape.rarity.optional(),
+  itemId: z.string().min(1).optional(),
+  startsAt: z.number().int().optional(), // Defaults to now
+  durationMinutes: z.number().int().min(5).max(7 * 24 * 60),
+}).refine((data) => !!data.minRarity !== !!data.itemId, {
+  message: "Choose either a minimum rarity or an item",
+});
+
+export type CreateLuckEventRequest = z.infer<typeof createLuckEventRequestSchema>;
+
+// Rarities boosted by a rarity event, e.g. MYTHIC -> ["MYTHIC", "INSANE"]
+export function raritiesFrom(minRarity: RarityTier): RarityTier[] {
+  const tiers = Object.keys(RARITY_TIERS) as RarityTier[];
+  return tiers.slice(tiers.indexOf(minRarity));
+}
+
+export function isLuckEventLive(event: Pick<LuckEvent, "status" | "startsAt" | "endsAt">, now: number = Date.now()): boolean {
+  return event.status !== "cancelled" && event.startsAt <= now && now < event.endsAt;
+}
+
+// Short description for banners and announcements, e.g. "2x luck on Mythic+"
+export function describeLuckEvent(event: Pick<LuckEvent, "multiplier" | "minRarity" | "itemName" | "itemId">): string {
+  if (event.minRarity) {
+    const suffix = event.minRarity === "INSANE" ? "" : "+";
+    return `${event.multiplier}x luck on ${RARITY_TIERS[event.minRarity].name}${suffix}`;
+  }
+  return `${event.multiplier}x chance for ${event.itemName || event.itemId}`;
+}
+
+// Splits a sale between the seller and the admin account. Both sides are floored,
+// so any rounding remainder is destroyed rather than credited to either party.
+export function calculateSellSplit(totalValue: number, sellFeeRate: number): { playerEarned: number; adminEarned: number } {
+  return {
+    playerEarned: Math.floor(totalValue * (1 - sellFeeRate)),
+    adminEarned: Math.floor(totalValue * sellFeeRate),
+  };
+}
+
+// Running totals of cash created and moved by the server, kept in economyStats/totals
+export const economyCountersSchema = z.object({
+  sellPayouts: z.number().default(0), // Cash paid to players for sold and auto-sold items
+  sellFees: z.number().default(0), // Sell fees credited to the admin account
+  marketVolume: z.number().default(0), // Cash spent on marketplace listings
+  marketFees: z.number().default(0), // Marketplace fees credited to the admin account
+  rollSpend: z.number().default(0), // Cash spent on rolls, removed from the economy
+});
+
+export type EconomyCounters = z.infer<typeof economyCountersSchema>;
+
+// Daily economy snapshot at economySnapshots/{YYYY-MM-DD} (UTC), taken by the server.
+// Period figures cover the time since the previous snapshot.
+export const economySnapshotSchema = z.object({
+  date: z.string(),
+  takenAt: z.number(),
+  userCount: z.number(),
+  totalCash: z.number(),
+  totalRolls: z.number(),
+  rollsPerHour: z.number().nullable(), // null for the first snapshot
+  highValueRolls: z.number(), // globalRolls entries in the last 24 hours
+  counters: economyCountersSchema,
+  periodCashCreated: z.number(), // Sell payouts plus sell fees since the previous snapshot
+  periodFees: z.number(), // Sell and marketplace fees since the previous snapshot
+  periodRollSpend: z.number().default(0), // Cash spent on rolls since the previous snapshot
+  inventoryValue: z.object({
+    total: z.number(),
+    mean: z.number(),
+    median: z.number(),
+    top10Share: z.number(), // Share of all inventory value held by the richest 10% of players
+    buckets: z.array(z.object({
+      min: z.number(), // Inventory value lower bound; the next bucket's min is the upper bound
+      players: z.number(),
+    })),
+  }),
+  limitedItems: z.array(z.object({
+    itemId: z.string(),
+    itemName: z.string(),
+    totalStock: z.number(),
+    remainingStock: z.number(),
+    depletedPerDay: z.number().nullable(), // null when the item wasn't in the previous snapshot
+  })),
+});
+
+export type EconomySnapshot = z.infer<typeof economySnapshotSchema>;
+
+// Ledger Schema - append-only record of every server-side change to a player's cash
+// or items, one entry per player per action. Written only by the server.
+export const ledgerItemDeltaSchema = z.object({
+  itemId: z.string(),
+  itemName: z.string().optional(), // Left out where the item document isn't read (wipes)
+  serialNumber: z.number().nullable(),
+  entryId: z.string(), // Inventory entry the copies left or landed in
+  amount: z.number(), // Copies gained, negative for copies lost
+});
+
+export const ledgerEntrySchema = z.object({
+  id: z.string(),
+  userId: z.string(), // Firestore ID of the player
+  type: z.enum([
+    "roll",
+    "auto_sell",
+    "sell",
+    "trade",
+    "market_buy",
+    "market_sell",
+    "admin_give",
+    "admin_wipe",
+    "admin_revert",
+  ]),
+  timestamp: z.number(),
+  cashBefore: z.number(),
+  cashAfter: z.number(),
+  items: z.array(ledgerItemDeltaSchema),
+  counterpartyId: z.string().optional(), // Other player of a trade or sale, or the acting staff member
+  counterpartyUsername: z.string().optional(),
+  referenceId: z.string().optional(), // Trade or listing ID
+  details: z.record(z.any()).optional(),
+});
+
+export const insertLedgerEntrySchema = ledgerEntrySchema.omit({ id: true });
+
+export type LedgerItemDelta = z.infer<typeof ledgerItemDeltaSchema>;
+export type LedgerEntry = z.infer<typeof ledgerEntrySchema>;
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+
+export const ledgerPageQuerySchema = z.object({
+  cursor: z.string().optional(), // ID of the last entry on the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export interface LedgerPage {
+  entries: LedgerEntry[];
+  nextCursor: string | null; // null on the last page
+}
+
+// Sell request/result for POST /api/inventory/sell. The item value is always looked up on the server.
+export const sellRequestSchema = z.object({
+  inventoryIds: z.array(z.string()).min(1).max(500), // Entry ids of one item; quantity may span several entries' amounts
+  quantity: z.number().int().positive(),
+});
+
+export type SellRequest = z.infer<typeof sellRequestSchema>;
+
+export type SellResult = {
+  soldCount: number;
+  playerEarned: number;
+  adminEarned: number;
+};